@@ -0,0 +1,273 @@
+import React from "react";
+import { Plus, RotateCcw, SlidersHorizontal, X } from "lucide-react";
+import {
+  ADJUST_RANGES,
+  GRADIENT_SIZE_RANGE,
+  GradientEdge,
+  GradientOverlay,
+  ImageAdjust,
+  ImageTone,
+  createGradient,
+  defaultAdjust,
+} from "./design";
+import { PaletteColor } from "./brand";
+import { LayerLayout } from "./render";
+import { clamp } from "./utils";
+
+const PALETTE_LABELS: Record<PaletteColor, string> = { text: "Text color", accent: "Accent", panel: "Panel color" };
+
+// How far past the layer's panel a fitted gradient keeps fading
+const FIT_FADE = 0.1;
+
+// Photo adjustments and gradient overlays. Nothing changes the uploaded image;
+// everything is applied when the design is drawn.
+export function AdjustPanel({
+  adjust,
+  gradients,
+  layouts,
+  stage,
+  onAdjust,
+  onGradients,
+}: {
+  adjust: ImageAdjust;
+  gradients: GradientOverlay[];
+  layouts: LayerLayout[]; // to fit a gradient behind a text layer
+  stage: { w: number; h: number };
+  onAdjust: (patch: Partial<ImageAdjust>) => void;
+  onGradients: (gradients: GradientOverlay[]) => void;
+}) {
+  function updateGradient(id: string, patch: Partial<GradientOverlay>) {
+    onGradients(gradients.map((g) => (g.id === id ? { ...g, ...patch } : g)));
+  }
+
+  // From the layer's edge of the stage to just past its panel
+  function fitBehind(g: GradientOverlay, layerId: string) {
+    const l = layouts.find((l) => l.layer.id === layerId);
+    if (!l) return;
+    const edge: GradientEdge = l.layer.anchor === "top" ? "top" : "bottom";
+    const reach = edge === "top" ? l.panel.top + l.panel.height : stage.h - l.panel.top;
+    const size = clamp(reach / stage.h + FIT_FADE, GRADIENT_SIZE_RANGE.min, GRADIENT_SIZE_RANGE.max);
+    updateGradient(g.id, { edge, size: Math.round(size * 100) / 100 });
+  }
+
+  return (
+    <div className="rounded-2xl border border-white/10 bg-white/5 p-3">
+      <div className="mb-2 flex items-center gap-2 text-sm font-semibold">
+        <SlidersHorizontal className="h-4 w-4" /> Photo & overlays
+        <button
+          onClick={() => onAdjust(defaultAdjust())}
+          className="ml-auto inline-flex items-center gap-1 rounded-xl border border-white/10 bg-white/5 px-2 py-1 text-xs font-normal hover:bg-white/10"
+          title="Reset the photo adjustments"
+        >
+          <RotateCcw className="h-3.5 w-3.5" /> Reset
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <AdjustSlider
+          label="Brightness"
+          value={adjust.brightness}
+          range={ADJUST_RANGES.brightness}
+          onChange={(brightness) => onAdjust({ brightness })}
+        />
+        <AdjustSlider
+          label="Contrast"
+          value={adjust.contrast}
+          range={ADJUST_RANGES.contrast}
+          onChange={(contrast) => onAdjust({ contrast })}
+        />
+        <AdjustSlider
+          label="Saturation"
+          value={adjust.saturation}
+          range={ADJUST_RANGES.saturation}
+          onChange={(saturation) => onAdjust({ saturation })}
+        />
+        <AdjustSlider
+          label="Blur"
+          value={adjust.blur}
+          range={ADJUST_RANGES.blur}
+          step={0.5}
+          shown={`${adjust.blur}px`}
+          onChange={(blur) => onAdjust({ blur })}
+        />
+        <AdjustSlider
+          label="Vignette"
+          value={adjust.vignette}
+          range={ADJUST_RANGES.vignette}
+          onChange={(vignette) => onAdjust({ vignette })}
+        />
+
+        <label className="flex items-center gap-2 rounded-2xl border border-white/10 bg-zinc-950 px-3 py-2 text-sm">
+          <span className="text-zinc-300">Tone</span>
+          <select
+            className="ml-auto rounded-xl border border-white/10 bg-zinc-950 px-2 py-1 text-sm"
+            value={adjust.tone}
+            onChange={(e) => onAdjust({ tone: e.target.value as ImageTone })}
+          >
+            <option value="none">Color</option>
+            <option value="grayscale">Grayscale</option>
+            <option value="duotone">Duotone</option>
+          </select>
+        </label>
+      </div>
+
+      {adjust.tone === "duotone" ? (
+        <div className="mt-2 grid grid-cols-2 gap-2">
+          <PaletteSelect
+            label="Shadows"
+            value={adjust.duotoneDark}
+            onChange={(duotoneDark) => onAdjust({ duotoneDark })}
+          />
+          <PaletteSelect
+            label="Highlights"
+            value={adjust.duotoneLight}
+            onChange={(duotoneLight) => onAdjust({ duotoneLight })}
+          />
+        </div>
+      ) : null}
+
+      <div className="mt-3 flex items-center gap-2 text-xs text-zinc-300">
+        Gradients
+        <button
+          onClick={() => onGradients([...gradients, createGradient()])}
+          className="ml-auto inline-flex items-center gap-1 rounded-xl border border-white/10 bg-white/5 px-2 py-1 text-xs hover:bg-white/10"
+          title="Add a gradient overlay"
+        >
+          <Plus className="h-3.5 w-3.5" /> Add
+        </button>
+      </div>
+      <div className="mt-2 space-y-2">
+        {gradients.map((g) => (
+          <div key={g.id} className="rounded-2xl border border-white/10 bg-zinc-950 px-3 py-2">
+            <div className="flex items-center gap-1">
+              <select
+                className="rounded-xl border border-white/10 bg-zinc-950 px-2 py-1 text-xs"
+                value={g.edge}
+                onChange={(e) => updateGradient(g.id, { edge: e.target.value as GradientEdge })}
+                aria-label="Edge"
+              >
+                <option value="top">From top</option>
+                <option value="bottom">From bottom</option>
+                <option value="left">From left</option>
+                <option value="right">From right</option>
+              </select>
+              <select
+                className="rounded-xl border border-white/10 bg-zinc-950 px-2 py-1 text-xs"
+                value={g.color}
+                onChange={(e) => updateGradient(g.id, { color: e.target.value as PaletteColor })}
+                aria-label="Color"
+              >
+                {Object.entries(PALETTE_LABELS).map(([key, label]) => (
+                  <option key={key} value={key}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+              <select
+                className="min-w-0 flex-1 rounded-xl border border-white/10 bg-zinc-950 px-2 py-1 text-xs"
+                value=""
+                onChange={(e) => fitBehind(g, e.target.value)}
+                aria-label="Fit behind a text layer"
+              >
+                <option value="">Fit behind…</option>
+                {layouts
+                  .filter((l) => !l.empty)
+                  .map((l) => (
+                    <option key={l.layer.id} value={l.layer.id}>
+                      {l.layer.name}
+                    </option>
+                  ))}
+              </select>
+              <button
+                onClick={() => onGradients(gradients.filter((x) => x.id !== g.id))}
+                className="grid h-7 w-7 shrink-0 place-items-center rounded-lg hover:bg-white/10"
+                title="Remove gradient"
+              >
+                <X className="h-3.5 w-3.5" />
+              </button>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <AdjustSlider
+                label="Opacity"
+                value={g.opacity}
+                range={{ min: 0, max: 1 }}
+                bare
+                onChange={(opacity) => updateGradient(g.id, { opacity })}
+              />
+              <AdjustSlider
+                label="Reach"
+                value={g.size}
+                range={GRADIENT_SIZE_RANGE}
+                bare
+                onChange={(size) => updateGradient(g.id, { size })}
+              />
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function AdjustSlider({
+  label,
+  value,
+  range,
+  step = 0.01,
+  shown = `${Math.round(value * 100)}%`,
+  bare,
+  onChange,
+}: {
+  label: string;
+  value: number;
+  range: { min: number; max: number };
+  step?: number;
+  shown?: string;
+  bare?: boolean; // inside another box
+  onChange: (value: number) => void;
+}) {
+  return (
+    <div className={bare ? "mt-2" : "rounded-2xl border border-white/10 bg-zinc-950 px-3 py-2"}>
+      <div className="flex items-center justify-between">
+        <span className="text-sm text-zinc-300">{label}</span>
+        <span className="text-xs text-zinc-400">{shown}</span>
+      </div>
+      <input
+        type="range"
+        min={range.min}
+        max={range.max}
+        step={step}
+        value={value}
+        onChange={(e) => onChange(Number(e.target.value))}
+        className="mt-2 w-full"
+      />
+    </div>
+  );
+}
+
+function PaletteSelect({
+  label,
+  value,
+  onChange,
+}: {
+  label: string;
+  value: PaletteColor;
+  onChange: (color: PaletteColor) => void;
+}) {
+  return (
+    <label className="flex items-center gap-2 rounded-2xl border border-white/10 bg-zinc-950 px-3 py-2 text-sm">
+      <span className="text-zinc-300">{label}</span>
+      <select
+        className="ml-auto rounded-xl border border-white/10 bg-zinc-950 px-2 py-1 text-sm"
+        value={value}
+        onChange={(e) => onChange(e.target.value as PaletteColor)}
+      >
+        {Object.entries(PALETTE_LABELS).map(([key, l]) => (
+          <option key={key} value={key}>
+            {l}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
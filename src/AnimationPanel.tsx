@@ -0,0 +1,274 @@
+import React, { useEffect, useRef, useState } from "react";
+import { Clapperboard, Pause, Play, Square } from "lucide-react";
+import { Animation, DURATION_RANGE, ENTER_EFFECTS, EnterEffect, FPS_OPTIONS, TextLayer, VideoFormat } from "./design";
+import { VIDEO_FORMATS } from "./video";
+
+const EFFECT_LABELS: Record<EnterEffect, string> = {
+  none: "Always on",
+  fade: "Fade in",
+  "slide-up": "Slide up",
+  typewriter: "Typewriter",
+};
+
+// Timeline for Reels/TikTok: entrance per text layer, Ken Burns on the
+// background, and the video export. `time` drives the preview; null shows
+// the finished frame.
+export function AnimationPanel({
+  animation,
+  layers,
+  onChange,
+  onLayerChange,
+  time,
+  onTimeChange,
+  onExport,
+  progress,
+}: {
+  animation: Animation;
+  layers: TextLayer[];
+  onChange: (patch: Partial<Animation>) => void;
+  onLayerChange: (id: string, patch: Partial<TextLayer>) => void;
+  time: number | null;
+  onTimeChange: (t: number | null) => void;
+  onExport: () => void;
+  progress: { done: number; total: number } | null;
+}) {
+  const [playing, setPlaying] = useState(false);
+  const timeRef = useRef(time);
+  timeRef.current = time;
+
+  useEffect(() => {
+    if (!playing) return;
+    const from = timeRef.current ?? 0;
+    const startAt = performance.now() - (from >= animation.duration ? 0 : from * 1000);
+    let raf = requestAnimationFrame(function tick(now) {
+      const t = (now - startAt) / 1000;
+      if (t >= animation.duration) {
+        onTimeChange(animation.duration);
+        setPlaying(false);
+        return;
+      }
+      onTimeChange(t);
+      raf = requestAnimationFrame(tick);
+    });
+    return () => cancelAnimationFrame(raf);
+  }, [playing, animation.duration]);
+
+  const shown = time ?? animation.duration;
+  const pct = (t: number) => `${clampPct((t / animation.duration) * 100)}%`;
+
+  return (
+    <div className="rounded-2xl border border-white/10 bg-white/5 p-3">
+      <div className="mb-2 flex items-center gap-2 text-sm font-semibold">
+        <Clapperboard className="h-4 w-4" /> Animation
+      </div>
+
+      <div className="flex items-center gap-2">
+        <button
+          onClick={() => setPlaying(!playing)}
+          className="grid h-8 w-8 shrink-0 place-items-center rounded-xl border border-white/10 bg-white/5 hover:bg-white/10"
+          title={playing ? "Pause" : "Play"}
+        >
+          {playing ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+        </button>
+        <button
+          onClick={() => {
+            setPlaying(false);
+            onTimeChange(null);
+          }}
+          disabled={time === null}
+          className="grid h-8 w-8 shrink-0 place-items-center rounded-xl border border-white/10 bg-white/5 hover:bg-white/10 disabled:opacity-40"
+          title="Back to the still (editing) frame"
+        >
+          <Square className="h-3.5 w-3.5" />
+        </button>
+        <input
+          type="range"
+          min={0}
+          max={animation.duration}
+          step={0.01}
+          value={shown}
+          onChange={(e) => {
+            setPlaying(false);
+            onTimeChange(Number(e.target.value));
+          }}
+          className="min-w-0 flex-1"
+          aria-label="Timeline position"
+        />
+        <span className="w-16 shrink-0 text-right text-xs tabular-nums text-zinc-400">
+          {shown.toFixed(1)}/{animation.duration}s
+        </span>
+      </div>
+
+      <div className="mt-3 space-y-2">
+        {layers.map((layer) => (
+          <div key={layer.id} className="rounded-xl border border-white/10 bg-zinc-950 px-3 py-2">
+            <div className="flex items-center gap-2 text-xs">
+              <span className="min-w-0 flex-1 truncate font-semibold">{layer.name}</span>
+              <select
+                className="rounded-lg border border-white/10 bg-zinc-950 px-2 py-1 text-xs"
+                value={layer.enter}
+                onChange={(e) => onLayerChange(layer.id, { enter: e.target.value as EnterEffect })}
+              >
+                {ENTER_EFFECTS.map((effect) => (
+                  <option key={effect} value={effect}>
+                    {EFFECT_LABELS[effect]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            {layer.enter !== "none" ? (
+              <>
+                <div className="relative mt-2 h-2 rounded-full bg-white/10">
+                  <div
+                    className="absolute inset-y-0 rounded-full bg-sky-400"
+                    style={{ left: pct(layer.enterAt), width: pct(Math.min(layer.enterDuration, animation.duration - layer.enterAt)) }}
+                  />
+                  <div className="absolute inset-y-[-3px] w-0.5 bg-white" style={{ left: pct(shown) }} />
+                </div>
+                <div className="mt-2 grid grid-cols-2 gap-2 text-xs text-zinc-400">
+                  <label>
+                    Starts {layer.enterAt.toFixed(1)}s
+                    <input
+                      type="range"
+                      min={0}
+                      max={animation.duration}
+                      step={0.1}
+                      value={layer.enterAt}
+                      onChange={(e) => onLayerChange(layer.id, { enterAt: Number(e.target.value) })}
+                      className="w-full"
+                    />
+                  </label>
+                  <label>
+                    Lasts {layer.enterDuration.toFixed(1)}s
+                    <input
+                      type="range"
+                      min={0.1}
+                      max={Math.max(0.1, animation.duration)}
+                      step={0.1}
+                      value={layer.enterDuration}
+                      onChange={(e) => onLayerChange(layer.id, { enterDuration: Number(e.target.value) })}
+                      className="w-full"
+                    />
+                  </label>
+                </div>
+              </>
+            ) : null}
+          </div>
+        ))}
+      </div>
+
+      <div className="mt-3 grid grid-cols-2 gap-2">
+        <div className="rounded-2xl border border-white/10 bg-zinc-950 px-3 py-2">
+          <div className="flex items-center justify-between">
+            <span className="text-sm text-zinc-300">Duration</span>
+            <span className="text-xs text-zinc-400">{animation.duration}s</span>
+          </div>
+          <input
+            type="range"
+            min={DURATION_RANGE.min}
+            max={DURATION_RANGE.max}
+            step={0.5}
+            value={animation.duration}
+            onChange={(e) => onChange({ duration: Number(e.target.value) })}
+            className="mt-2 w-full"
+          />
+        </div>
+        <label className="flex items-center gap-2 rounded-2xl border border-white/10 bg-zinc-950 px-3 py-2 text-sm">
+          <span className="text-zinc-300">FPS</span>
+          <select
+            className="ml-auto rounded-xl border border-white/10 bg-zinc-950 px-2 py-1 text-sm"
+            value={animation.fps}
+            onChange={(e) => onChange({ fps: Number(e.target.value) })}
+          >
+            {FPS_OPTIONS.map((fps) => (
+              <option key={fps} value={fps}>
+                {fps}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div className="mt-2 rounded-2xl border border-white/10 bg-zinc-950 px-3 py-2">
+        <label className="flex items-center justify-between text-sm">
+          <span className="text-zinc-300">Ken Burns (slow zoom &amp; pan)</span>
+          <input
+            type="checkbox"
+            checked={animation.kenBurns}
+            onChange={(e) => onChange({ kenBurns: e.target.checked })}
+            className="h-4 w-4"
+          />
+        </label>
+        {animation.kenBurns ? (
+          <div className="mt-2 grid grid-cols-3 gap-2 text-xs text-zinc-400">
+            <label>
+              Zoom {Math.round((animation.kenBurnsZoom - 1) * 100)}%
+              <input
+                type="range"
+                min={1}
+                max={1.5}
+                step={0.01}
+                value={animation.kenBurnsZoom}
+                onChange={(e) => onChange({ kenBurnsZoom: Number(e.target.value) })}
+                className="w-full"
+              />
+            </label>
+            <label>
+              Pan ↔
+              <input
+                type="range"
+                min={-0.2}
+                max={0.2}
+                step={0.01}
+                value={animation.kenBurnsPanX}
+                onChange={(e) => onChange({ kenBurnsPanX: Number(e.target.value) })}
+                className="w-full"
+              />
+            </label>
+            <label>
+              Pan ↕
+              <input
+                type="range"
+                min={-0.2}
+                max={0.2}
+                step={0.01}
+                value={animation.kenBurnsPanY}
+                onChange={(e) => onChange({ kenBurnsPanY: Number(e.target.value) })}
+                className="w-full"
+              />
+            </label>
+          </div>
+        ) : null}
+      </div>
+
+      <div className="mt-3 flex items-center gap-2">
+        <select
+          className="rounded-2xl border border-white/10 bg-zinc-950 px-3 py-2 text-sm"
+          value={animation.format}
+          onChange={(e) => onChange({ format: e.target.value as VideoFormat })}
+          aria-label="Video format"
+        >
+          {Object.entries(VIDEO_FORMATS).map(([id, f]) => (
+            <option key={id} value={id}>
+              {f.label}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={onExport}
+          disabled={progress !== null}
+          className="flex-1 rounded-2xl bg-white px-3 py-2 text-sm font-semibold text-zinc-900 disabled:opacity-50"
+        >
+          {progress ? `Rendering ${progress.done}/${progress.total}…` : `Export ${VIDEO_FORMATS[animation.format].label}`}
+        </button>
+      </div>
+      <div className="mt-2 text-xs text-zinc-400">
+        Encoded in your browser. GIFs are exported at most 540px wide and up to 15 fps.
+      </div>
+    </div>
+  );
+}
+
+function clampPct(v: number) {
+  return Math.min(100, Math.max(0, v));
+}
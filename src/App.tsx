@@ -1,589 +1,901 @@
-import React, { useEffect, useMemo, useRef, useState } from "react";
-import { Download, Image as ImageIcon, Type, LayoutGrid, Trash2 } from "lucide-react";
-import { toPng } from "html-to-image";
+import React, { useCallback, useMemo, useState } from "react";
+import {
+  AlertTriangle,
+  Check,
+  Copy,
+  Download,
+  Image as ImageIcon,
+  LayoutGrid,
+  Trash2,
+  FolderOpen,
+  Redo2,
+  Save,
+  Undo2,
+} from "lucide-react";
+import {
+  DEFAULT_LOCALE,
+  DESIGN_FILE_EXTENSION,
+  Design,
+  DesignFileError,
+  ImageCrop,
+  TextLayer,
+  createDesign,
+  defaultCrop,
+  designFontIds,
+  getSize,
+  readDesignFile,
+  serializeDesign,
+} from "./design";
+import { BatchPanel } from "./BatchPanel";
+import { CarouselPanel } from "./CarouselPanel";
+import { CropPanel } from "./CropPanel";
+import { LayersPanel } from "./LayersPanel";
+import { PresetPanel } from "./PresetPanel";
+import { Preset, applyPreset } from "./presets";
+import { usePresetLibrary } from "./usePresetLibrary";
+import { BrandContext } from "./brand";
+import { BrandPanel } from "./BrandPanel";
+import { useBrandKit } from "./useBrandKit";
+import { FontsPanel } from "./FontsPanel";
+import { useFontLibrary } from "./useFontLibrary";
+import { SlideRender, resolveAllSlides, resolveSlide, slideCount } from "./carousel";
+import { designForSize, formatSizes } from "./formats";
+import { MultiFormatPanel } from "./MultiFormatPanel";
+import { CanvasSizePanel } from "./CanvasSizePanel";
+import { useProfileLibrary } from "./useProfileLibrary";
+import { Stage } from "./Stage";
+import { TextIssue, layoutDesign } from "./render";
+import { AdjustPanel } from "./AdjustPanel";
+import { LocalesPanel } from "./LocalesPanel";
+import { SuggestPanel } from "./SuggestPanel";
+import { useSuggestSettings } from "./useSuggestSettings";
+import { designForLocale, localeName } from "./locales";
+import { renderDesign } from "./stageCanvas";
+import { ZipEntry, createZip, uniqueName } from "./zip";
+import { EXPORT_FORMATS, EncodeError, copyPngToClipboard, encodePng } from "./imageExport";
+import { DESIGN_PNG_KEYWORD, encodeDesign, readDesignFileFromPng, readPngText } from "./designPng";
+import { ExportPanel } from "./ExportPanel";
+import { useHistory, useUndoShortcuts } from "./useHistory";
+import { AnimationPanel } from "./AnimationPanel";
+import { ReadabilityPanel } from "./ReadabilityPanel";
+import { useReadability } from "./useReadability";
+import { applyReadabilityFix } from "./readability";
+import { VIDEO_FORMATS, VideoEncodeError, encodeVideo } from "./video";
+import { missingFonts } from "./fonts";
+import { IMAGE_ACCEPT, UploadError, prepareImage } from "./upload";
+import { usePasteImage } from "./usePasteImage";
+import { QueuePanel } from "./QueuePanel";
+import { usePostQueue } from "./usePostQueue";
+import { QueuedPost, localDate } from "./queue";
+import { clamp, downloadBlob, loadImage, readableFileSize, safeFileName } from "./utils";
 
 // TSTW Social Post Builder
-// - Upload an image
-// - Add top question + bottom CTA
-// - Choose template + font size
-// - Export as PNG (HD)
-
-const presets = [
-  {
-    id: "classic",
-    name: "Classic (Top + Bottom)",
-    top: "The future won’t fix itself.\nWill you help build it?",
-    bottom: "Join the mission → @t.s.t.w.7",
-  },
-  {
-    id: "chapter1",
-    name: "Chapter 1 (Book Page)",
-    top: "What do you feel when the world is asking for help?",
-    bottom: "The Earth was covered in smoke.\nThe sky grew darker.\nBut then… a light arrived.",
-  },
-  {
-    id: "question",
-    name: "Question Only",
-    top: "What would you change first to help Earth?",
-    bottom: "",
-  },
-];
-
-const sizeOptions = [
-  { id: "story", label: "Instagram Story (1080×1920)", w: 1080, h: 1920 },
-  { id: "reel", label: "Reels/TikTok (1080×1920)", w: 1080, h: 1920 },
-  { id: "square", label: "Feed Square (1080×1080)", w: 1080, h: 1080 },
-  { id: "portrait", label: "Feed Portrait (1080×1350)", w: 1080, h: 1350 },
-];
-
-function clamp(n: number, min: number, max: number) {
-  return Math.max(min, Math.min(max, n));
+// - Upload, drop or paste an image; big photos are scaled down on the way in
+// - Add top question + bottom CTA, or any number of free-form text layers
+// - Choose template + font size; save your own presets
+// - Export as PNG, JPEG or WebP (HD), optionally under a file-size cap
+// - Save / reopen the design as a .tstw.json file
+// - Batch: render a CSV/JSON sheet of posts into one ZIP
+// - Carousel: several slides sharing one style, exported as numbered images
+// - Brand kit: logo/watermark, palette and fonts shared by every design
+// - Upload your own fonts; exports embed them so the file matches the preview
+// - Auto-fit text to its box; overflow and overlaps are flagged before export
+// - Undo/redo for every design edit, including Reset
+// - Contrast check of each text against the photo, with an automatic fix
+// - Animate text entrances and the photo, exported as WebM, MP4 or GIF
+// - Inline markup: bold, italic, highlight, brand accent color and per-line size
+// - Multi-format: every canvas size at once, each with its own font scale,
+//   margin and framing, in one ZIP
+// - Platform profiles (Instagram, TikTok, X, LinkedIn, …) with their safe
+//   zones and a mockup of their UI; custom sizes and your own profiles
+// - Photo adjustments (brightness, contrast, saturation, grayscale/duotone,
+//   blur), vignette strength and brand-colored gradient overlays
+// - Translations of every text block, right-to-left scripts included, with
+//   one export per language
+// - Copy the rendered PNG to the clipboard instead of downloading it
+// - PNG exports carry their design; open or drop one to edit it again
+// - Text ideas (questions, CTAs, captions, hashtags) from a model server,
+//   with offline templates as the fallback
+// - Post queue: plan a week of posts with dates, sizes, captions and status,
+//   then export every ready one in one ZIP
+
+// An encoded export waiting for the user to check its size and download it.
+// Queued posts in it are marked exported once it is downloaded.
+type PendingExport = { blob: Blob; name: string; quality: number | null; overCap: boolean; postIds?: string[] };
+
+// Domain errors are written for the user; anything else (a canvas or storage
+// failure, a missing browser API) is still shown, with what the browser says
+function errorMessage(err: unknown, known: (new (message: string) => Error)[], what: string) {
+  if (known.some((type) => err instanceof type)) return (err as Error).message;
+  return `${what}: ${err instanceof Error ? err.message : String(err)}`;
 }
 
-function readableFileSize(bytes: number) {
-  if (!bytes) return "";
-  const units = ["B", "KB", "MB", "GB"];
-  let idx = 0;
-  let val = bytes;
-  while (val >= 1024 && idx < units.length - 1) {
-    val /= 1024;
-    idx++;
+export default function App() {
+  const history = useHistory<Design>(() => createDesign());
+  const design = history.present;
+  const setDesign = history.set;
+  useUndoShortcuts(history.undo, history.redo);
+  const [fileError, setFileError] = useState<string | null>(null);
+
+  const activeSize = getSize(design.sizeId);
+
+  // The language shown in the preview and exported; falls back to the
+  // design's first one when the design doesn't have it
+  const [locale, setLocale] = useState(DEFAULT_LOCALE);
+  const activeLocale = design.locales.includes(locale) ? locale : design.locales[0];
+  const localized = useMemo(() => designForLocale(design, activeLocale), [design, activeLocale]);
+  // Only tag file names with the language when there is more than one
+  const localeTag = design.locales.length > 1 ? `_${activeLocale}` : "";
+
+  const [activeSlide, setActiveSlide] = useState(0);
+  const slides = slideCount(design);
+  const shownSlide = Math.min(activeSlide, slides - 1);
+  // Memoized like `localized`: the preview redraws when its design object changes
+  const preview = useMemo(() => resolveSlide(localized, shownSlide), [localized, shownSlide]);
+  const [issues, setIssues] = useState<TextIssue[]>([]);
+
+  // The preview reports after every draw; only store real changes. Stable,
+  // so the preview doesn't redraw for a new callback.
+  const onPreviewIssues = useCallback((next: TextIssue[]) => {
+    setIssues((prev) => (JSON.stringify(prev) === JSON.stringify(next) ? prev : next));
+  }, []);
+
+  const presetLibrary = usePresetLibrary();
+  const brandKit = useBrandKit();
+  const readability = useReadability(preview.design, brandKit.kit);
+  const fontLibrary = useFontLibrary();
+  const profileLibrary = useProfileLibrary();
+  const suggestSettings = useSuggestSettings();
+  const postQueue = usePostQueue();
+  // The queued post open in the builder, if any
+  const [editingPostId, setEditingPostId] = useState<string | null>(null);
+  // Mock platform buttons and captions on the preview; never exported
+  const [showOverlay, setShowOverlay] = useState(false);
+  const [selectedLayerId, setSelectedLayerId] = useState<string | null>(null);
+  const [focalMode, setFocalMode] = useState(false);
+
+  const [exporting, setExporting] = useState(false);
+  const [copied, setCopied] = useState(false);
+  // An image file dragged over the preview
+  const [dropping, setDropping] = useState(false);
+  const [pendingExport, setPendingExport] = useState<PendingExport | null>(null);
+  const formatLabel = EXPORT_FORMATS[design.exportFormat].label;
+  // Where the preview sits on the animation timeline; null = the still frame
+  const [previewTime, setPreviewTime] = useState<number | null>(null);
+  const [videoProgress, setVideoProgress] = useState<{ done: number; total: number } | null>(null);
+
+  function update<K extends keyof Design>(key: K, value: Design[K]) {
+    setDesign((d) => ({ ...d, [key]: value }));
   }
-  return `${val.toFixed(idx === 0 ? 0 : 1)} ${units[idx]}`;
-}
 
-export default function App() {
-  const [imageSrc, setImageSrc] = useState<string | null>(null);
-  const [imageMeta, setImageMeta] = useState<{ name: string; size: number } | null>(null);
+  function updateLayer(id: string, patch: Partial<TextLayer>) {
+    setDesign((d) => ({ ...d, layers: d.layers.map((l) => (l.id === id ? { ...l, ...patch } : l)) }));
+  }
 
-  const [presetId, setPresetId] = useState(presets[0].id);
-  const activePreset = useMemo(() => presets.find((p) => p.id === presetId)!, [presetId]);
+  // Also drops slide overrides (and their translations) that point at deleted layers
+  function setLayers(layers: TextLayer[]) {
+    setDesign((d) => {
+      const ids = new Set(layers.map((l) => l.id));
+      const keep = (text: Record<string, string>) =>
+        Object.fromEntries(Object.entries(text).filter(([id]) => ids.has(id)));
+      const slides = d.carousel.slides.map((slide) => ({
+        ...slide,
+        text: keep(slide.text),
+        translations: Object.fromEntries(Object.entries(slide.translations).map(([l, text]) => [l, keep(text)])),
+      }));
+      return { ...d, layers, carousel: { ...d.carousel, slides } };
+    });
+  }
 
-  const [topText, setTopText] = useState(activePreset.top);
-  const [bottomText, setBottomText] = useState(activePreset.bottom);
+  // Keeps whatever the user changed since the previous preset was applied
+  function selectPreset(to: Preset) {
+    setDesign((d) => applyPreset(d, presetLibrary.presets.find((p) => p.id === d.presetId), to));
+  }
 
-  const [sizeId, setSizeId] = useState(sizeOptions[0].id);
-  const activeSize = useMemo(() => sizeOptions.find((s) => s.id === sizeId)!, [sizeId]);
+  async function onPickFile(file: File) {
+    try {
+      // A PNG exported from here reopens as the design it was made from
+      if (file.type === "image/png") {
+        const bytes = new Uint8Array(await file.arrayBuffer());
+        if (readPngText(bytes, DESIGN_PNG_KEYWORD) !== null) return openDesign(file);
+      }
+      const image = await prepareImage(file, file.name || "Pasted image");
+      // A new photo has a different subject, so framing starts over
+      setDesign((d) => ({ ...d, image, crop: defaultCrop() }));
+      setFileError(null);
+    } catch (err) {
+      setFileError(errorMessage(err, [UploadError], `${file.name || "Pasted image"} couldn't be added`));
+    }
+  }
 
-  const [topSize, setTopSize] = useState(72);
-  const [bottomSize, setBottomSize] = useState(56);
+  usePasteImage(onPickFile);
 
-  const [topAlign, setTopAlign] = useState<"left" | "center" | "right">("center");
-  const [bottomAlign, setBottomAlign] = useState<"left" | "center" | "right">("center");
+  function updateCrop(patch: Partial<ImageCrop>) {
+    setDesign((d) => ({ ...d, crop: { ...d.crop, ...patch } }));
+  }
 
-  const [shadow, setShadow] = useState(true);
-  const [panel, setPanel] = useState<"none" | "soft" | "box">("soft");
+  // Overflowing or overlapping text needs an explicit go-ahead
+  function confirmIssues(found: TextIssue[], where = "") {
+    if (!found.length) return true;
+    const list = found.map((i) => `• ${i.message}`).join("\n");
+    return confirm(`${where}Some text doesn't fit:\n\n${list}\n\nExport anyway?`);
+  }
 
-  const [bgFit, setBgFit] = useState<"cover" | "contain">("cover");
-  const [dim, setDim] = useState(0.25);
+  async function exportImage() {
+    setPendingExport(null);
+    setExporting(true);
+    try {
+      setPendingExport(slides > 1 ? await exportCarousel() : await exportSingle());
+    } catch (err) {
+      setFileError(errorMessage(err, [EncodeError], "Export failed"));
+    } finally {
+      setExporting(false);
+    }
+  }
 
-  const [exportScale, setExportScale] = useState(2); // 2x = very crisp
-  const [exporting, setExporting] = useState(false);
+  async function exportSingle(): Promise<PendingExport | null> {
+    const { canvas, issues: found } = await renderDesign(localized, brandKit.kit, {}, design.exportScale);
+    if (!confirmIssues(found)) return null;
+    const encoded = await encodeDesign(canvas, design);
+    const format = EXPORT_FORMATS[design.exportFormat];
+    return {
+      blob: new Blob([encoded.data] as BlobPart[], { type: format.mime }),
+      name: `TSTW_${safeFileName(design.image?.name)}${localeTag}_${activeSize.w}x${activeSize.h}.${format.ext}`,
+      quality: encoded.quality,
+      overCap: encoded.overCap,
+    };
+  }
 
-  const stageRef = useRef<HTMLDivElement | null>(null);
+  // Numbered images in slide order, zipped so they upload as one carousel.
+  // The size cap applies to each image.
+  async function exportCarousel(): Promise<PendingExport | null> {
+    const baseName = `TSTW_${safeFileName(design.image?.name)}${localeTag}_${activeSize.w}x${activeSize.h}`;
+    const images = resolveAllSlides(localized).map((slide, idx) => ({
+      slide,
+      name: `${baseName}_${String(idx + 1).padStart(2, "0")}`,
+      where: `Slide ${idx + 1}: `,
+    }));
+    return exportZip(images, `${baseName}_carousel.zip`);
+  }
 
-  // Update text when preset changes (without destroying user's edits if they already typed)
-  useEffect(() => {
-    setTopText(activePreset.top);
-    setBottomText(activePreset.bottom);
-  }, [activePreset.id]);
+  // Every chosen size, with each size's own layout; carousels keep their slides
+  async function exportFormats() {
+    setPendingExport(null);
+    setExporting(true);
+    try {
+      const baseName = `TSTW_${safeFileName(design.image?.name)}${localeTag}`;
+      const images = formatSizes(design).flatMap((size) => {
+        const all = resolveAllSlides(designForSize(localized, size.id));
+        const numbered = all.length > 1;
+        return all.map((slide, idx) => ({
+          slide,
+          name: `${baseName}_${size.id}_${size.w}x${size.h}${numbered ? `_${String(idx + 1).padStart(2, "0")}` : ""}`,
+          where: `${size.label}${numbered ? `, slide ${idx + 1}` : ""}: `,
+        }));
+      });
+      setPendingExport(await exportZip(images, `${baseName}_formats.zip`));
+    } catch (err) {
+      setFileError(errorMessage(err, [EncodeError], "Export failed"));
+    } finally {
+      setExporting(false);
+    }
+  }
 
-  function onPickFile(file: File) {
-    setImageMeta({ name: file.name, size: file.size });
-    const reader = new FileReader();
-    reader.onload = () => setImageSrc(String(reader.result));
-    reader.readAsDataURL(file);
+  // The slide in the preview as a PNG at the export scale. Text issues are
+  // already listed under the preview, so there is no prompt.
+  async function copyImage() {
+    setCopied(false);
+    try {
+      await copyPngToClipboard(
+        renderDesign(preview.design, brandKit.kit, { pageLabel: preview.pageLabel }, design.exportScale).then(
+          ({ canvas }) => encodePng(canvas)
+        )
+      );
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      setFileError(errorMessage(err, [EncodeError], "Copy failed"));
+    }
   }
 
-  async function exportPng() {
-    if (!stageRef.current) return;
+  // Every language at the current size, with the locale in each file name
+  async function exportLocales() {
+    setPendingExport(null);
     setExporting(true);
     try {
-      // Ensure fonts/layout settle
-      await new Promise((r) => setTimeout(r, 50));
-      const dataUrl = await toPng(stageRef.current, {
-        cacheBust: true,
-        pixelRatio: exportScale,
+      const baseName = `TSTW_${safeFileName(design.image?.name)}`;
+      const size = `${activeSize.w}x${activeSize.h}`;
+      const images = design.locales.flatMap((code) => {
+        const all = resolveAllSlides(designForLocale(design, code));
+        const numbered = all.length > 1;
+        return all.map((slide, idx) => ({
+          slide,
+          name: `${baseName}_${code}_${size}${numbered ? `_${String(idx + 1).padStart(2, "0")}` : ""}`,
+          where: `${localeName(code)}${numbered ? `, slide ${idx + 1}` : ""}: `,
+        }));
       });
-      const a = document.createElement("a");
-      const safeName = (imageMeta?.name || "post")
-        .replace(/\.[^/.]+$/, "")
-        .replace(/[^a-zA-Z0-9_-]+/g, "_");
-      a.download = `TSTW_${safeName}_${activeSize.w}x${activeSize.h}.png`;
-      a.href = dataUrl;
-      a.click();
+      setPendingExport(await exportZip(images, `${baseName}_${size}_languages.zip`));
+    } catch (err) {
+      setFileError(errorMessage(err, [EncodeError], "Export failed"));
     } finally {
       setExporting(false);
     }
   }
 
+  // Ready posts, each at its target size with its own export settings and
+  // its caption next to the images
+  async function exportQueue() {
+    const ready = postQueue.posts.filter((p) => p.status === "ready");
+    setPendingExport(null);
+    setExporting(true);
+    try {
+      const taken = new Set<string>();
+      const captions: ZipEntry[] = [];
+      const images = ready.flatMap((post) => {
+        const size = getSize(post.sizeId);
+        const baseName = uniqueName(
+          `${post.publishAt.slice(0, 10)}_${safeFileName(post.title)}_${size.w}x${size.h}`,
+          taken
+        );
+        if (post.caption.trim()) {
+          captions.push({ name: `${baseName}.txt`, data: new TextEncoder().encode(post.caption) });
+        }
+        const all = resolveAllSlides(designForSize(post.design, post.sizeId));
+        const numbered = all.length > 1;
+        return all.map((slide, idx) => ({
+          slide,
+          name: `${baseName}${numbered ? `_${String(idx + 1).padStart(2, "0")}` : ""}`,
+          where: `${post.title}${numbered ? `, slide ${idx + 1}` : ""}: `,
+          source: post.design,
+        }));
+      });
+      const pending = await exportZip(images, `TSTW_queue_${localDate(new Date())}.zip`, captions);
+      setPendingExport(pending && { ...pending, postIds: ready.map((p) => p.id) });
+    } catch (err) {
+      setFileError(errorMessage(err, [EncodeError], "Export failed"));
+    } finally {
+      setExporting(false);
+    }
+  }
+
+  // Asks once about text issues, at the first image that has any. Export
+  // settings come from each image's source design, the builder's by default.
+  async function exportZip(
+    images: { slide: SlideRender; name: string; where: string; source?: Design }[],
+    zipName: string,
+    extra: ZipEntry[] = []
+  ): Promise<PendingExport | null> {
+    const entries = [];
+    // Each photo is embedded once, in the first PNG that shows it
+    const embedded = new Set<string>();
+    let confirmed = false;
+    let quality: number | null = null;
+    let overCap = false;
+    for (const { slide, name, where, source = design } of images) {
+      const { canvas, issues: found } = await renderDesign(
+        slide.design,
+        brandKit.kit,
+        { pageLabel: slide.pageLabel },
+        source.exportScale
+      );
+      if (found.length && !confirmed) {
+        if (!confirmIssues(found, where)) return null;
+        confirmed = true;
+      }
+      const photo = slide.design.image?.src;
+      const encoded = await encodeDesign(canvas, source, { withFiles: !photo || !embedded.has(photo) });
+      if (photo && source.exportFormat === "png") embedded.add(photo);
+      if (encoded.quality !== null) quality = Math.min(quality ?? 1, encoded.quality);
+      overCap ||= encoded.overCap;
+      entries.push({ name: `${name}.${EXPORT_FORMATS[source.exportFormat].ext}`, data: encoded.data });
+    }
+    return { blob: createZip([...entries, ...extra]), name: zipName, quality, overCap };
+  }
+
+  // Renders the slide shown in the preview frame by frame at 1×
+  async function exportVideo() {
+    if (!confirmIssues(issues)) return;
+    const { animation } = design;
+    setPendingExport(null);
+    setVideoProgress({ done: 0, total: 1 });
+    try {
+      const blob = await encodeVideo(
+        animation.format,
+        { width: activeSize.w, height: activeSize.h, duration: animation.duration, fps: animation.fps },
+        async (time) => (await renderDesign(preview.design, brandKit.kit, { pageLabel: preview.pageLabel, time })).canvas,
+        (done, total) => setVideoProgress({ done, total })
+      );
+      const ext = VIDEO_FORMATS[animation.format].ext;
+      setPendingExport({
+        blob,
+        name: `TSTW_${safeFileName(design.image?.name)}${localeTag}_${activeSize.w}x${activeSize.h}.${ext}`,
+        quality: null,
+        overCap: false,
+      });
+    } catch (err) {
+      setFileError(errorMessage(err, [VideoEncodeError], "Video export failed"));
+    } finally {
+      setVideoProgress(null);
+    }
+  }
+
+  function saveDesign() {
+    const blob = new Blob([serializeDesign(design)], { type: "application/json" });
+    downloadBlob(blob, `TSTW_${safeFileName(design.image?.name)}${DESIGN_FILE_EXTENSION}`);
+  }
+
+  // A .tstw.json file, or a PNG exported with its design
+  async function openDesign(file: File) {
+    try {
+      const isPng = file.type === "image/png";
+      const read = isPng
+        ? readDesignFileFromPng(new Uint8Array(await file.arrayBuffer()))
+        : readDesignFile(await file.text());
+      if (!read) throw new DesignFileError("This PNG has no design in it. Only PNG exports carry one.");
+      const opened = read.design;
+      // Files from before v4 don't record the image size
+      if (opened.image && !opened.image.width) {
+        const img = await loadImage(opened.image.src).catch(() => {
+          throw new DesignFileError("The photo saved in this file can't be opened.");
+        });
+        opened.image = { ...opened.image, width: img.naturalWidth, height: img.naturalHeight };
+      }
+      await fontLibrary.importFonts(read.fonts);
+      setDesign(opened, { merge: false });
+      setActiveSlide(0);
+      setSelectedLayerId(null);
+      setEditingPostId(null);
+      const missing = missingFonts(designFontIds(opened)).length;
+      setFileError(
+        // Left out of exports that had to fit a size cap, and of all but the
+        // first image of an export that has several
+        isPng && !opened.image
+          ? `${file.name}: the photo wasn't saved in this PNG; open the export's first image, or add it again.`
+          : missing
+          ? `${file.name}: ${missing} custom font(s) it uses aren't in this browser; their text is drawn in the system font.`
+          : null
+      );
+    } catch (err) {
+      setFileError(`${file.name}: ${errorMessage(err, [DesignFileError], "couldn't be opened")}`);
+    }
+  }
+
+  // Undoable like any other edit
   function clearAll() {
-    setImageSrc(null);
-    setImageMeta(null);
-    setPresetId(presets[0].id);
-    setSizeId(sizeOptions[0].id);
-    setTopAlign("center");
-    setBottomAlign("center");
-    setShadow(true);
-    setPanel("soft");
-    setBgFit("cover");
-    setDim(0.25);
-    setExportScale(2);
+    setDesign(createDesign(), { merge: false });
+    setActiveSlide(0);
+    setSelectedLayerId(null);
+    setFocalMode(false);
+    setEditingPostId(null);
+  }
+
+  // Edits stay in the builder until "Save to post"
+  function openPost(post: QueuedPost) {
+    setDesign(post.design, { merge: false });
+    setActiveSlide(0);
+    setSelectedLayerId(null);
+    setFocalMode(false);
+    setEditingPostId(post.id);
   }
 
   return (
-    <div className="min-h-screen bg-zinc-950 text-zinc-100">
-      <header className="sticky top-0 z-20 border-b border-white/10 bg-zinc-950/70 backdrop-blur">
-        <div className="mx-auto flex max-w-7xl items-center justify-between px-4 py-3">
-          <div className="flex items-center gap-3">
-            <div className="grid h-9 w-9 place-items-center rounded-2xl bg-white/10">
-              <LayoutGrid className="h-5 w-5" />
-            </div>
-            <div>
-              <div className="text-sm font-semibold">TSTW Social Post Builder</div>
-              <div className="text-xs text-zinc-400">Upload → Add text → Export HD PNG</div>
+    <BrandContext.Provider value={brandKit.kit}>
+      <div className="min-h-screen bg-zinc-950 text-zinc-100">
+        <header className="sticky top-0 z-20 border-b border-white/10 bg-zinc-950/70 backdrop-blur">
+          <div className="mx-auto flex max-w-7xl items-center justify-between px-4 py-3">
+            <div className="flex items-center gap-3">
+              <div className="grid h-9 w-9 place-items-center rounded-2xl bg-white/10">
+                <LayoutGrid className="h-5 w-5" />
+              </div>
+              <div>
+                <div className="text-sm font-semibold">TSTW Social Post Builder</div>
+                <div className="text-xs text-zinc-400">Upload → Add text → Export HD PNG</div>
+              </div>
             </div>
-          </div>
 
-          <div className="flex items-center gap-2">
-            <button
-              onClick={clearAll}
-              className="inline-flex items-center gap-2 rounded-2xl border border-white/10 bg-white/5 px-3 py-2 text-sm hover:bg-white/10"
-              title="Reset"
-            >
-              <Trash2 className="h-4 w-4" />
-              Reset
-            </button>
-            <button
-              onClick={exportPng}
-              disabled={!imageSrc || exporting}
-              className="inline-flex items-center gap-2 rounded-2xl bg-white px-4 py-2 text-sm font-semibold text-zinc-900 disabled:opacity-50"
-            >
-              <Download className="h-4 w-4" />
-              {exporting ? "Exporting…" : "Export PNG"}
-            </button>
-          </div>
-        </div>
-      </header>
-
-      <main className="mx-auto grid max-w-7xl grid-cols-1 gap-5 px-4 py-5 lg:grid-cols-[420px_1fr]">
-        {/* Controls */}
-        <section className="rounded-3xl border border-white/10 bg-white/5 p-4">
-          <div className="mb-4 flex items-center gap-2">
-            <ImageIcon className="h-5 w-5" />
-            <h2 className="text-base font-semibold">Inputs</h2>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={history.undo}
+                disabled={!history.canUndo}
+                className="grid h-9 w-9 place-items-center rounded-2xl border border-white/10 bg-white/5 hover:bg-white/10 disabled:opacity-40"
+                title="Undo (Ctrl+Z)"
+              >
+                <Undo2 className="h-4 w-4" />
+              </button>
+              <button
+                onClick={history.redo}
+                disabled={!history.canRedo}
+                className="grid h-9 w-9 place-items-center rounded-2xl border border-white/10 bg-white/5 hover:bg-white/10 disabled:opacity-40"
+                title="Redo (Ctrl+Shift+Z)"
+              >
+                <Redo2 className="h-4 w-4" />
+              </button>
+              <label
+                className="inline-flex cursor-pointer items-center gap-2 rounded-2xl border border-white/10 bg-white/5 px-3 py-2 text-sm hover:bg-white/10"
+                title="Open a saved design or a PNG exported from here"
+              >
+                <FolderOpen className="h-4 w-4" />
+                Open
+                <input
+                  type="file"
+                  accept={`${DESIGN_FILE_EXTENSION},.json,application/json,.png,image/png`}
+                  className="hidden"
+                  onChange={(e) => {
+                    const f = e.target.files?.[0];
+                    if (f) openDesign(f);
+                    e.target.value = "";
+                  }}
+                />
+              </label>
+              <button
+                onClick={saveDesign}
+                className="inline-flex items-center gap-2 rounded-2xl border border-white/10 bg-white/5 px-3 py-2 text-sm hover:bg-white/10"
+                title="Save design as a project file"
+              >
+                <Save className="h-4 w-4" />
+                Save
+              </button>
+              <button
+                onClick={clearAll}
+                className="inline-flex items-center gap-2 rounded-2xl border border-white/10 bg-white/5 px-3 py-2 text-sm hover:bg-white/10"
+                title="Start over (can be undone)"
+              >
+                <Trash2 className="h-4 w-4" />
+                Reset
+              </button>
+              <button
+                onClick={copyImage}
+                disabled={!design.image}
+                className="inline-flex items-center gap-2 rounded-2xl border border-white/10 bg-white/5 px-3 py-2 text-sm hover:bg-white/10 disabled:opacity-40"
+                title="Copy the slide in the preview as a PNG, to paste into a chat or scheduler"
+              >
+                {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+                {copied ? "Copied" : "Copy"}
+              </button>
+              <button
+                onClick={exportImage}
+                disabled={!design.image || exporting}
+                className="inline-flex items-center gap-2 rounded-2xl bg-white px-4 py-2 text-sm font-semibold text-zinc-900 disabled:opacity-50"
+              >
+                <Download className="h-4 w-4" />
+                {exporting ? "Exporting…" : slides > 1 ? `Export ${slides} ${formatLabel}s` : `Export ${formatLabel}`}
+              </button>
+            </div>
           </div>
+        </header>
+
+        <main className="mx-auto grid max-w-7xl grid-cols-1 gap-5 px-4 py-5 lg:grid-cols-[420px_1fr]">
+          {/* Controls */}
+          <section className="rounded-3xl border border-white/10 bg-white/5 p-4">
+            <div className="mb-4 flex items-center gap-2">
+              <ImageIcon className="h-5 w-5" />
+              <h2 className="text-base font-semibold">Inputs</h2>
+            </div>
 
-          <div className="space-y-4">
-            <div>
-              <label className="text-xs text-zinc-300">Upload image</label>
-              <div className="mt-2 flex items-center gap-3">
-                <label className="cursor-pointer rounded-2xl border border-white/10 bg-white/5 px-3 py-2 text-sm hover:bg-white/10">
-                  Choose file
-                  <input
-                    type="file"
-                    accept="image/*"
-                    className="hidden"
-                    onChange={(e) => {
-                      const f = e.target.files?.[0];
-                      if (f) onPickFile(f);
-                    }}
-                  />
-                </label>
-                <div className="min-w-0">
-                  <div className="truncate text-sm text-zinc-200">{imageMeta?.name || "No file selected"}</div>
-                  <div className="text-xs text-zinc-400">{imageMeta ? readableFileSize(imageMeta.size) : ""}</div>
+            <div className="space-y-4">
+              {fileError ? (
+                <div className="rounded-2xl border border-red-400/30 bg-red-500/10 px-3 py-2 text-xs text-red-200">
+                  {fileError}
+                </div>
+              ) : null}
+
+              <div>
+                <label className="text-xs text-zinc-300">Upload image</label>
+                <div className="mt-2 flex items-center gap-3">
+                  <label className="cursor-pointer rounded-2xl border border-white/10 bg-white/5 px-3 py-2 text-sm hover:bg-white/10">
+                    Choose file
+                    <input
+                      type="file"
+                      accept={IMAGE_ACCEPT}
+                      className="hidden"
+                      onChange={(e) => {
+                        const f = e.target.files?.[0];
+                        if (f) onPickFile(f);
+                        e.target.value = "";
+                      }}
+                    />
+                  </label>
+                  <div className="min-w-0">
+                    <div className="truncate text-sm text-zinc-200">{design.image?.name || "No file selected"}</div>
+                    <div className="text-xs text-zinc-400">
+                      {design.image ? readableFileSize(design.image.size) : "or drop / paste one onto the preview"}
+                    </div>
+                  </div>
                 </div>
               </div>
-            </div>
 
-            <div>
-              <label className="text-xs text-zinc-300">Canvas size</label>
-              <select
-                className="mt-2 w-full rounded-2xl border border-white/10 bg-zinc-950 px-3 py-2 text-sm"
-                value={sizeId}
-                onChange={(e) => setSizeId(e.target.value)}
-              >
-                {sizeOptions.map((s) => (
-                  <option key={s.id} value={s.id}>
-                    {s.label}
-                  </option>
-                ))}
-              </select>
-            </div>
+              <CanvasSizePanel
+                sizeId={design.sizeId}
+                onChange={(sizeId) => update("sizeId", sizeId)}
+                library={profileLibrary}
+                overlay={showOverlay}
+                onOverlayChange={setShowOverlay}
+              />
 
-            <div>
-              <label className="text-xs text-zinc-300">Text preset</label>
-              <select
-                className="mt-2 w-full rounded-2xl border border-white/10 bg-zinc-950 px-3 py-2 text-sm"
-                value={presetId}
-                onChange={(e) => setPresetId(e.target.value)}
-              >
-                {presets.map((p) => (
-                  <option key={p.id} value={p.id}>
-                    {p.name}
-                  </option>
-                ))}
-              </select>
-            </div>
+              {design.image ? (
+                <CropPanel
+                  crop={design.crop}
+                  onChange={updateCrop}
+                  focalMode={focalMode}
+                  onFocalModeChange={setFocalMode}
+                />
+              ) : null}
+
+              <PresetPanel design={design} library={presetLibrary} onSelect={selectPreset} />
 
-            <div className="rounded-2xl border border-white/10 bg-white/5 p-3">
-              <div className="mb-2 flex items-center gap-2 text-sm font-semibold">
-                <Type className="h-4 w-4" /> Top text
+              <LayersPanel
+                design={design}
+                selectedId={selectedLayerId}
+                onSelect={setSelectedLayerId}
+                onChange={setLayers}
+                fonts={fontLibrary.fonts}
+                issues={issues}
+              />
+
+              <SuggestPanel
+                design={design}
+                brand={brandKit.kit}
+                selectedLayerId={selectedLayerId}
+                onApply={(id, text) =>
+                  setDesign((d) => ({ ...d, layers: d.layers.map((l) => (l.id === id ? { ...l, text } : l)) }), {
+                    merge: false,
+                  })
+                }
+                library={suggestSettings}
+              />
+
+              <div className="rounded-2xl border border-white/10 bg-white/5 p-3">
+                <div className="mb-2 text-sm font-semibold">Style</div>
+                <div className="grid grid-cols-2 gap-2">
+                  <label className="flex items-center gap-2 rounded-2xl border border-white/10 bg-zinc-950 px-3 py-2 text-sm">
+                    <input type="checkbox" checked={design.shadow} onChange={(e) => update("shadow", e.target.checked)} />
+                    Text shadow
+                  </label>
+                  <label className="flex items-center gap-2 rounded-2xl border border-white/10 bg-zinc-950 px-3 py-2 text-sm">
+                    <span className="text-zinc-300">Image fit</span>
+                    <select
+                      className="ml-auto rounded-xl border border-white/10 bg-zinc-950 px-2 py-1 text-sm"
+                      value={design.bgFit}
+                      onChange={(e) => update("bgFit", e.target.value as any)}
+                    >
+                      <option value="cover">Cover</option>
+                      <option value="contain">Contain</option>
+                    </select>
+                  </label>
+
+                  <div className="rounded-2xl border border-white/10 bg-zinc-950 px-3 py-2">
+                    <div className="flex items-center justify-between">
+                      <span className="text-sm text-zinc-300">Dim overlay</span>
+                      <span className="text-xs text-zinc-400">{Math.round(design.dim * 100)}%</span>
+                    </div>
+                    <input
+                      type="range"
+                      min={0}
+                      max={0.6}
+                      step={0.01}
+                      value={design.dim}
+                      onChange={(e) => update("dim", clamp(Number(e.target.value), 0, 0.6))}
+                      className="mt-2 w-full"
+                    />
+                  </div>
+                </div>
               </div>
-              <textarea
-                value={topText}
-                onChange={(e) => setTopText(e.target.value)}
-                rows={3}
-                className="w-full resize-none rounded-2xl border border-white/10 bg-zinc-950 px-3 py-2 text-sm"
+
+              <AdjustPanel
+                adjust={design.adjust}
+                gradients={design.gradients}
+                layouts={layoutDesign(preview.design, brandKit.kit)}
+                stage={activeSize}
+                onAdjust={(patch) => setDesign((d) => ({ ...d, adjust: { ...d.adjust, ...patch } }))}
+                onGradients={(gradients) => update("gradients", gradients)}
               />
-              <div className="mt-2 grid grid-cols-3 gap-2">
-                <button
-                  className={`rounded-2xl border border-white/10 px-3 py-2 text-xs ${
-                    topAlign === "left" ? "bg-white text-zinc-900" : "bg-white/5 hover:bg-white/10"
-                  }`}
-                  onClick={() => setTopAlign("left")}
-                >
-                  Left
-                </button>
-                <button
-                  className={`rounded-2xl border border-white/10 px-3 py-2 text-xs ${
-                    topAlign === "center" ? "bg-white text-zinc-900" : "bg-white/5 hover:bg-white/10"
-                  }`}
-                  onClick={() => setTopAlign("center")}
-                >
-                  Center
-                </button>
-                <button
-                  className={`rounded-2xl border border-white/10 px-3 py-2 text-xs ${
-                    topAlign === "right" ? "bg-white text-zinc-900" : "bg-white/5 hover:bg-white/10"
-                  }`}
-                  onClick={() => setTopAlign("right")}
-                >
-                  Right
-                </button>
+
+              <ReadabilityPanel
+                readability={readability}
+                onApply={(fix) => setDesign((d) => applyReadabilityFix(d, fix), { merge: false })}
+              />
+
+              <ExportPanel design={design} onChange={(patch) => setDesign((d) => ({ ...d, ...patch }))} />
+
+              <MultiFormatPanel
+                design={design}
+                preview={preview}
+                onChange={(formats) => update("formats", formats)}
+                onExport={exportFormats}
+                exporting={exporting}
+              />
+
+              <AnimationPanel
+                animation={design.animation}
+                layers={design.layers}
+                onChange={(patch) => setDesign((d) => ({ ...d, animation: { ...d.animation, ...patch } }))}
+                onLayerChange={updateLayer}
+                time={previewTime}
+                onTimeChange={setPreviewTime}
+                onExport={exportVideo}
+                progress={videoProgress}
+              />
+
+              <CarouselPanel
+                design={design}
+                onChange={(carousel) => update("carousel", carousel)}
+                activeSlide={activeSlide}
+                onSelectSlide={setActiveSlide}
+              />
+
+              <LocalesPanel
+                design={design}
+                locale={activeLocale}
+                onLocaleChange={setLocale}
+                activeSlide={activeSlide}
+                onChange={(patch) => setDesign((d) => ({ ...d, ...patch }))}
+                onExport={exportLocales}
+                exporting={exporting}
+              />
+
+              <BatchPanel design={design} presets={presetLibrary.presets} />
+
+              <QueuePanel
+                design={design}
+                library={postQueue}
+                editingId={editingPostId}
+                onEditingChange={setEditingPostId}
+                onOpen={openPost}
+                onExport={exportQueue}
+                exporting={exporting}
+              />
+
+              <BrandPanel brand={brandKit} fontLibrary={fontLibrary} />
+
+              <FontsPanel library={fontLibrary} />
+
+              <div className="text-xs text-zinc-400">
+                Tip: use short top questions, and a simple CTA at the bottom. Keep text inside the safe zone.
               </div>
-              <div className="mt-3">
-                <label className="text-xs text-zinc-300">Font size</label>
-                <input
-                  type="range"
-                  min={36}
-                  max={96}
-                  value={topSize}
-                  onChange={(e) => setTopSize(Number(e.target.value))}
-                  className="mt-2 w-full"
-                />
+            </div>
+          </section>
+
+          {/* Preview */}
+          <section className="rounded-3xl border border-white/10 bg-white/5 p-4">
+            <div className="mb-4 flex items-center justify-between">
+              <div>
+                <div className="text-sm font-semibold">Preview</div>
+                <div className="text-xs text-zinc-400">This is exactly what exports as {formatLabel}</div>
+              </div>
+              <div className="flex items-center gap-2">
+                {design.locales.length > 1 ? (
+                  <div className="flex gap-1">
+                    {design.locales.map((code) => (
+                      <button
+                        key={code}
+                        onClick={() => setLocale(code)}
+                        className={`rounded-xl border border-white/10 px-2 py-1 text-xs uppercase ${
+                          code === activeLocale ? "bg-white text-zinc-900" : "bg-white/5 hover:bg-white/10"
+                        }`}
+                        title={`Preview in ${localeName(code)}`}
+                      >
+                        {code}
+                      </button>
+                    ))}
+                  </div>
+                ) : null}
+                <div className="text-xs text-zinc-400">
+                  {activeSize.w}×{activeSize.h}px
+                </div>
               </div>
             </div>
 
-            <div className="rounded-2xl border border-white/10 bg-white/5 p-3">
-              <div className="mb-2 flex items-center gap-2 text-sm font-semibold">
-                <Type className="h-4 w-4" /> Bottom text
-              </div>
-              <textarea
-                value={bottomText}
-                onChange={(e) => setBottomText(e.target.value)}
-                rows={4}
-                className="w-full resize-none rounded-2xl border border-white/10 bg-zinc-950 px-3 py-2 text-sm"
-              />
-              <div className="mt-2 grid grid-cols-3 gap-2">
-                <button
-                  className={`rounded-2xl border border-white/10 px-3 py-2 text-xs ${
-                    bottomAlign === "left" ? "bg-white text-zinc-900" : "bg-white/5 hover:bg-white/10"
-                  }`}
-                  onClick={() => setBottomAlign("left")}
-                >
-                  Left
-                </button>
+            {pendingExport ? (
+              <div className="mb-4 flex flex-wrap items-center gap-3 rounded-2xl border border-white/10 bg-zinc-950 px-3 py-2 text-xs">
+                <div className="min-w-0 flex-1">
+                  <div className="truncate font-semibold text-white">{pendingExport.name}</div>
+                  <div className="text-zinc-400">
+                    {readableFileSize(pendingExport.blob.size)}
+                    {pendingExport.quality !== null ? ` · quality ${Math.round(pendingExport.quality * 100)}%` : ""}
+                  </div>
+                  {pendingExport.overCap ? (
+                    <div className="text-amber-300">
+                      Still above the {readableFileSize(design.maxFileSize)} limit
+                      {design.exportFormat === "png" ? " — try JPEG or WebP." : " at the lowest quality."}
+                    </div>
+                  ) : null}
+                </div>
                 <button
-                  className={`rounded-2xl border border-white/10 px-3 py-2 text-xs ${
-                    bottomAlign === "center" ? "bg-white text-zinc-900" : "bg-white/5 hover:bg-white/10"
-                  }`}
-                  onClick={() => setBottomAlign("center")}
+                  onClick={() => setPendingExport(null)}
+                  className="rounded-xl border border-white/10 bg-white/5 px-3 py-1.5 hover:bg-white/10"
                 >
-                  Center
+                  Discard
                 </button>
                 <button
-                  className={`rounded-2xl border border-white/10 px-3 py-2 text-xs ${
-                    bottomAlign === "right" ? "bg-white text-zinc-900" : "bg-white/5 hover:bg-white/10"
-                  }`}
-                  onClick={() => setBottomAlign("right")}
+                  onClick={() => {
+                    downloadBlob(pendingExport.blob, pendingExport.name);
+                    for (const id of pendingExport.postIds ?? []) postQueue.update(id, { status: "exported" });
+                    setPendingExport(null);
+                  }}
+                  className="inline-flex items-center gap-1 rounded-xl bg-white px-3 py-1.5 font-semibold text-zinc-900"
                 >
-                  Right
+                  <Download className="h-3.5 w-3.5" /> Download
                 </button>
               </div>
-              <div className="mt-3">
-                <label className="text-xs text-zinc-300">Font size</label>
-                <input
-                  type="range"
-                  min={28}
-                  max={84}
-                  value={bottomSize}
-                  onChange={(e) => setBottomSize(Number(e.target.value))}
-                  className="mt-2 w-full"
-                />
-              </div>
-            </div>
-
-            <div className="rounded-2xl border border-white/10 bg-white/5 p-3">
-              <div className="mb-2 text-sm font-semibold">Style</div>
-              <div className="grid grid-cols-2 gap-2">
-                <label className="flex items-center gap-2 rounded-2xl border border-white/10 bg-zinc-950 px-3 py-2 text-sm">
-                  <input type="checkbox" checked={shadow} onChange={(e) => setShadow(e.target.checked)} />
-                  Text shadow
-                </label>
-                <label className="flex items-center gap-2 rounded-2xl border border-white/10 bg-zinc-950 px-3 py-2 text-sm">
-                  <span className="text-zinc-300">Panel</span>
-                  <select
-                    className="ml-auto rounded-xl border border-white/10 bg-zinc-950 px-2 py-1 text-sm"
-                    value={panel}
-                    onChange={(e) => setPanel(e.target.value as any)}
-                  >
-                    <option value="none">None</option>
-                    <option value="soft">Soft</option>
-                    <option value="box">Box</option>
-                  </select>
-                </label>
-
-                <label className="flex items-center gap-2 rounded-2xl border border-white/10 bg-zinc-950 px-3 py-2 text-sm">
-                  <span className="text-zinc-300">Image fit</span>
-                  <select
-                    className="ml-auto rounded-xl border border-white/10 bg-zinc-950 px-2 py-1 text-sm"
-                    value={bgFit}
-                    onChange={(e) => setBgFit(e.target.value as any)}
-                  >
-                    <option value="cover">Cover</option>
-                    <option value="contain">Contain</option>
-                  </select>
-                </label>
-
-                <div className="rounded-2xl border border-white/10 bg-zinc-950 px-3 py-2">
-                  <div className="flex items-center justify-between">
-                    <span className="text-sm text-zinc-300">Dim overlay</span>
-                    <span className="text-xs text-zinc-400">{Math.round(dim * 100)}%</span>
-                  </div>
-                  <input
-                    type="range"
-                    min={0}
-                    max={0.6}
-                    step={0.01}
-                    value={dim}
-                    onChange={(e) => setDim(clamp(Number(e.target.value), 0, 0.6))}
-                    className="mt-2 w-full"
-                  />
-                </div>
-
-                <div className="rounded-2xl border border-white/10 bg-zinc-950 px-3 py-2">
-                  <div className="flex items-center justify-between">
-                    <span className="text-sm text-zinc-300">Export quality</span>
-                    <span className="text-xs text-zinc-400">{exportScale}×</span>
-                  </div>
-                  <input
-                    type="range"
-                    min={1}
-                    max={3}
-                    step={1}
-                    value={exportScale}
-                    onChange={(e) => setExportScale(Number(e.target.value))}
-                    className="mt-2 w-full"
-                  />
-                  <div className="mt-1 text-xs text-zinc-400">2× is best for crisp text.</div>
-                </div>
-              </div>
-            </div>
+            ) : null}
 
-            <div className="text-xs text-zinc-400">
-              Tip: use short top questions, and a simple CTA at the bottom. Keep text inside the safe margins.
-            </div>
-          </div>
-        </section>
-
-        {/* Preview */}
-        <section className="rounded-3xl border border-white/10 bg-white/5 p-4">
-          <div className="mb-4 flex items-center justify-between">
-            <div>
-              <div className="text-sm font-semibold">Preview</div>
-              <div className="text-xs text-zinc-400">This is exactly what exports as PNG</div>
-            </div>
-            <div className="text-xs text-zinc-400">
-              {activeSize.w}×{activeSize.h}px
-            </div>
-          </div>
-
-          <div className="flex justify-center">
-            <div
-              className="relative overflow-hidden rounded-3xl border border-white/10 bg-black shadow-2xl"
-              style={{
-                width: 360,
-                aspectRatio: `${activeSize.w} / ${activeSize.h}`,
-              }}
-            >
+            <div className="flex justify-center">
               <div
-                ref={stageRef}
-                className="relative h-full w-full"
+                className="relative overflow-hidden rounded-3xl border border-white/10 bg-black shadow-2xl"
                 style={{
-                  width: activeSize.w,
-                  height: activeSize.h,
-                  transform: `scale(${360 / activeSize.w})`,
-                  transformOrigin: "top left",
+                  width: 360,
+                  aspectRatio: `${activeSize.w} / ${activeSize.h}`,
+                }}
+                onDragOver={(e) => {
+                  if (!e.dataTransfer.types.includes("Files")) return;
+                  e.preventDefault();
+                  setDropping(true);
+                }}
+                onDragLeave={(e) => {
+                  if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setDropping(false);
+                }}
+                onDrop={(e) => {
+                  e.preventDefault();
+                  setDropping(false);
+                  const file = e.dataTransfer.files[0];
+                  if (file) onPickFile(file);
                 }}
               >
-                {/* Background */}
-                <div className="absolute inset-0">
-                  {imageSrc ? (
-                    <div
-                      className="absolute inset-0"
-                      style={{
-                        backgroundImage: `url(${imageSrc})`,
-                        backgroundSize: bgFit,
-                        backgroundPosition: "center",
-                        backgroundRepeat: "no-repeat",
-                      }}
-                    />
-                  ) : (
-                    <div className="absolute inset-0 grid place-items-center bg-gradient-to-b from-zinc-900 to-black">
-                      <div className="text-center">
-                        <div className="mx-auto mb-3 grid h-12 w-12 place-items-center rounded-2xl bg-white/10">
-                          <ImageIcon className="h-6 w-6" />
-                        </div>
-                        <div className="text-sm font-semibold">Upload an image to start</div>
-                        <div className="mt-1 text-xs text-zinc-400">JPG/PNG/WebP</div>
-                      </div>
-                    </div>
-                  )}
-
-                  {/* Dim overlay for readability */}
-                  <div
-                    className="absolute inset-0"
-                    style={{ background: `rgba(0,0,0,${dim})` }}
-                  />
-
-                  {/* Subtle vignette */}
-                  <div className="absolute inset-0" style={{ boxShadow: "inset 0 0 220px rgba(0,0,0,0.65)" }} />
-                </div>
-
-                {/* Safe margins */}
-                <div className="pointer-events-none absolute inset-0">
-                  <div className="absolute left-[70px] right-[70px] top-[90px] bottom-[110px] rounded-3xl border border-white/10" />
-                </div>
-
-                {/* Top text */}
-                {topText.trim() ? (
-                  <TextBlock
-                    position="top"
-                    align={topAlign}
-                    fontSize={topSize}
-                    shadow={shadow}
-                    panel={panel}
-                    text={topText}
-                  />
-                ) : null}
-
-                {/* Bottom text */}
-                {bottomText.trim() ? (
-                  <TextBlock
-                    position="bottom"
-                    align={bottomAlign}
-                    fontSize={bottomSize}
-                    shadow={shadow}
-                    panel={panel}
-                    text={bottomText}
-                  />
+                <Stage
+                  design={preview.design}
+                  pageLabel={preview.pageLabel}
+                  time={previewTime ?? undefined}
+                  overlay={showOverlay}
+                  editor={{
+                    scale: 360 / activeSize.w,
+                    selectedId: selectedLayerId,
+                    onSelect: setSelectedLayerId,
+                    onChange: updateLayer,
+                    focalMode,
+                    onCropChange: (patch) => {
+                      updateCrop(patch);
+                      setFocalMode(false);
+                    },
+                    onIssues: onPreviewIssues,
+                  }}
+                  style={{ transform: `scale(${360 / activeSize.w})`, transformOrigin: "top left" }}
+                />
+                {dropping ? (
+                  <div className="pointer-events-none absolute inset-0 grid place-items-center rounded-3xl border-2 border-dashed border-sky-400 bg-black/60 text-sm font-semibold">
+                    Drop to use this image
+                  </div>
                 ) : null}
+              </div>
+            </div>
 
-                {/* Brand mark (optional small) */}
-                <div className="absolute bottom-[42px] right-[56px] text-[28px] font-semibold tracking-wider text-white/70">
-                  T.S.T.W
-                </div>
+            {issues.length ? (
+              <div className="mx-auto mt-3 max-w-[360px] space-y-1 rounded-2xl border border-amber-400/30 bg-amber-500/10 px-3 py-2 text-xs text-amber-200">
+                {issues.map((issue) => (
+                  <div key={issue.message} className="flex items-start gap-2">
+                    <AlertTriangle className="mt-0.5 h-3.5 w-3.5 shrink-0" /> {issue.message}
+                  </div>
+                ))}
               </div>
+            ) : null}
+
+            <div className="mt-4 rounded-2xl border border-white/10 bg-zinc-950 p-3 text-xs text-zinc-300">
+              <div className="font-semibold text-white">How to use</div>
+              <ol className="mt-2 list-decimal space-y-1 pl-4">
+                <li>Upload, drop or paste your image.</li>
+                <li>Edit the top question and bottom CTA.</li>
+                <li>Choose the platform and size.</li>
+                <li>Click <span className="font-semibold">Export</span> (2× recommended).</li>
+              </ol>
             </div>
-          </div>
+          </section>
+        </main>
 
-          <div className="mt-4 rounded-2xl border border-white/10 bg-zinc-950 p-3 text-xs text-zinc-300">
-            <div className="font-semibold text-white">How to use</div>
-            <ol className="mt-2 list-decimal space-y-1 pl-4">
-              <li>Upload your image.</li>
-              <li>Edit the top question and bottom CTA.</li>
-              <li>Choose Story/Reels/Square size.</li>
-              <li>Click <span className="font-semibold">Export PNG</span> (2× recommended).</li>
-            </ol>
+        <footer className="border-t border-white/10 py-6">
+          <div className="mx-auto max-w-7xl px-4 text-xs text-zinc-400">
+            Built for TSTW workflow: one image → consistent top question + bottom CTA → export HD.
           </div>
-        </section>
-      </main>
-
-      <footer className="border-t border-white/10 py-6">
-        <div className="mx-auto max-w-7xl px-4 text-xs text-zinc-400">
-          Built for TSTW workflow: one image → consistent top question + bottom CTA → export HD.
-        </div>
-      </footer>
-    </div>
-  );
-}
-
-function TextBlock({
-  position,
-  align,
-  fontSize,
-  shadow,
-  panel,
-  text,
-}: {
-  position: "top" | "bottom";
-  align: "left" | "center" | "right";
-  fontSize: number;
-  shadow: boolean;
-  panel: "none" | "soft" | "box";
-  text: string;
-}) {
-  const baseTop = position === "top" ? 86 : undefined;
-  const baseBottom = position === "bottom" ? 86 : undefined;
-
-  const panelStyle =
-    panel === "none"
-      ? {}
-      : panel === "soft"
-      ? {
-          background: "rgba(0,0,0,0.35)",
-          backdropFilter: "blur(6px)",
-        }
-      : {
-          background: "rgba(0,0,0,0.6)",
-          border: "2px solid rgba(255,255,255,0.18)",
-        };
-
-  const textShadow = shadow
-    ? "0 3px 14px rgba(0,0,0,0.55), 0 2px 2px rgba(0,0,0,0.45)"
-    : "none";
-
-  return (
-    <div
-      className="absolute left-[70px] right-[70px]"
-      style={{
-        top: baseTop,
-        bottom: baseBottom,
-      }}
-    >
-      <div
-        className="rounded-3xl px-10 py-8"
-        style={{
-          ...panelStyle,
-        }}
-      >
-        <div
-          style={{
-            fontSize,
-            lineHeight: 1.05,
-            letterSpacing: "-0.02em",
-            textAlign: align,
-            color: "rgba(255,255,255,0.96)",
-            textShadow,
-            fontWeight: 700,
-            whiteSpace: "pre-wrap",
-          }}
-        >
-          {text}
-        </div>
+        </footer>
       </div>
-    </div>
+    </BrandContext.Provider>
   );
 }
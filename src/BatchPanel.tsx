@@ -0,0 +1,202 @@
+import React, { useState } from "react";
+import { FileSpreadsheet, Package } from "lucide-react";
+import { Design, DesignImage, defaultCrop, getSize } from "./design";
+import { EXPORT_FORMATS } from "./imageExport";
+import { encodeDesign } from "./designPng";
+import { Preset } from "./presets";
+import { SheetError, SheetRow, parseSheet, rowDesign } from "./sheet";
+import { useBrand } from "./brand";
+import { renderDesign } from "./stageCanvas";
+import { prepareImage } from "./upload";
+import { ZipEntry, createZip, uniqueName } from "./zip";
+import { downloadBlob, safeFileName } from "./utils";
+
+// Batch mode
+// - One sheet row per post; style and layers come from the current design,
+//   the top/bottom columns fill the "top" and "bottom" layers
+// - Each row renders through render.ts, like the preview and every export
+// - Photos go through the same checks and downscaling as uploads
+// - Rows with a missing image, overflowing text, or an image that can't be
+//   read or encoded are reported and skipped
+
+type RowResult = { status: "ok" | "error"; message: string };
+
+type ResolvedRow = { design: Design; file: File; name: string } | { error: string };
+
+function findImage(name: string, files: File[]) {
+  const base = name.split(/[\\/]/).pop()!.toLowerCase();
+  return files.find((f) => f.name === name) ?? files.find((f) => f.name.toLowerCase() === base);
+}
+
+function resolveRow(base: Design, row: SheetRow, files: File[], presets: Preset[]): ResolvedRow {
+  if (!row.image) return { error: "No image filename" };
+  const file = findImage(row.image, files);
+  if (!file) return { error: `Missing image "${row.image}"` };
+
+  const resolved = rowDesign(base, row, presets);
+  if ("error" in resolved) return resolved;
+  return { file, name: row.name || file.name, design: resolved.design };
+}
+
+export function BatchPanel({ design, presets }: { design: Design; presets: Preset[] }) {
+  const [sheetName, setSheetName] = useState<string | null>(null);
+  const [rows, setRows] = useState<SheetRow[]>([]);
+  const [sheetError, setSheetError] = useState<string | null>(null);
+  const [images, setImages] = useState<File[]>([]);
+  const [results, setResults] = useState<Record<number, RowResult>>({});
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+
+  const brand = useBrand();
+
+  async function onPickSheet(file: File) {
+    setSheetName(file.name);
+    setResults({});
+    try {
+      setRows(parseSheet(file.name, await file.text()));
+      setSheetError(null);
+    } catch (err) {
+      if (!(err instanceof SheetError)) throw err;
+      setRows([]);
+      setSheetError(err.message);
+    }
+  }
+
+  async function runBatch() {
+    const entries: ZipEntry[] = [];
+    const taken = new Set<string>();
+    const next: Record<number, RowResult> = {};
+    const cache = new Map<File, DesignImage>();
+
+    setResults({});
+    setProgress({ done: 0, total: rows.length });
+    try {
+      for (const [idx, row] of rows.entries()) {
+        const resolved = resolveRow(design, row, images, presets);
+        if ("error" in resolved) {
+          next[row.line] = { status: "error", message: resolved.error };
+        } else {
+          // A row that can't be read or encoded fails on its own
+          try {
+            let image = cache.get(resolved.file);
+            if (!image) {
+              image = await prepareImage(resolved.file, resolved.file.name);
+              cache.set(resolved.file, image);
+            }
+            const rowDesign = {
+              ...resolved.design,
+              image: { ...image, name: resolved.name },
+              // Framing of the editor photo doesn't apply to other photos
+              crop: defaultCrop(),
+            };
+            const { canvas, issues } = await renderDesign(rowDesign, brand, {}, rowDesign.exportScale);
+            if (issues.length) {
+              next[row.line] = { status: "error", message: issues.map((i) => i.message).join("; ") };
+            } else {
+              const { data } = await encodeDesign(canvas, rowDesign);
+              const { w, h } = getSize(rowDesign.sizeId);
+              const ext = EXPORT_FORMATS[rowDesign.exportFormat].ext;
+              const name = uniqueName(`TSTW_${safeFileName(rowDesign.image.name)}_${w}x${h}.${ext}`, taken);
+              entries.push({ name, data });
+              next[row.line] = { status: "ok", message: name };
+            }
+          } catch (err) {
+            next[row.line] = { status: "error", message: err instanceof Error ? err.message : String(err) };
+          }
+        }
+        setResults({ ...next });
+        setProgress({ done: idx + 1, total: rows.length });
+      }
+
+      if (entries.length) {
+        const stamp = new Date().toISOString().slice(0, 10);
+        downloadBlob(createZip(entries), `TSTW_batch_${stamp}.zip`);
+      }
+    } finally {
+      setProgress(null);
+    }
+  }
+
+  const running = progress !== null;
+  const failed = Object.values(results).filter((r) => r.status === "error").length;
+
+  return (
+    <div className="rounded-2xl border border-white/10 bg-white/5 p-3">
+      <div className="mb-2 flex items-center gap-2 text-sm font-semibold">
+        <FileSpreadsheet className="h-4 w-4" /> Batch from sheet
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <label className="cursor-pointer truncate rounded-2xl border border-white/10 bg-zinc-950 px-3 py-2 text-sm hover:bg-white/10">
+          {sheetName || "CSV / JSON sheet"}
+          <input
+            type="file"
+            accept=".csv,.tsv,.json,text/csv,application/json"
+            className="hidden"
+            onChange={(e) => {
+              const f = e.target.files?.[0];
+              if (f) onPickSheet(f);
+              e.target.value = "";
+            }}
+          />
+        </label>
+        <label className="cursor-pointer truncate rounded-2xl border border-white/10 bg-zinc-950 px-3 py-2 text-sm hover:bg-white/10">
+          {images.length ? `${images.length} images` : "Images"}
+          <input
+            type="file"
+            accept="image/*"
+            multiple
+            className="hidden"
+            onChange={(e) => {
+              setImages(Array.from(e.target.files ?? []));
+              setResults({});
+              e.target.value = "";
+            }}
+          />
+        </label>
+      </div>
+
+      {sheetError ? <div className="mt-2 text-xs text-red-300">{sheetError}</div> : null}
+
+      {rows.length ? (
+        <div className="mt-3 max-h-56 space-y-1 overflow-auto">
+          {rows.map((row) => {
+            const result = results[row.line];
+            return (
+              <div
+                key={row.line}
+                className="flex items-center gap-2 rounded-xl border border-white/10 bg-zinc-950 px-2 py-1 text-xs"
+              >
+                <span className="w-6 shrink-0 text-zinc-500">{row.line}</span>
+                <span className="min-w-0 flex-1 truncate text-zinc-200">{row.image || "—"}</span>
+                <span
+                  className={`min-w-0 max-w-[55%] truncate ${
+                    !result ? "text-zinc-500" : result.status === "ok" ? "text-emerald-300" : "text-red-300"
+                  }`}
+                  title={result?.message}
+                >
+                  {result ? result.message : row.size || "—"}
+                </span>
+              </div>
+            );
+          })}
+        </div>
+      ) : null}
+
+      <button
+        onClick={runBatch}
+        disabled={!rows.length || !images.length || running}
+        className="mt-3 inline-flex w-full items-center justify-center gap-2 rounded-2xl bg-white px-4 py-2 text-sm font-semibold text-zinc-900 disabled:opacity-50"
+      >
+        <Package className="h-4 w-4" />
+        {running ? `Rendering ${progress.done}/${progress.total}…` : `Render ${rows.length || ""} posts as ZIP`}
+      </button>
+      {!running && failed ? (
+        <div className="mt-2 text-xs text-zinc-400">{failed} row(s) skipped — see errors above.</div>
+      ) : null}
+      <div className="mt-2 text-xs text-zinc-400">
+        Columns: image, top, bottom, size, preset (optional: name). Use \n for line breaks.
+      </div>
+
+    </div>
+  );
+}
@@ -0,0 +1,232 @@
+import React, { useState } from "react";
+import { Download, Palette, Trash2, Upload } from "lucide-react";
+import {
+  BRAND_FILE_EXTENSION,
+  BrandFileError,
+  BrandKit,
+  FontRole,
+  LogoPosition,
+  PaletteColor,
+  brandFontIds,
+  readBrandFile,
+  serializeBrandKit,
+} from "./brand";
+import { missingFonts } from "./fonts";
+import { FontOptions } from "./FontsPanel";
+import { useBrandKit } from "./useBrandKit";
+import { useFontLibrary } from "./useFontLibrary";
+import { downloadBlob, readFileAsDataUrl, safeFileName } from "./utils";
+
+const POSITIONS: { id: LogoPosition; label: string }[] = [
+  { id: "top-left", label: "Top left" },
+  { id: "top-right", label: "Top right" },
+  { id: "bottom-left", label: "Bottom left" },
+  { id: "bottom-right", label: "Bottom right" },
+];
+
+const COLORS: { id: PaletteColor; label: string }[] = [
+  { id: "text", label: "Text" },
+  { id: "accent", label: "Accent" },
+  { id: "panel", label: "Panels" },
+];
+
+// Team-wide look: applies to every design, including batch and carousel exports
+export function BrandPanel({
+  brand,
+  fontLibrary,
+}: {
+  brand: ReturnType<typeof useBrandKit>;
+  fontLibrary: ReturnType<typeof useFontLibrary>;
+}) {
+  const { kit } = brand;
+  const [message, setMessage] = useState<string | null>(null);
+
+  function setLogo(patch: Partial<BrandKit["logo"]>) {
+    brand.save({ ...kit, logo: { ...kit.logo, ...patch } });
+  }
+
+  async function uploadLogo(file: File) {
+    if (!/^image\/(svg\+xml|png)$/.test(file.type)) {
+      setMessage(`${file.name}: use an SVG or PNG logo.`);
+      return;
+    }
+    setMessage(null);
+    setLogo({ src: await readFileAsDataUrl(file), size: Math.max(kit.logo.size, 64) });
+  }
+
+  async function importFile(file: File) {
+    try {
+      const read = readBrandFile(await file.text());
+      await fontLibrary.importFonts(read.fonts);
+      brand.save(read.brand);
+      const missing = missingFonts(brandFontIds(read.brand)).length;
+      setMessage(
+        missing
+          ? `Loaded brand kit from ${file.name}; ${missing} of its fonts aren't in this browser and are drawn in the system font.`
+          : `Loaded brand kit from ${file.name}.`
+      );
+    } catch (err) {
+      if (!(err instanceof BrandFileError)) throw err;
+      setMessage(`${file.name}: ${err.message}`);
+    }
+  }
+
+  function exportKit() {
+    const blob = new Blob([serializeBrandKit(kit)], { type: "application/json" });
+    downloadBlob(blob, `${safeFileName(kit.name, "brand")}${BRAND_FILE_EXTENSION}`);
+  }
+
+  return (
+    <div className="rounded-2xl border border-white/10 bg-white/5 p-3" data-native-undo>
+      <div className="mb-2 flex items-center gap-2 text-sm font-semibold">
+        <Palette className="h-4 w-4" /> Brand kit
+        <label
+          className="ml-auto inline-flex cursor-pointer items-center gap-1 rounded-xl border border-white/10 bg-white/5 px-2 py-1 text-xs font-normal hover:bg-white/10"
+          title="Load a brand kit file"
+        >
+          <Upload className="h-3.5 w-3.5" /> Import
+          <input
+            type="file"
+            accept={`${BRAND_FILE_EXTENSION},.json,application/json`}
+            className="hidden"
+            onChange={(e) => {
+              const f = e.target.files?.[0];
+              if (f) importFile(f);
+              e.target.value = "";
+            }}
+          />
+        </label>
+        <button
+          onClick={exportKit}
+          className="inline-flex items-center gap-1 rounded-xl border border-white/10 bg-white/5 px-2 py-1 text-xs font-normal hover:bg-white/10"
+          title="Share this brand kit as a file"
+        >
+          <Download className="h-3.5 w-3.5" /> Export
+        </button>
+      </div>
+
+      <div className="space-y-3">
+        <input
+          value={kit.name}
+          onChange={(e) => brand.save({ ...kit, name: e.target.value })}
+          className="w-full rounded-2xl border border-white/10 bg-zinc-950 px-3 py-2 text-sm"
+          aria-label="Brand name"
+        />
+
+        <div>
+          <label className="text-xs text-zinc-300">Logo / watermark</label>
+          <div className="mt-2 flex items-center gap-2">
+            {kit.logo.src ? (
+              <>
+                <img src={kit.logo.src} alt="" className="h-9 max-w-[120px] rounded-lg bg-zinc-800 object-contain p-1" />
+                <button
+                  onClick={() => setLogo({ src: null })}
+                  className="inline-flex items-center gap-1 rounded-xl border border-white/10 bg-white/5 px-2 py-1 text-xs hover:bg-white/10"
+                  title="Use a text mark instead"
+                >
+                  <Trash2 className="h-3.5 w-3.5" /> Remove
+                </button>
+              </>
+            ) : (
+              <input
+                value={kit.logo.text}
+                onChange={(e) => setLogo({ text: e.target.value })}
+                placeholder="Text mark (empty = none)"
+                className="min-w-0 flex-1 rounded-xl border border-white/10 bg-zinc-950 px-2 py-1 text-sm"
+                aria-label="Text mark"
+              />
+            )}
+            <label className="ml-auto cursor-pointer rounded-xl border border-white/10 bg-white/5 px-2 py-1 text-xs hover:bg-white/10">
+              Upload SVG/PNG
+              <input
+                type="file"
+                accept="image/svg+xml,image/png"
+                className="hidden"
+                onChange={(e) => {
+                  const f = e.target.files?.[0];
+                  if (f) uploadLogo(f);
+                  e.target.value = "";
+                }}
+              />
+            </label>
+          </div>
+
+          <div className="mt-2 grid grid-cols-3 gap-2">
+            <select
+              className="rounded-xl border border-white/10 bg-zinc-950 px-2 py-1 text-xs"
+              value={kit.logo.position}
+              onChange={(e) => setLogo({ position: e.target.value as LogoPosition })}
+              aria-label="Logo position"
+            >
+              {POSITIONS.map((p) => (
+                <option key={p.id} value={p.id}>
+                  {p.label}
+                </option>
+              ))}
+            </select>
+            <label className="text-xs text-zinc-400">
+              Size {kit.logo.size}px
+              <input
+                type="range"
+                min={12}
+                max={240}
+                value={kit.logo.size}
+                onChange={(e) => setLogo({ size: Number(e.target.value) })}
+                className="w-full"
+              />
+            </label>
+            <label className="text-xs text-zinc-400">
+              Opacity {Math.round(kit.logo.opacity * 100)}%
+              <input
+                type="range"
+                min={0}
+                max={1}
+                step={0.05}
+                value={kit.logo.opacity}
+                onChange={(e) => setLogo({ opacity: Number(e.target.value) })}
+                className="w-full"
+              />
+            </label>
+          </div>
+        </div>
+
+        <div>
+          <label className="text-xs text-zinc-300">Palette</label>
+          <div className="mt-2 grid grid-cols-3 gap-2">
+            {COLORS.map((c) => (
+              <label
+                key={c.id}
+                className="flex items-center gap-2 rounded-xl border border-white/10 bg-zinc-950 px-2 py-1 text-xs"
+              >
+                <input
+                  type="color"
+                  value={kit.palette[c.id]}
+                  onChange={(e) => brand.save({ ...kit, palette: { ...kit.palette, [c.id]: e.target.value } })}
+                  className="h-6 w-6 cursor-pointer rounded border-0 bg-transparent p-0"
+                />
+                {c.label}
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          {(["heading", "body"] as FontRole[]).map((role) => (
+            <label key={role} className="text-xs capitalize text-zinc-300">
+              {role} font
+              <select
+                className="mt-1 w-full rounded-xl border border-white/10 bg-zinc-950 px-2 py-1 text-sm normal-case"
+                value={kit.fonts[role]}
+                onChange={(e) => brand.save({ ...kit, fonts: { ...kit.fonts, [role]: e.target.value } })}
+              >
+                <FontOptions fonts={fontLibrary.fonts} />
+              </select>
+            </label>
+          ))}
+        </div>
+
+        {message || brand.error ? <div className="text-xs text-zinc-400">{message || brand.error}</div> : null}
+      </div>
+    </div>
+  );
+}
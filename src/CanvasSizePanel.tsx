@@ -0,0 +1,186 @@
+import React, { useState } from "react";
+import { Eye, EyeOff, Plus, Save, Trash2 } from "lucide-react";
+import { getSize } from "./design";
+import { CUSTOM_SIZE_RANGE, PlatformProfile, SafeZone, allProfiles, customSizeId, findProfile } from "./platforms";
+import { useProfileLibrary } from "./useProfileLibrary";
+import { clamp } from "./utils";
+
+const CUSTOM = "custom";
+
+// Canvas size picker: platform profiles, a custom W×H, and the user's own
+// profiles with their safe zones
+export function CanvasSizePanel({
+  sizeId,
+  onChange,
+  library,
+  overlay,
+  onOverlayChange,
+}: {
+  sizeId: string;
+  onChange: (sizeId: string) => void;
+  library: ReturnType<typeof useProfileLibrary>;
+  overlay: boolean;
+  onOverlayChange: (on: boolean) => void;
+}) {
+  const known = findProfile(sizeId);
+  const active = getSize(sizeId);
+  const isCustom = !!known && !allProfiles().some((p) => p.id === sizeId);
+  const [draft, setDraft] = useState<{ name: string; safe: SafeZone } | null>(null);
+
+  // Profiles grouped by platform, in registry order
+  const groups = new Map<string, PlatformProfile[]>();
+  for (const p of allProfiles()) groups.set(p.platform, [...(groups.get(p.platform) ?? []), p]);
+
+  function setCustom(w: number, h: number) {
+    const fit = (n: number) => clamp(n, CUSTOM_SIZE_RANGE.min, CUSTOM_SIZE_RANGE.max);
+    onChange(customSizeId(fit(w), fit(h)));
+  }
+
+  async function saveDraft() {
+    if (!draft) return;
+    const saved = await library.save({ name: draft.name, w: active.w, h: active.h, safe: draft.safe });
+    if (!saved) return;
+    setDraft(null);
+    onChange(saved.id);
+  }
+
+  return (
+    <div>
+      <label className="text-xs text-zinc-300">Canvas size</label>
+      <select
+        className="mt-2 w-full rounded-2xl border border-white/10 bg-zinc-950 px-3 py-2 text-sm"
+        value={isCustom ? CUSTOM : known ? sizeId : ""}
+        onChange={(e) => (e.target.value === CUSTOM ? setCustom(active.w, active.h) : onChange(e.target.value))}
+      >
+        {!known ? <option value="">Profile from another browser</option> : null}
+        {Array.from(groups, ([platform, profiles]) => (
+          <optgroup key={platform} label={platform}>
+            {profiles.map((p) => (
+              <option key={p.id} value={p.id}>
+                {p.user ? p.label : `${p.name} (${p.w}×${p.h})`}
+              </option>
+            ))}
+          </optgroup>
+        ))}
+        <option value={CUSTOM}>Custom size…</option>
+      </select>
+
+      {isCustom ? (
+        <div className="mt-2 grid grid-cols-2 gap-2">
+          {(["w", "h"] as const).map((axis) => (
+            <label
+              key={axis}
+              className="flex items-center gap-2 rounded-2xl border border-white/10 bg-zinc-950 px-3 py-2 text-sm"
+            >
+              <span className="text-zinc-300">{axis === "w" ? "Width" : "Height"}</span>
+              {/* Applied on blur, so typing "1200" doesn't pass through a clamped "1" */}
+              <input
+                key={active[axis]}
+                type="number"
+                min={CUSTOM_SIZE_RANGE.min}
+                max={CUSTOM_SIZE_RANGE.max}
+                defaultValue={active[axis]}
+                onBlur={(e) => {
+                  const value = Number(e.target.value);
+                  if (value) setCustom(axis === "w" ? value : active.w, axis === "h" ? value : active.h);
+                  else e.target.value = String(active[axis]);
+                }}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") e.currentTarget.blur();
+                }}
+                className="ml-auto w-20 rounded-xl border border-white/10 bg-zinc-950 px-2 py-1 text-right text-sm"
+              />
+            </label>
+          ))}
+        </div>
+      ) : null}
+
+      <div className="mt-2 flex flex-wrap items-center gap-1 text-xs text-zinc-400">
+        <span className="mr-auto">
+          Safe zone: {active.safe.top} top · {active.safe.bottom} bottom · {active.safe.left} left · {active.safe.right}{" "}
+          right
+        </span>
+        {active.overlay.length ? (
+          <SizeButton
+            title="Show the platform's buttons and captions on the preview"
+            onClick={() => onOverlayChange(!overlay)}
+          >
+            {overlay ? <EyeOff className="h-3.5 w-3.5" /> : <Eye className="h-3.5 w-3.5" />} Platform UI
+          </SizeButton>
+        ) : null}
+        <SizeButton
+          title="Save this size and safe zone as your own profile"
+          onClick={() => setDraft({ name: `My profile ${library.profiles.length + 1}`, safe: { ...active.safe } })}
+        >
+          <Plus className="h-3.5 w-3.5" /> Profile
+        </SizeButton>
+        {active.user ? (
+          <SizeButton
+            title="Delete this profile"
+            onClick={() => {
+              if (!confirm(`Delete profile "${active.name}"?`)) return;
+              library.remove(active.id);
+              onChange(customSizeId(active.w, active.h));
+            }}
+          >
+            <Trash2 className="h-3.5 w-3.5" /> Delete
+          </SizeButton>
+        ) : null}
+      </div>
+
+      {draft ? (
+        <div className="mt-2 rounded-2xl border border-white/10 bg-zinc-950 p-3" data-native-undo>
+          <input
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            className="w-full rounded-xl border border-white/10 bg-zinc-950 px-2 py-1 text-sm"
+            aria-label="Profile name"
+          />
+          <div className="mt-2 grid grid-cols-4 gap-2">
+            {(["top", "bottom", "left", "right"] as const).map((side) => (
+              <label key={side} className="text-xs text-zinc-400">
+                {side}
+                <input
+                  type="number"
+                  min={0}
+                  value={draft.safe[side]}
+                  onChange={(e) => setDraft({ ...draft, safe: { ...draft.safe, [side]: Number(e.target.value) } })}
+                  className="mt-1 w-full rounded-xl border border-white/10 bg-zinc-950 px-2 py-1 text-sm text-zinc-100"
+                />
+              </label>
+            ))}
+          </div>
+          <div className="mt-2 flex gap-1">
+            <SizeButton title={`Save as a ${active.w}×${active.h} profile`} onClick={saveDraft}>
+              <Save className="h-3.5 w-3.5" /> Save {active.w}×{active.h}
+            </SizeButton>
+            <SizeButton title="Don't save" onClick={() => setDraft(null)}>
+              Cancel
+            </SizeButton>
+          </div>
+        </div>
+      ) : null}
+      {library.error ? <div className="mt-2 text-xs text-amber-300">{library.error}</div> : null}
+    </div>
+  );
+}
+
+function SizeButton({
+  title,
+  onClick,
+  children,
+}: {
+  title: string;
+  onClick: () => void;
+  children: React.ReactNode;
+}) {
+  return (
+    <button
+      title={title}
+      onClick={onClick}
+      className="inline-flex items-center gap-1 rounded-xl border border-white/10 bg-white/5 px-2 py-1 text-xs hover:bg-white/10"
+    >
+      {children}
+    </button>
+  );
+}
@@ -0,0 +1,211 @@
+import React, { useState } from "react";
+import { ChevronLeft, ChevronRight, GalleryHorizontal, Plus, Scissors, X } from "lucide-react";
+import { Carousel, Design, Slide } from "./design";
+import { createSlide, slidesFromLayerText } from "./carousel";
+import { RichTextArea } from "./RichTextArea";
+
+export function CarouselPanel({
+  design,
+  onChange,
+  activeSlide,
+  onSelectSlide,
+}: {
+  design: Design;
+  onChange: (carousel: Carousel) => void;
+  activeSlide: number;
+  onSelectSlide: (index: number) => void;
+}) {
+  const { carousel } = design;
+  const [linesPerSlide, setLinesPerSlide] = useState(1);
+  const [splitLayerId, setSplitLayerId] = useState("bottom");
+  const slide = carousel.slides[activeSlide];
+  const splitLayer = design.layers.find((l) => l.id === splitLayerId) ?? design.layers[design.layers.length - 1];
+
+  function setSlides(slides: Slide[], select = activeSlide) {
+    onChange({ ...carousel, slides });
+    onSelectSlide(Math.max(0, Math.min(select, slides.length - 1)));
+  }
+
+  function toggle(enabled: boolean) {
+    if (enabled && !carousel.slides.length) {
+      const split = splitLayer ? slidesFromLayerText(splitLayer.id, splitLayer.text, 1) : [];
+      const slides = split.length > 1 ? split : [createSlide(), createSlide()];
+      onChange({ ...carousel, enabled, slides });
+      onSelectSlide(0);
+    } else {
+      onChange({ ...carousel, enabled });
+    }
+  }
+
+  function setSlideText(layerId: string, value: string | undefined) {
+    setSlides(
+      carousel.slides.map((s, i) => {
+        if (i !== activeSlide) return s;
+        const text = { ...s.text };
+        if (value === undefined) delete text[layerId];
+        else text[layerId] = value;
+        return { ...s, text };
+      })
+    );
+  }
+
+  function move(delta: number) {
+    const to = activeSlide + delta;
+    if (to < 0 || to >= carousel.slides.length) return;
+    const slides = [...carousel.slides];
+    [slides[activeSlide], slides[to]] = [slides[to], slides[activeSlide]];
+    setSlides(slides, to);
+  }
+
+  return (
+    <div className="rounded-2xl border border-white/10 bg-white/5 p-3">
+      <label className="flex items-center gap-2 text-sm font-semibold">
+        <GalleryHorizontal className="h-4 w-4" /> Carousel
+        <input
+          type="checkbox"
+          className="ml-auto"
+          checked={carousel.enabled}
+          onChange={(e) => toggle(e.target.checked)}
+        />
+      </label>
+
+      {carousel.enabled ? (
+        <div className="mt-3 space-y-3">
+          <div className="flex flex-wrap items-center gap-1">
+            {carousel.slides.map((s, i) => (
+              <button
+                key={s.id}
+                onClick={() => onSelectSlide(i)}
+                className={`h-8 w-8 rounded-xl border border-white/10 text-xs ${
+                  i === activeSlide ? "bg-white text-zinc-900" : "bg-white/5 hover:bg-white/10"
+                }`}
+              >
+                {i + 1}
+              </button>
+            ))}
+            <button
+              onClick={() => setSlides([...carousel.slides, createSlide()], carousel.slides.length)}
+              className="grid h-8 w-8 place-items-center rounded-xl border border-white/10 bg-white/5 hover:bg-white/10"
+              title="Add slide"
+            >
+              <Plus className="h-4 w-4" />
+            </button>
+            <div className="ml-auto flex gap-1">
+              <button
+                onClick={() => move(-1)}
+                disabled={activeSlide === 0}
+                className="grid h-8 w-8 place-items-center rounded-xl border border-white/10 bg-white/5 hover:bg-white/10 disabled:opacity-40"
+                title="Move slide left"
+              >
+                <ChevronLeft className="h-4 w-4" />
+              </button>
+              <button
+                onClick={() => move(1)}
+                disabled={activeSlide >= carousel.slides.length - 1}
+                className="grid h-8 w-8 place-items-center rounded-xl border border-white/10 bg-white/5 hover:bg-white/10 disabled:opacity-40"
+                title="Move slide right"
+              >
+                <ChevronRight className="h-4 w-4" />
+              </button>
+              <button
+                onClick={() => setSlides(carousel.slides.filter((_, i) => i !== activeSlide))}
+                disabled={carousel.slides.length <= 1}
+                className="grid h-8 w-8 place-items-center rounded-xl border border-white/10 bg-white/5 hover:bg-white/10 disabled:opacity-40"
+                title="Delete slide"
+              >
+                <X className="h-4 w-4" />
+              </button>
+            </div>
+          </div>
+
+          {slide
+            ? design.layers.map((layer) => (
+                <SlideTextOverride
+                  key={layer.id}
+                  label={`${layer.name} on slide ${activeSlide + 1}`}
+                  value={slide.text[layer.id]}
+                  inherited={layer.text}
+                  onChange={(value) => setSlideText(layer.id, value)}
+                />
+              ))
+            : null}
+
+          <div className="flex items-center gap-2 rounded-2xl border border-white/10 bg-zinc-950 px-3 py-2 text-sm">
+            <Scissors className="h-4 w-4 shrink-0" />
+            <span className="text-zinc-300">Split</span>
+            <select
+              className="min-w-0 rounded-xl border border-white/10 bg-zinc-950 px-2 py-1 text-sm"
+              value={splitLayer?.id}
+              onChange={(e) => setSplitLayerId(e.target.value)}
+            >
+              {design.layers.map((l) => (
+                <option key={l.id} value={l.id}>
+                  {l.name}
+                </option>
+              ))}
+            </select>
+            <input
+              type="number"
+              min={1}
+              max={10}
+              value={linesPerSlide}
+              onChange={(e) => setLinesPerSlide(Math.max(1, Number(e.target.value) || 1))}
+              className="w-12 rounded-xl border border-white/10 bg-zinc-950 px-2 py-1 text-sm"
+            />
+            <span className="text-zinc-300">lines/slide</span>
+            <button
+              onClick={() => {
+                if (!splitLayer) return;
+                const slides = slidesFromLayerText(splitLayer.id, splitLayer.text, linesPerSlide);
+                if (slides.length) setSlides(slides, 0);
+              }}
+              className="ml-auto rounded-xl border border-white/10 bg-white/5 px-2 py-1 text-xs hover:bg-white/10"
+            >
+              Split
+            </button>
+          </div>
+
+          <label className="flex items-center gap-2 rounded-2xl border border-white/10 bg-zinc-950 px-3 py-2 text-sm">
+            <input
+              type="checkbox"
+              checked={carousel.showIndicator}
+              onChange={(e) => onChange({ ...carousel, showIndicator: e.target.checked })}
+            />
+            Page indicator (1/{carousel.slides.length})
+          </label>
+        </div>
+      ) : null}
+    </div>
+  );
+}
+
+function SlideTextOverride({
+  label,
+  value,
+  inherited,
+  onChange,
+}: {
+  label: string;
+  value: string | undefined;
+  inherited: string;
+  onChange: (value: string | undefined) => void;
+}) {
+  const overridden = value !== undefined;
+  return (
+    <div>
+      <label className="flex items-center gap-2 text-xs text-zinc-300">
+        <input
+          type="checkbox"
+          checked={overridden}
+          onChange={(e) => onChange(e.target.checked ? inherited : undefined)}
+        />
+        {label}
+      </label>
+      {overridden ? (
+        <RichTextArea value={value} onChange={onChange} className="mt-2" />
+      ) : (
+        <div className="mt-1 truncate text-xs text-zinc-500">Uses shared text</div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+import React from "react";
+import { Crosshair, Crop, RotateCcw } from "lucide-react";
+import { ImageCrop, ZOOM_RANGE, defaultCrop } from "./design";
+
+// Background framing. Panning happens by dragging the preview; the focal
+// point is what stays in frame when the canvas size changes.
+export function CropPanel({
+  crop,
+  onChange,
+  focalMode,
+  onFocalModeChange,
+}: {
+  crop: ImageCrop;
+  onChange: (patch: Partial<ImageCrop>) => void;
+  focalMode: boolean;
+  onFocalModeChange: (on: boolean) => void;
+}) {
+  return (
+    <div className="rounded-2xl border border-white/10 bg-white/5 p-3">
+      <div className="mb-2 flex items-center gap-2 text-sm font-semibold">
+        <Crop className="h-4 w-4" /> Framing
+        <button
+          onClick={() => onChange(defaultCrop())}
+          className="ml-auto inline-flex items-center gap-1 rounded-xl border border-white/10 bg-white/5 px-2 py-1 text-xs hover:bg-white/10"
+          title="Reset framing"
+        >
+          <RotateCcw className="h-3.5 w-3.5" /> Reset
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div className="rounded-2xl border border-white/10 bg-zinc-950 px-3 py-2">
+          <div className="flex items-center justify-between">
+            <span className="text-sm text-zinc-300">Zoom</span>
+            <span className="text-xs text-zinc-400">{crop.zoom.toFixed(2)}×</span>
+          </div>
+          <input
+            type="range"
+            min={ZOOM_RANGE.min}
+            max={ZOOM_RANGE.max}
+            step={0.01}
+            value={crop.zoom}
+            onChange={(e) => onChange({ zoom: Number(e.target.value) })}
+            className="mt-2 w-full"
+          />
+        </div>
+
+        <div className="rounded-2xl border border-white/10 bg-zinc-950 px-3 py-2">
+          <div className="flex items-center justify-between">
+            <span className="text-sm text-zinc-300">Rotate</span>
+            <span className="text-xs text-zinc-400">{crop.rotation}°</span>
+          </div>
+          <input
+            type="range"
+            min={-180}
+            max={180}
+            value={crop.rotation}
+            onChange={(e) => onChange({ rotation: Number(e.target.value) })}
+            className="mt-2 w-full"
+          />
+        </div>
+      </div>
+
+      <button
+        onClick={() => onFocalModeChange(!focalMode)}
+        className={`mt-2 inline-flex w-full items-center justify-center gap-2 rounded-2xl border border-white/10 px-3 py-2 text-xs ${
+          focalMode ? "bg-white text-zinc-900" : "bg-white/5 hover:bg-white/10"
+        }`}
+      >
+        <Crosshair className="h-4 w-4" />
+        {focalMode ? "Click the subject on the preview…" : "Set focal point"}
+      </button>
+      <div className="mt-2 text-xs text-zinc-400">
+        Drag the preview to pan. The focal point stays in frame when you switch canvas size.
+      </div>
+    </div>
+  );
+}
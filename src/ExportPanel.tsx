@@ -0,0 +1,105 @@
+import React from "react";
+import { FileImage } from "lucide-react";
+import { Design } from "./design";
+import { EXPORT_FORMATS, ExportFormat, QUALITY_RANGE } from "./imageExport";
+
+// Output settings; they also apply to carousel and batch exports
+export function ExportPanel({
+  design,
+  onChange,
+}: {
+  design: Design;
+  onChange: (patch: Partial<Pick<Design, "exportScale" | "exportFormat" | "exportQuality" | "maxFileSize">>) => void;
+}) {
+  const lossy = design.exportFormat !== "png";
+  const capKb = Math.round(design.maxFileSize / 1024);
+
+  return (
+    <div className="rounded-2xl border border-white/10 bg-white/5 p-3">
+      <div className="mb-2 flex items-center gap-2 text-sm font-semibold">
+        <FileImage className="h-4 w-4" /> Export
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <label className="flex items-center gap-2 rounded-2xl border border-white/10 bg-zinc-950 px-3 py-2 text-sm">
+          <span className="text-zinc-300">Format</span>
+          <select
+            className="ml-auto rounded-xl border border-white/10 bg-zinc-950 px-2 py-1 text-sm"
+            value={design.exportFormat}
+            onChange={(e) => onChange({ exportFormat: e.target.value as ExportFormat })}
+          >
+            {Object.entries(EXPORT_FORMATS).map(([id, f]) => (
+              <option key={id} value={id}>
+                {f.label}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <div className="rounded-2xl border border-white/10 bg-zinc-950 px-3 py-2">
+          <div className="flex items-center justify-between">
+            <span className="text-sm text-zinc-300">Resolution</span>
+            <span className="text-xs text-zinc-400">{design.exportScale}×</span>
+          </div>
+          <input
+            type="range"
+            min={1}
+            max={3}
+            step={1}
+            value={design.exportScale}
+            onChange={(e) => onChange({ exportScale: Number(e.target.value) })}
+            className="mt-2 w-full"
+          />
+        </div>
+
+        <div className={`rounded-2xl border border-white/10 bg-zinc-950 px-3 py-2 ${lossy ? "" : "opacity-40"}`}>
+          <div className="flex items-center justify-between">
+            <span className="text-sm text-zinc-300">Quality</span>
+            <span className="text-xs text-zinc-400">{Math.round(design.exportQuality * 100)}%</span>
+          </div>
+          <input
+            type="range"
+            min={QUALITY_RANGE.min}
+            max={QUALITY_RANGE.max}
+            step={0.01}
+            value={design.exportQuality}
+            disabled={!lossy}
+            onChange={(e) => onChange({ exportQuality: Number(e.target.value) })}
+            className="mt-2 w-full"
+          />
+        </div>
+
+        <div className="rounded-2xl border border-white/10 bg-zinc-950 px-3 py-2">
+          <label className="flex items-center justify-between text-sm">
+            <span className="text-zinc-300">Max size</span>
+            <input
+              type="checkbox"
+              checked={design.maxFileSize > 0}
+              onChange={(e) => onChange({ maxFileSize: e.target.checked ? 1024 * 1024 : 0 })}
+              className="h-4 w-4"
+            />
+          </label>
+          {design.maxFileSize > 0 ? (
+            <div className="mt-2 flex items-center gap-1 text-xs text-zinc-400">
+              <input
+                type="number"
+                min={50}
+                step={50}
+                value={capKb}
+                onChange={(e) => onChange({ maxFileSize: Math.max(50, Number(e.target.value) || 0) * 1024 })}
+                className="w-20 rounded-lg border border-white/10 bg-zinc-900 px-2 py-1 text-sm text-zinc-100"
+                aria-label="Max file size in KB"
+              />
+              KB
+            </div>
+          ) : null}
+        </div>
+      </div>
+      <div className="mt-2 text-xs text-zinc-400">
+        {lossy
+          ? "2× is best for crisp text. With a max size, quality is lowered only as far as needed."
+          : "2× is best for crisp text. PNG is lossless; pick JPEG or WebP for smaller files."}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+import React from "react";
+import { Trash2, Type, Upload } from "lucide-react";
+import { CustomFont, FONT_FILE_ACCEPT, FONT_STACKS, fontFamilyCss } from "./fonts";
+import { useFontLibrary } from "./useFontLibrary";
+
+// Uploaded fonts. They become available in the brand kit and per text layer.
+export function FontsPanel({ library }: { library: ReturnType<typeof useFontLibrary> }) {
+  return (
+    <div className="rounded-2xl border border-white/10 bg-white/5 p-3">
+      <div className="mb-2 flex items-center gap-2 text-sm font-semibold">
+        <Type className="h-4 w-4" /> Fonts
+        <label className="ml-auto inline-flex cursor-pointer items-center gap-1 rounded-xl border border-white/10 bg-white/5 px-2 py-1 text-xs font-normal hover:bg-white/10">
+          <Upload className="h-3.5 w-3.5" /> Upload
+          <input
+            type="file"
+            accept={FONT_FILE_ACCEPT}
+            multiple
+            className="hidden"
+            onChange={async (e) => {
+              const input = e.target;
+              for (const f of Array.from(input.files ?? [])) await library.add(f);
+              input.value = "";
+            }}
+          />
+        </label>
+      </div>
+
+      <div className="space-y-1">
+        {library.fonts.map((font) => (
+          <div
+            key={font.id}
+            className="flex items-center gap-2 rounded-xl border border-white/10 bg-zinc-950 px-3 py-2 text-sm"
+          >
+            <span className="min-w-0 flex-1 truncate" style={{ fontFamily: fontFamilyCss(font.id) }}>
+              {font.name}
+            </span>
+            <button
+              title="Remove font"
+              onClick={() => {
+                if (confirm(`Remove font "${font.name}"? Text using it falls back to the system font.`)) {
+                  library.remove(font.id);
+                }
+              }}
+              className="grid h-7 w-7 shrink-0 place-items-center rounded-lg hover:bg-white/10"
+            >
+              <Trash2 className="h-3.5 w-3.5" />
+            </button>
+          </div>
+        ))}
+        {!library.fonts.length ? (
+          <div className="text-xs text-zinc-400">TTF, OTF, WOFF or WOFF2. Fonts stay in this browser.</div>
+        ) : null}
+      </div>
+
+      {library.error ? <div className="mt-2 text-xs text-zinc-400">{library.error}</div> : null}
+    </div>
+  );
+}
+
+// <option>s for a font <select>: built-in stacks, then uploaded fonts
+export function FontOptions({ fonts }: { fonts: CustomFont[] }) {
+  return (
+    <>
+      <optgroup label="Built-in">
+        {Object.entries(FONT_STACKS).map(([id, font]) => (
+          <option key={id} value={id}>
+            {font.label}
+          </option>
+        ))}
+      </optgroup>
+      {fonts.length ? (
+        <optgroup label="Uploaded">
+          {fonts.map((font) => (
+            <option key={font.id} value={font.id}>
+              {font.name}
+            </option>
+          ))}
+        </optgroup>
+      ) : null}
+    </>
+  );
+}
@@ -0,0 +1,317 @@
+import React from "react";
+import { AlertTriangle, ArrowDown, ArrowUp, Copy, Layers, Plus, Trash2, Type } from "lucide-react";
+import { Align, Design, FONT_SIZE_RANGE, LETTER_SPACING_RANGE, TextLayer, createLayer } from "./design";
+import { CustomFont, FONT_WEIGHTS } from "./fonts";
+import { FontOptions } from "./FontsPanel";
+import { TextIssue } from "./render";
+import { RichTextArea } from "./RichTextArea";
+import { plainText } from "./richText";
+import { makeId } from "./utils";
+
+// Layers list (front to back) plus an inspector for the selected layer.
+// Position and width are edited by dragging on the preview.
+
+export function LayersPanel({
+  design,
+  selectedId,
+  onSelect,
+  onChange,
+  fonts,
+  issues,
+}: {
+  design: Design;
+  fonts: CustomFont[];
+  issues: TextIssue[]; // from the preview, see findTextIssues
+
+  selectedId: string | null;
+  onSelect: (id: string | null) => void;
+  onChange: (layers: TextLayer[]) => void;
+}) {
+  const { layers } = design;
+  const index = layers.findIndex((l) => l.id === selectedId);
+  const selected = index >= 0 ? layers[index] : null;
+  const issuesOf = (id: string) => issues.filter((i) => i.layerIds.includes(id));
+
+  function updateLayer(patch: Partial<TextLayer>) {
+    if (!selected) return;
+    onChange(layers.map((l) => (l.id === selected.id ? { ...l, ...patch } : l)));
+  }
+
+  function addLayer() {
+    const layer = createLayer({ name: `Text ${layers.length + 1}`, text: "New text", y: 400 });
+    onChange([...layers, layer]);
+    onSelect(layer.id);
+  }
+
+  function duplicate() {
+    if (!selected) return;
+    const copy = { ...selected, id: makeId(), name: `${selected.name} copy`, y: selected.y + 40 };
+    onChange([...layers.slice(0, index + 1), copy, ...layers.slice(index + 1)]);
+    onSelect(copy.id);
+  }
+
+  function remove() {
+    if (!selected) return;
+    const next = layers.filter((l) => l.id !== selected.id);
+    onChange(next);
+    onSelect(next[Math.min(index, next.length - 1)]?.id ?? null);
+  }
+
+  // +1 = towards the front
+  function reorder(delta: number) {
+    const to = index + delta;
+    if (!selected || to < 0 || to >= layers.length) return;
+    const next = [...layers];
+    [next[index], next[to]] = [next[to], next[index]];
+    onChange(next);
+  }
+
+  return (
+    <div className="rounded-2xl border border-white/10 bg-white/5 p-3">
+      <div className="mb-2 flex items-center gap-2 text-sm font-semibold">
+        <Layers className="h-4 w-4" /> Text layers
+        <button
+          onClick={addLayer}
+          className="ml-auto inline-flex items-center gap-1 rounded-xl border border-white/10 bg-white/5 px-2 py-1 text-xs hover:bg-white/10"
+        >
+          <Plus className="h-3.5 w-3.5" /> Add
+        </button>
+      </div>
+
+      <div className="space-y-1">
+        {[...layers].reverse().map((layer) => (
+          <button
+            key={layer.id}
+            onClick={() => onSelect(layer.id)}
+            className={`flex w-full items-center gap-2 rounded-xl border border-white/10 px-3 py-2 text-left text-xs ${
+              layer.id === selectedId ? "bg-white text-zinc-900" : "bg-zinc-950 hover:bg-white/10"
+            }`}
+          >
+            <Type className="h-3.5 w-3.5 shrink-0" />
+            <span className="shrink-0 font-semibold">{layer.name}</span>
+            <span className="min-w-0 truncate opacity-60">{plainText(layer.text).split("\n")[0]}</span>
+            {issuesOf(layer.id).length ? (
+              <AlertTriangle className="ml-auto h-3.5 w-3.5 shrink-0 text-amber-400" aria-label="Text problem" />
+            ) : null}
+          </button>
+        ))}
+        {!layers.length ? <div className="text-xs text-zinc-400">No text layers.</div> : null}
+      </div>
+
+      {selected ? (
+        <div className="mt-3 space-y-3 border-t border-white/10 pt-3">
+          <div className="flex items-center gap-1">
+            <input
+              value={selected.name}
+              onChange={(e) => updateLayer({ name: e.target.value })}
+              className="min-w-0 flex-1 rounded-xl border border-white/10 bg-zinc-950 px-2 py-1 text-sm"
+              aria-label="Layer name"
+            />
+            <IconButton title="Bring forward" onClick={() => reorder(1)} disabled={index === layers.length - 1}>
+              <ArrowUp className="h-4 w-4" />
+            </IconButton>
+            <IconButton title="Send backward" onClick={() => reorder(-1)} disabled={index === 0}>
+              <ArrowDown className="h-4 w-4" />
+            </IconButton>
+            <IconButton title="Duplicate" onClick={duplicate}>
+              <Copy className="h-4 w-4" />
+            </IconButton>
+            <IconButton title="Delete" onClick={remove}>
+              <Trash2 className="h-4 w-4" />
+            </IconButton>
+          </div>
+
+          <RichTextArea value={selected.text} onChange={(text) => updateLayer({ text })} />
+
+          {issuesOf(selected.id).map((issue) => (
+            <div
+              key={issue.message}
+              className="flex items-start gap-2 rounded-2xl border border-amber-400/30 bg-amber-500/10 px-3 py-2 text-xs text-amber-200"
+            >
+              <AlertTriangle className="mt-0.5 h-3.5 w-3.5 shrink-0" /> {issue.message}
+            </div>
+          ))}
+
+          <div className="grid grid-cols-3 gap-2">
+            {(["left", "center", "right"] as Align[]).map((align) => (
+              <button
+                key={align}
+                className={`rounded-2xl border border-white/10 px-3 py-2 text-xs capitalize ${
+                  selected.align === align ? "bg-white text-zinc-900" : "bg-white/5 hover:bg-white/10"
+                }`}
+                onClick={() => updateLayer({ align })}
+              >
+                {align}
+              </button>
+            ))}
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between">
+              <label className="text-xs text-zinc-300">{selected.autoFit ? "Max font size" : "Font size"}</label>
+              <span className="text-xs text-zinc-400">{selected.fontSize}px</span>
+            </div>
+            <input
+              type="range"
+              min={FONT_SIZE_RANGE.min}
+              max={FONT_SIZE_RANGE.max}
+              value={selected.fontSize}
+              onChange={(e) => updateLayer({ fontSize: Number(e.target.value) })}
+              className="mt-2 w-full"
+            />
+          </div>
+
+          <div className="rounded-2xl border border-white/10 bg-zinc-950 px-3 py-2">
+            <label className="flex items-center justify-between text-sm">
+              <span className="text-zinc-300">Auto-fit</span>
+              <input
+                type="checkbox"
+                checked={selected.autoFit}
+                onChange={(e) => updateLayer({ autoFit: e.target.checked })}
+                className="h-4 w-4"
+              />
+            </label>
+            {selected.autoFit ? (
+              <>
+                <div className="mt-2 flex items-center justify-between">
+                  <label className="text-xs text-zinc-300">Min font size</label>
+                  <span className="text-xs text-zinc-400">{Math.min(selected.minFontSize, selected.fontSize)}px</span>
+                </div>
+                <input
+                  type="range"
+                  min={FONT_SIZE_RANGE.min}
+                  max={selected.fontSize}
+                  value={Math.min(selected.minFontSize, selected.fontSize)}
+                  onChange={(e) => updateLayer({ minFontSize: Number(e.target.value) })}
+                  className="mt-2 w-full"
+                />
+                <div className="mt-1 text-xs text-zinc-400">
+                  Text shrinks to fit the dashed box. Drag its edge handle to change the height.
+                </div>
+              </>
+            ) : null}
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between">
+              <label className="text-xs text-zinc-300">Letter spacing</label>
+              <span className="text-xs text-zinc-400">{selected.letterSpacing.toFixed(2)}em</span>
+            </div>
+            <input
+              type="range"
+              min={LETTER_SPACING_RANGE.min}
+              max={LETTER_SPACING_RANGE.max}
+              step={0.01}
+              value={selected.letterSpacing}
+              onChange={(e) => updateLayer({ letterSpacing: Number(e.target.value) })}
+              className="mt-2 w-full"
+            />
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between">
+              <label className="text-xs text-zinc-300">Rotation</label>
+              <span className="text-xs text-zinc-400">{selected.rotation}°</span>
+            </div>
+            <input
+              type="range"
+              min={-180}
+              max={180}
+              value={selected.rotation}
+              onChange={(e) => updateLayer({ rotation: Number(e.target.value) })}
+              className="mt-2 w-full"
+            />
+          </div>
+
+          <label className="flex items-center gap-2 rounded-2xl border border-white/10 bg-zinc-950 px-3 py-2 text-sm">
+            <span className="text-zinc-300">Panel</span>
+            <select
+              className="ml-auto rounded-xl border border-white/10 bg-zinc-950 px-2 py-1 text-sm"
+              value={selected.panel}
+              onChange={(e) => updateLayer({ panel: e.target.value as TextLayer["panel"] })}
+            >
+              <option value="none">None</option>
+              <option value="soft">Soft</option>
+              <option value="box">Box</option>
+            </select>
+          </label>
+
+          <label className="flex items-center gap-2 rounded-2xl border border-white/10 bg-zinc-950 px-3 py-2 text-sm">
+            <span className="text-zinc-300">Font</span>
+            <select
+              className="ml-auto min-w-0 rounded-xl border border-white/10 bg-zinc-950 px-2 py-1 text-sm"
+              value={selected.fontFamily ?? `@${selected.font}`}
+              onChange={(e) => {
+                const value = e.target.value;
+                updateLayer(
+                  value.startsWith("@")
+                    ? { font: value.slice(1) as TextLayer["font"], fontFamily: null }
+                    : { fontFamily: value }
+                );
+              }}
+            >
+              <optgroup label="Brand kit">
+                <option value="@heading">Heading font</option>
+                <option value="@body">Body font</option>
+              </optgroup>
+              <FontOptions fonts={fonts} />
+            </select>
+          </label>
+
+          <div className="grid grid-cols-2 gap-2">
+            <label className="flex items-center gap-2 rounded-2xl border border-white/10 bg-zinc-950 px-3 py-2 text-sm">
+              <span className="text-zinc-300">Weight</span>
+              <select
+                className="ml-auto rounded-xl border border-white/10 bg-zinc-950 px-2 py-1 text-sm"
+                value={selected.fontWeight}
+                onChange={(e) => updateLayer({ fontWeight: Number(e.target.value) })}
+              >
+                {FONT_WEIGHTS.map((w) => (
+                  <option key={w} value={w}>
+                    {w}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center gap-2 rounded-2xl border border-white/10 bg-zinc-950 px-3 py-2 text-sm">
+              <span className="text-zinc-300">Color</span>
+              <select
+                className="ml-auto rounded-xl border border-white/10 bg-zinc-950 px-2 py-1 text-sm"
+                value={selected.color}
+                onChange={(e) => updateLayer({ color: e.target.value as TextLayer["color"] })}
+              >
+                <option value="text">Text</option>
+                <option value="accent">Accent</option>
+              </select>
+            </label>
+          </div>
+
+          <div className="text-xs text-zinc-400">Drag on the preview to move; use the handles to resize and rotate.</div>
+        </div>
+      ) : null}
+    </div>
+  );
+}
+
+function IconButton({
+  title,
+  onClick,
+  disabled,
+  children,
+}: {
+  title: string;
+  onClick: () => void;
+  disabled?: boolean;
+  children: React.ReactNode;
+}) {
+  return (
+    <button
+      title={title}
+      onClick={onClick}
+      disabled={disabled}
+      className="grid h-8 w-8 shrink-0 place-items-center rounded-xl border border-white/10 bg-white/5 hover:bg-white/10 disabled:opacity-40"
+    >
+      {children}
+    </button>
+  );
+}
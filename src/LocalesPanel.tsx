@@ -0,0 +1,190 @@
+import React from "react";
+import { Download, Languages, X } from "lucide-react";
+import { Design } from "./design";
+import { LOCALES, isRtlLocale, localeName, withoutLocale } from "./locales";
+import { RichTextArea } from "./RichTextArea";
+
+// Translations of every text block. The layer panel edits the first
+// language; the preview switcher shows any of them.
+export function LocalesPanel({
+  design,
+  locale,
+  onLocaleChange,
+  activeSlide,
+  onChange,
+  onExport,
+  exporting,
+}: {
+  design: Design;
+  locale: string; // shown in the preview
+  onLocaleChange: (locale: string) => void;
+  activeSlide: number;
+  onChange: (patch: Partial<Pick<Design, "locales" | "layers" | "carousel">>) => void;
+  onExport: () => void;
+  exporting: boolean;
+}) {
+  const [base, ...others] = design.locales;
+  const slide = design.carousel.enabled ? design.carousel.slides[activeSlide] : undefined;
+  const unused = LOCALES.filter((l) => !design.locales.includes(l.code));
+
+  function addLocale(code: string) {
+    onChange({ locales: [...design.locales, code] });
+    onLocaleChange(code);
+  }
+
+  function removeLocale(code: string) {
+    const { locales, layers, carousel } = withoutLocale(design, code);
+    onChange({ locales, layers, carousel });
+    if (locale === code) onLocaleChange(base);
+  }
+
+  // Empty text drops the translation, so the first language shows through
+  function setLayerText(layerId: string, text: string) {
+    onChange({
+      layers: design.layers.map((layer) => {
+        if (layer.id !== layerId) return layer;
+        const { [locale]: _, ...translations } = layer.translations;
+        return { ...layer, translations: text ? { ...translations, [locale]: text } : translations };
+      }),
+    });
+  }
+
+  function setSlideText(layerId: string, text: string) {
+    const slides = design.carousel.slides.map((s, i) => {
+      if (i !== activeSlide) return s;
+      const { [layerId]: _, ...rest } = s.translations[locale] ?? {};
+      return { ...s, translations: { ...s.translations, [locale]: text ? { ...rest, [layerId]: text } : rest } };
+    });
+    onChange({ carousel: { ...design.carousel, slides } });
+  }
+
+  const fallback = `Empty: uses the ${localeName(base)} text`;
+
+  return (
+    <div className="rounded-2xl border border-white/10 bg-white/5 p-3">
+      <div className="mb-2 flex items-center gap-2 text-sm font-semibold">
+        <Languages className="h-4 w-4" /> Languages
+      </div>
+
+      <div className="flex flex-wrap items-center gap-1">
+        {design.locales.map((code) => (
+          <span
+            key={code}
+            className={`inline-flex items-center gap-1 rounded-xl border border-white/10 px-2 py-1 text-xs ${
+              code === locale ? "bg-white text-zinc-900" : "bg-white/5"
+            }`}
+          >
+            <button onClick={() => onLocaleChange(code)} title={`Preview in ${localeName(code)}`}>
+              {localeName(code)}
+              {isRtlLocale(code) ? " (RTL)" : ""}
+            </button>
+            {code !== base ? (
+              <button
+                onClick={() => {
+                  if (confirm(`Remove ${localeName(code)} and its translations?`)) removeLocale(code);
+                }}
+                className="rounded hover:bg-black/10"
+                title={`Remove ${localeName(code)}`}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            ) : null}
+          </span>
+        ))}
+      </div>
+
+      <div className="mt-2 grid grid-cols-2 gap-2">
+        <label className="flex items-center gap-2 rounded-2xl border border-white/10 bg-zinc-950 px-3 py-2 text-sm">
+          <span className="text-zinc-300">Written in</span>
+          <select
+            className="ml-auto min-w-0 rounded-xl border border-white/10 bg-zinc-950 px-2 py-1 text-sm"
+            value={base}
+            onChange={(e) => {
+              onChange({ locales: [e.target.value, ...others] });
+              if (locale === base) onLocaleChange(e.target.value);
+            }}
+            title="Language of the text in the layer panel"
+          >
+            {LOCALES.filter((l) => l.code === base || !others.includes(l.code)).map((l) => (
+              <option key={l.code} value={l.code}>
+                {l.name}
+              </option>
+            ))}
+            {!LOCALES.some((l) => l.code === base) ? <option value={base}>{base}</option> : null}
+          </select>
+        </label>
+        <select
+          className="rounded-2xl border border-white/10 bg-zinc-950 px-3 py-2 text-sm"
+          value=""
+          onChange={(e) => addLocale(e.target.value)}
+          aria-label="Add a language"
+        >
+          <option value="">Add language…</option>
+          {unused.map((l) => (
+            <option key={l.code} value={l.code}>
+              {l.name}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {locale !== base ? (
+        <div className="mt-3 space-y-3">
+          {design.layers.map((layer) => (
+            <TranslationField
+              key={layer.id}
+              label={`${layer.name} in ${localeName(locale)}`}
+              value={layer.translations[locale] ?? ""}
+              hint={fallback}
+              onChange={(text) => setLayerText(layer.id, text)}
+            />
+          ))}
+          {slide
+            ? design.layers
+                .filter((layer) => slide.text[layer.id] !== undefined)
+                .map((layer) => (
+                  <TranslationField
+                    key={`${slide.id}-${layer.id}`}
+                    label={`${layer.name} on slide ${activeSlide + 1}`}
+                    value={slide.translations[locale]?.[layer.id] ?? ""}
+                    hint={`Empty: uses the slide's ${localeName(base)} text`}
+                    onChange={(text) => setSlideText(layer.id, text)}
+                  />
+                ))
+            : null}
+        </div>
+      ) : others.length ? (
+        <div className="mt-2 text-xs text-zinc-400">Pick a language above to edit its translations.</div>
+      ) : null}
+
+      <button
+        onClick={onExport}
+        disabled={!design.image || !others.length || exporting}
+        className="mt-3 inline-flex w-full items-center justify-center gap-2 rounded-2xl border border-white/10 bg-white/5 px-3 py-2 text-sm hover:bg-white/10 disabled:opacity-40"
+      >
+        <Download className="h-4 w-4" />
+        {exporting ? "Exporting…" : `Export ${design.locales.length} languages as ZIP`}
+      </button>
+    </div>
+  );
+}
+
+function TranslationField({
+  label,
+  value,
+  hint,
+  onChange,
+}: {
+  label: string;
+  value: string;
+  hint: string;
+  onChange: (text: string) => void;
+}) {
+  return (
+    <div>
+      <div className="text-xs text-zinc-300">{label}</div>
+      <RichTextArea value={value} onChange={onChange} className="mt-2" />
+      {!value ? <div className="mt-1 text-xs text-zinc-500">{hint}</div> : null}
+    </div>
+  );
+}
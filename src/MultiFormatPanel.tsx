@@ -0,0 +1,225 @@
+import React, { useState } from "react";
+import { Download, Proportions, RotateCcw } from "lucide-react";
+import {
+  Design,
+  FONT_SCALE_RANGE,
+  MultiFormat,
+  SIZE_MARGIN_RANGE,
+  SizeLayout,
+  ZOOM_RANGE,
+  getSize,
+} from "./design";
+import { SlideRender } from "./carousel";
+import { designForSize, formatSizes, sizeLayout } from "./formats";
+import { allProfiles } from "./platforms";
+import { Stage } from "./Stage";
+
+const THUMB_WIDTH = 84;
+
+// Every chosen canvas size side by side, each with its own layout tweaks,
+// exported together as one ZIP
+export function MultiFormatPanel({
+  design,
+  preview,
+  onChange,
+  onExport,
+  exporting,
+}: {
+  design: Design;
+  preview: SlideRender; // the slide shown in the main preview
+  onChange: (formats: MultiFormat) => void;
+  onExport: () => void;
+  exporting: boolean;
+}) {
+  const { formats } = design;
+  const sizes = formatSizes(design);
+  const [editingId, setEditingId] = useState(design.sizeId);
+  const editing = sizeLayout(design, editingId);
+
+  function toggleSize(id: string, on: boolean) {
+    const picked = new Set(formats.sizeIds);
+    if (on) picked.add(id);
+    else picked.delete(id);
+    // Listed profiles in list order; others (a custom size, another browser's profile) after them
+    const listed = allProfiles().map((p) => p.id);
+    const others = Array.from(picked).filter((p) => !listed.includes(p));
+    onChange({ ...formats, sizeIds: [...listed.filter((p) => picked.has(p)), ...others] });
+  }
+
+  function updateLayout(patch: Partial<SizeLayout>) {
+    onChange({ ...formats, layouts: { ...formats.layouts, [editingId]: { ...editing, ...patch } } });
+  }
+
+  function resetLayout() {
+    const { [editingId]: _, ...rest } = formats.layouts;
+    onChange({ ...formats, layouts: rest });
+  }
+
+  const crop = editing.crop ?? design.crop;
+
+  return (
+    <div className="rounded-2xl border border-white/10 bg-white/5 p-3">
+      <div className="mb-2 flex items-center gap-2 text-sm font-semibold">
+        <Proportions className="h-4 w-4" /> Multi-format
+      </div>
+
+      <div className="grid grid-cols-2 gap-x-2 gap-y-1">
+        {allProfiles().map((p) => (
+          <label key={p.id} className="flex min-w-0 items-center gap-1 text-xs text-zinc-300" title={p.label}>
+            <input
+              type="checkbox"
+              checked={formats.sizeIds.includes(p.id)}
+              onChange={(e) => toggleSize(p.id, e.target.checked)}
+            />
+            <span className="truncate">{p.user ? p.name : `${p.platform} ${p.name}`}</span>
+          </label>
+        ))}
+      </div>
+
+      {sizes.length ? (
+        <div className="mt-3 grid grid-cols-4 items-start gap-2">
+          {sizes.map((s) => (
+            <button
+              key={s.id}
+              onClick={() => setEditingId(s.id)}
+              className={`relative block w-full overflow-hidden rounded-xl border bg-black ${
+                editingId === s.id ? "border-sky-400" : "border-white/10"
+              }`}
+              style={{ aspectRatio: `${s.w} / ${s.h}` }}
+              title={`Edit the ${s.label} layout`}
+            >
+              <Stage
+                design={designForSize(preview.design, s.id)}
+                pageLabel={preview.pageLabel}
+                scale={THUMB_WIDTH / s.w}
+                style={{ transform: `scale(${THUMB_WIDTH / s.w})`, transformOrigin: "top left" }}
+              />
+            </button>
+          ))}
+        </div>
+      ) : null}
+
+      <div className="mt-3 rounded-2xl border border-white/10 bg-zinc-950 px-3 py-2">
+        <div className="flex items-center gap-2 text-xs">
+          <span className="min-w-0 flex-1 truncate text-zinc-300">{getSize(editingId).label}</span>
+          <button
+            onClick={resetLayout}
+            disabled={!formats.layouts[editingId]}
+            className="inline-flex items-center gap-1 rounded-xl border border-white/10 bg-white/5 px-2 py-1 text-xs hover:bg-white/10 disabled:opacity-40"
+            title="Use the design's layout at this size"
+          >
+            <RotateCcw className="h-3.5 w-3.5" /> Reset
+          </button>
+        </div>
+
+        <Slider
+          label="Font scale"
+          value={editing.fontScale}
+          shown={`${Math.round(editing.fontScale * 100)}%`}
+          min={FONT_SCALE_RANGE.min}
+          max={FONT_SCALE_RANGE.max}
+          step={0.05}
+          onChange={(fontScale) => updateLayout({ fontScale })}
+        />
+        <Slider
+          label="Extra margin"
+          value={editing.margin}
+          shown={`${editing.margin}px`}
+          min={SIZE_MARGIN_RANGE.min}
+          max={SIZE_MARGIN_RANGE.max}
+          step={5}
+          onChange={(margin) => updateLayout({ margin })}
+        />
+
+        <label className="mt-2 flex items-center gap-2 text-sm">
+          <input
+            type="checkbox"
+            checked={!!editing.crop}
+            disabled={!design.image}
+            onChange={(e) => updateLayout({ crop: e.target.checked ? { ...design.crop } : null })}
+          />
+          Own framing
+        </label>
+        {editing.crop ? (
+          <>
+            <Slider
+              label="Zoom"
+              value={crop.zoom}
+              shown={`${crop.zoom.toFixed(2)}×`}
+              min={ZOOM_RANGE.min}
+              max={ZOOM_RANGE.max}
+              step={0.01}
+              onChange={(zoom) => updateLayout({ crop: { ...crop, zoom } })}
+            />
+            <Slider
+              label="Subject across"
+              value={crop.focalX}
+              shown={`${Math.round(crop.focalX * 100)}%`}
+              min={0}
+              max={1}
+              step={0.01}
+              onChange={(focalX) => updateLayout({ crop: { ...crop, focalX } })}
+            />
+            <Slider
+              label="Subject down"
+              value={crop.focalY}
+              shown={`${Math.round(crop.focalY * 100)}%`}
+              min={0}
+              max={1}
+              step={0.01}
+              onChange={(focalY) => updateLayout({ crop: { ...crop, focalY } })}
+            />
+          </>
+        ) : null}
+      </div>
+
+      <button
+        onClick={onExport}
+        disabled={!design.image || !sizes.length || exporting}
+        className="mt-2 inline-flex w-full items-center justify-center gap-2 rounded-2xl border border-white/10 bg-white/5 px-3 py-2 text-sm hover:bg-white/10 disabled:opacity-40"
+      >
+        <Download className="h-4 w-4" />
+        {exporting ? "Exporting…" : `Export ${sizes.length} formats as ZIP`}
+      </button>
+      <div className="mt-2 text-xs text-zinc-400">
+        Size tweaks only apply here; the main preview shows the design as laid out.
+      </div>
+    </div>
+  );
+}
+
+function Slider({
+  label,
+  value,
+  shown,
+  min,
+  max,
+  step,
+  onChange,
+}: {
+  label: string;
+  value: number;
+  shown: string;
+  min: number;
+  max: number;
+  step: number;
+  onChange: (value: number) => void;
+}) {
+  return (
+    <div className="mt-2">
+      <div className="flex items-center justify-between">
+        <span className="text-sm text-zinc-300">{label}</span>
+        <span className="text-xs text-zinc-400">{shown}</span>
+      </div>
+      <input
+        type="range"
+        min={min}
+        max={max}
+        step={step}
+        value={value}
+        onChange={(e) => onChange(Number(e.target.value))}
+        className="mt-1 w-full"
+      />
+    </div>
+  );
+}
@@ -0,0 +1,171 @@
+import React, { useState } from "react";
+import { Copy, Download, Plus, Save, Trash2, Upload } from "lucide-react";
+import { Design } from "./design";
+import {
+  PRESETS_FILE_EXTENSION,
+  Preset,
+  PresetFileError,
+  parsePresetsFile,
+  presetFromDesign,
+  serializePresets,
+} from "./presets";
+import { usePresetLibrary } from "./usePresetLibrary";
+import { downloadBlob, makeId } from "./utils";
+
+// Preset picker + manager. Built-ins can be duplicated but not edited.
+export function PresetPanel({
+  design,
+  library,
+  onSelect,
+}: {
+  design: Design;
+  library: ReturnType<typeof usePresetLibrary>;
+  onSelect: (preset: Preset) => void;
+}) {
+  const [message, setMessage] = useState<string | null>(null);
+  const active = library.presets.find((p) => p.id === design.presetId);
+  const editable = active && !active.builtIn ? active : null;
+
+  async function saveAs(preset: Preset) {
+    await library.save(preset);
+    onSelect(preset);
+  }
+
+  async function importFile(file: File) {
+    try {
+      const imported = parsePresetsFile(await file.text());
+      for (const preset of imported) await library.save(preset);
+      setMessage(`Imported ${imported.length} preset(s).`);
+    } catch (err) {
+      if (!(err instanceof PresetFileError)) throw err;
+      setMessage(`${file.name}: ${err.message}`);
+    }
+  }
+
+  function exportAll() {
+    const blob = new Blob([serializePresets(library.userPresets)], { type: "application/json" });
+    downloadBlob(blob, `TSTW_presets${PRESETS_FILE_EXTENSION}`);
+  }
+
+  return (
+    <div>
+      <label className="text-xs text-zinc-300">Text preset</label>
+      <select
+        className="mt-2 w-full rounded-2xl border border-white/10 bg-zinc-950 px-3 py-2 text-sm"
+        value={active ? design.presetId : ""}
+        onChange={(e) => {
+          const preset = library.presets.find((p) => p.id === e.target.value);
+          if (preset) onSelect(preset);
+        }}
+      >
+        {!active ? <option value="">—</option> : null}
+        <optgroup label="Built-in">
+          {library.presets
+            .filter((p) => p.builtIn)
+            .map((p) => (
+              <option key={p.id} value={p.id}>
+                {p.name}
+              </option>
+            ))}
+        </optgroup>
+        {library.userPresets.length ? (
+          <optgroup label="Your presets">
+            {library.userPresets.map((p) => (
+              <option key={p.id} value={p.id}>
+                {p.name}
+              </option>
+            ))}
+          </optgroup>
+        ) : null}
+      </select>
+
+      {editable ? (
+        <input
+          value={editable.name}
+          onChange={(e) => library.save({ ...editable, name: e.target.value })}
+          data-native-undo
+          className="mt-2 w-full rounded-2xl border border-white/10 bg-zinc-950 px-3 py-2 text-sm"
+          aria-label="Preset name"
+        />
+      ) : null}
+
+      <div className="mt-2 flex flex-wrap gap-1">
+        <PresetButton
+          title="Save the current design as a new preset"
+          onClick={() => saveAs(presetFromDesign(design, `My preset ${library.userPresets.length + 1}`))}
+        >
+          <Plus className="h-3.5 w-3.5" /> New
+        </PresetButton>
+        <PresetButton
+          title="Overwrite this preset with the current design"
+          disabled={!editable}
+          onClick={() => editable && library.save(presetFromDesign(design, editable.name, editable.id))}
+        >
+          <Save className="h-3.5 w-3.5" /> Update
+        </PresetButton>
+        <PresetButton
+          title="Duplicate this preset"
+          disabled={!active}
+          onClick={() => active && saveAs({ ...active, builtIn: undefined, id: makeId(), name: `${active.name} copy` })}
+        >
+          <Copy className="h-3.5 w-3.5" /> Duplicate
+        </PresetButton>
+        <PresetButton
+          title="Delete this preset"
+          disabled={!editable}
+          onClick={() => {
+            if (editable && confirm(`Delete preset "${editable.name}"?`)) library.remove(editable.id);
+          }}
+        >
+          <Trash2 className="h-3.5 w-3.5" /> Delete
+        </PresetButton>
+        <label
+          className="inline-flex cursor-pointer items-center gap-1 rounded-xl border border-white/10 bg-white/5 px-2 py-1 text-xs hover:bg-white/10"
+          title="Import presets from a file"
+        >
+          <Upload className="h-3.5 w-3.5" /> Import
+          <input
+            type="file"
+            accept={`${PRESETS_FILE_EXTENSION},.json,application/json`}
+            className="hidden"
+            onChange={(e) => {
+              const f = e.target.files?.[0];
+              if (f) importFile(f);
+              e.target.value = "";
+            }}
+          />
+        </label>
+        <PresetButton title="Export your presets to a file" disabled={!library.userPresets.length} onClick={exportAll}>
+          <Download className="h-3.5 w-3.5" /> Export
+        </PresetButton>
+      </div>
+
+      {message || library.error ? (
+        <div className="mt-2 text-xs text-zinc-400">{message || library.error}</div>
+      ) : null}
+    </div>
+  );
+}
+
+function PresetButton({
+  title,
+  onClick,
+  disabled,
+  children,
+}: {
+  title: string;
+  onClick: () => void;
+  disabled?: boolean;
+  children: React.ReactNode;
+}) {
+  return (
+    <button
+      title={title}
+      onClick={onClick}
+      disabled={disabled}
+      className="inline-flex items-center gap-1 rounded-xl border border-white/10 bg-white/5 px-2 py-1 text-xs hover:bg-white/10 disabled:opacity-40"
+    >
+      {children}
+    </button>
+  );
+}
@@ -0,0 +1,304 @@
+import React, { useState } from "react";
+import {
+  ArrowDown,
+  ArrowUp,
+  CalendarDays,
+  ChevronLeft,
+  ChevronRight,
+  Copy,
+  Download,
+  FolderOpen,
+  List,
+  Plus,
+  Save,
+  Trash2,
+} from "lucide-react";
+import { Design, getSize } from "./design";
+import { allProfiles } from "./platforms";
+import { POST_STATUSES, PostStatus, QueuedPost, localDate, weekDays } from "./queue";
+import { usePostQueue } from "./usePostQueue";
+
+const STATUS_COLORS: Record<PostStatus, string> = {
+  draft: "bg-zinc-500",
+  ready: "bg-sky-400",
+  exported: "bg-emerald-400",
+};
+
+const DAY_NAMES = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+
+// Planned posts as a list in the team's order, or a week calendar by
+// publish date; open one to edit it in the builder
+export function QueuePanel({
+  design,
+  library,
+  editingId,
+  onEditingChange,
+  onOpen,
+  onExport,
+  exporting,
+}: {
+  design: Design;
+  library: ReturnType<typeof usePostQueue>;
+  editingId: string | null;
+  onEditingChange: (id: string | null) => void;
+  onOpen: (post: QueuedPost) => void;
+  onExport: () => void;
+  exporting: boolean;
+}) {
+  const [view, setView] = useState<"list" | "week">("list");
+  const [weekOf, setWeekOf] = useState(() => new Date());
+  const [day, setDay] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const { posts } = library;
+  const editing = posts.find((p) => p.id === editingId);
+  const ready = posts.filter((p) => p.status === "ready").length;
+  const days = weekDays(weekOf).map(localDate);
+  const today = localDate(new Date());
+  const shown = day ? posts.filter((p) => p.publishAt.startsWith(day)) : posts;
+
+  function shiftWeek(delta: number) {
+    setWeekOf((d) => new Date(d.getFullYear(), d.getMonth(), d.getDate() + delta * 7));
+    setDay(null);
+  }
+
+  function sizeOptions(sizeId: string) {
+    const profiles = allProfiles();
+    return profiles.some((p) => p.id === sizeId) ? profiles : [getSize(sizeId), ...profiles];
+  }
+
+  return (
+    <div className="rounded-2xl border border-white/10 bg-white/5 p-3" data-native-undo>
+      <div className="mb-2 flex items-center gap-2 text-sm font-semibold">
+        <CalendarDays className="h-4 w-4" /> Post queue
+        <div className="ml-auto flex gap-1">
+          {(
+            [
+              ["list", List, "List"],
+              ["week", CalendarDays, "Week"],
+            ] as const
+          ).map(([id, Icon, label]) => (
+            <button
+              key={id}
+              onClick={() => {
+                setView(id);
+                setDay(null);
+              }}
+              className={`inline-flex items-center gap-1 rounded-xl border px-2 py-1 text-xs font-normal ${
+                view === id ? "border-white/30 bg-white/15" : "border-white/10 bg-white/5 hover:bg-white/10"
+              }`}
+            >
+              <Icon className="h-3.5 w-3.5" /> {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex gap-2">
+        <button
+          onClick={() => onEditingChange(library.add(design).id)}
+          className="inline-flex flex-1 items-center justify-center gap-2 rounded-2xl border border-white/10 bg-white/5 px-3 py-2 text-sm hover:bg-white/10"
+          title="Queue the design in the builder as a new post"
+        >
+          <Plus className="h-4 w-4" /> Add current design
+        </button>
+        {editing ? (
+          <button
+            onClick={() => library.update(editing.id, { design })}
+            className="inline-flex flex-1 items-center justify-center gap-2 rounded-2xl border border-white/10 bg-white/5 px-3 py-2 text-sm hover:bg-white/10"
+            title={`Replace the design of "${editing.title}" with the one in the builder`}
+          >
+            <Save className="h-4 w-4" /> Save to post
+          </button>
+        ) : null}
+      </div>
+
+      {view === "week" ? (
+        <div className="mt-3">
+          <div className="mb-2 flex items-center gap-2 text-xs text-zinc-400">
+            <button
+              onClick={() => shiftWeek(-1)}
+              className="rounded-xl border border-white/10 bg-white/5 p-1 hover:bg-white/10"
+              aria-label="Previous week"
+            >
+              <ChevronLeft className="h-3.5 w-3.5" />
+            </button>
+            <span className="flex-1 text-center">
+              {days[0]} – {days[6]}
+            </span>
+            <button
+              onClick={() => shiftWeek(1)}
+              className="rounded-xl border border-white/10 bg-white/5 p-1 hover:bg-white/10"
+              aria-label="Next week"
+            >
+              <ChevronRight className="h-3.5 w-3.5" />
+            </button>
+          </div>
+          <div className="grid grid-cols-7 gap-1">
+            {days.map((date, i) => {
+              const planned = posts.filter((p) => p.publishAt.startsWith(date));
+              return (
+                <button
+                  key={date}
+                  onClick={() => setDay(day === date ? null : date)}
+                  className={`min-h-[3.5rem] rounded-xl border px-1 py-1 text-left text-xs ${
+                    day === date ? "border-white/30 bg-white/15" : "border-white/10 bg-zinc-950 hover:bg-white/10"
+                  }`}
+                  title={planned.map((p) => `${p.publishAt.slice(11)} ${p.title}`).join("\n") || undefined}
+                >
+                  <div className={date === today ? "font-semibold text-zinc-100" : "text-zinc-400"}>
+                    {DAY_NAMES[i]} {Number(date.slice(8))}
+                  </div>
+                  <div className="mt-1 flex flex-wrap gap-0.5">
+                    {planned.map((p) => (
+                      <span key={p.id} className={`h-1.5 w-1.5 rounded-full ${STATUS_COLORS[p.status]}`} />
+                    ))}
+                  </div>
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      ) : null}
+
+      {view === "list" || day ? (
+        <div className="mt-3 space-y-2">
+          {shown.map((post) => {
+            const idx = posts.indexOf(post);
+            const expanded = expandedId === post.id;
+            return (
+              <div
+                key={post.id}
+                className={`rounded-2xl border bg-zinc-950 px-3 py-2 ${
+                  post.id === editingId ? "border-white/30" : "border-white/10"
+                }`}
+              >
+                <div className="flex items-center gap-2">
+                  <span className={`h-2 w-2 shrink-0 rounded-full ${STATUS_COLORS[post.status]}`} title={post.status} />
+                  <button
+                    onClick={() => setExpandedId(expanded ? null : post.id)}
+                    className="min-w-0 flex-1 text-left"
+                  >
+                    <div className="truncate text-sm" dir="auto">
+                      {post.title}
+                    </div>
+                    <div className="text-xs text-zinc-400">
+                      {post.publishAt.replace("T", " ")} · {getSize(post.sizeId).label}
+                    </div>
+                  </button>
+                  <button
+                    onClick={() => onOpen(post)}
+                    className="inline-flex shrink-0 items-center gap-1 rounded-xl border border-white/10 bg-white/5 px-2 py-1 text-xs hover:bg-white/10"
+                    title="Open in the builder"
+                  >
+                    <FolderOpen className="h-3.5 w-3.5" /> Open
+                  </button>
+                </div>
+
+                {expanded ? (
+                  <div className="mt-2 space-y-2">
+                    <input
+                      value={post.title}
+                      onChange={(e) => library.update(post.id, { title: e.target.value })}
+                      className="w-full rounded-xl border border-white/10 bg-zinc-950 px-2 py-1 text-sm"
+                      aria-label="Title"
+                    />
+                    <div className="grid grid-cols-2 gap-2">
+                      <input
+                        type="datetime-local"
+                        value={post.publishAt}
+                        onChange={(e) => e.target.value && library.update(post.id, { publishAt: e.target.value })}
+                        className="rounded-xl border border-white/10 bg-zinc-950 px-2 py-1 text-xs"
+                        aria-label="Publish at"
+                      />
+                      <select
+                        value={post.status}
+                        onChange={(e) => library.update(post.id, { status: e.target.value as PostStatus })}
+                        className="rounded-xl border border-white/10 bg-zinc-950 px-2 py-1 text-xs capitalize"
+                        aria-label="Status"
+                      >
+                        {POST_STATUSES.map((s) => (
+                          <option key={s} value={s}>
+                            {s}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                    <select
+                      value={post.sizeId}
+                      onChange={(e) => library.update(post.id, { sizeId: e.target.value })}
+                      className="w-full rounded-xl border border-white/10 bg-zinc-950 px-2 py-1 text-xs"
+                      aria-label="Target size"
+                    >
+                      {sizeOptions(post.sizeId).map((p) => (
+                        <option key={p.id} value={p.id}>
+                          {p.label}
+                        </option>
+                      ))}
+                    </select>
+                    <textarea
+                      value={post.caption}
+                      onChange={(e) => library.update(post.id, { caption: e.target.value })}
+                      placeholder="Caption"
+                      rows={3}
+                      dir="auto"
+                      className="w-full rounded-xl border border-white/10 bg-zinc-950 px-2 py-1 text-sm"
+                    />
+                    <div className="flex gap-1">
+                      <button
+                        onClick={() => library.move(post.id, -1)}
+                        disabled={idx <= 0}
+                        className="inline-flex items-center gap-1 rounded-xl border border-white/10 bg-white/5 px-2 py-1 text-xs hover:bg-white/10 disabled:opacity-40"
+                        aria-label="Move up"
+                      >
+                        <ArrowUp className="h-3.5 w-3.5" />
+                      </button>
+                      <button
+                        onClick={() => library.move(post.id, 1)}
+                        disabled={idx >= posts.length - 1}
+                        className="inline-flex items-center gap-1 rounded-xl border border-white/10 bg-white/5 px-2 py-1 text-xs hover:bg-white/10 disabled:opacity-40"
+                        aria-label="Move down"
+                      >
+                        <ArrowDown className="h-3.5 w-3.5" />
+                      </button>
+                      <button
+                        onClick={() => library.duplicate(post.id)}
+                        className="inline-flex items-center gap-1 rounded-xl border border-white/10 bg-white/5 px-2 py-1 text-xs hover:bg-white/10"
+                      >
+                        <Copy className="h-3.5 w-3.5" /> Duplicate
+                      </button>
+                      <button
+                        onClick={() => {
+                          library.remove(post.id);
+                          if (post.id === editingId) onEditingChange(null);
+                        }}
+                        className="ml-auto inline-flex items-center gap-1 rounded-xl border border-white/10 bg-white/5 px-2 py-1 text-xs hover:bg-white/10"
+                        aria-label="Delete post"
+                      >
+                        <Trash2 className="h-3.5 w-3.5" />
+                      </button>
+                    </div>
+                  </div>
+                ) : null}
+              </div>
+            );
+          })}
+          {!shown.length ? (
+            <div className="text-xs text-zinc-500">
+              {day ? "Nothing planned for this day." : "No posts yet. Add the current design to start a plan."}
+            </div>
+          ) : null}
+        </div>
+      ) : null}
+
+      <button
+        onClick={onExport}
+        disabled={!ready || exporting}
+        className="mt-3 inline-flex w-full items-center justify-center gap-2 rounded-2xl border border-white/10 bg-white/5 px-3 py-2 text-sm hover:bg-white/10 disabled:opacity-40"
+      >
+        <Download className="h-4 w-4" /> Export {ready} ready post{ready === 1 ? "" : "s"} as ZIP
+      </button>
+      {library.error ? <div className="mt-2 text-xs text-amber-300">{library.error}</div> : null}
+    </div>
+  );
+}
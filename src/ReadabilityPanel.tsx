@@ -0,0 +1,78 @@
+import React, { useState } from "react";
+import { Contrast, Wand2 } from "lucide-react";
+import { CONTRAST_TARGETS, ReadabilityFix } from "./readability";
+import { useReadability } from "./useReadability";
+
+// Contrast of each text layer against the photo, and a one-click fix that
+// picks the least dim, shadow and panel that reach the target.
+export function ReadabilityPanel({
+  readability,
+  onApply,
+}: {
+  readability: ReturnType<typeof useReadability>;
+  onApply: (fix: ReadabilityFix) => void;
+}) {
+  const [note, setNote] = useState<string | null>(null);
+
+  function autoFix() {
+    const fix = readability.suggest();
+    if (!fix) return;
+    onApply(fix);
+    setNote(fix.passes ? null : "The photo is too busy to reach the target; this is the most readable option.");
+  }
+
+  return (
+    <div className="rounded-2xl border border-white/10 bg-white/5 p-3">
+      <div className="mb-2 flex items-center gap-2 text-sm font-semibold">
+        <Contrast className="h-4 w-4" /> Readability
+        <select
+          className="ml-auto rounded-xl border border-white/10 bg-zinc-950 px-2 py-1 text-xs font-normal"
+          value={readability.target}
+          onChange={(e) => readability.setTarget(Number(e.target.value))}
+          aria-label="Contrast target"
+        >
+          {CONTRAST_TARGETS.map((t) => (
+            <option key={t.ratio} value={t.ratio}>
+              {t.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {readability.layers.length ? (
+        <div className="space-y-1">
+          {readability.layers.map((l) => (
+            <div
+              key={l.layerId}
+              className="flex items-center gap-2 rounded-xl border border-white/10 bg-zinc-950 px-3 py-1.5 text-xs"
+            >
+              <span className="min-w-0 flex-1 truncate">{l.name}</span>
+              <span className="tabular-nums text-zinc-400">
+                {Number.isFinite(l.ratio) ? `${l.ratio.toFixed(1)}:1` : "—"}
+              </span>
+              <span
+                className={`rounded-lg px-1.5 py-0.5 font-semibold ${
+                  l.passes ? "bg-emerald-500/15 text-emerald-300" : "bg-rose-500/15 text-rose-300"
+                }`}
+              >
+                {l.passes ? "Pass" : "Fail"}
+              </span>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="text-xs text-zinc-400">Add some text to check it.</div>
+      )}
+
+      <button
+        onClick={autoFix}
+        disabled={!readability.layers.length}
+        className="mt-2 inline-flex w-full items-center justify-center gap-2 rounded-2xl border border-white/10 bg-white/5 px-3 py-2 text-sm hover:bg-white/10 disabled:opacity-40"
+      >
+        <Wand2 className="h-4 w-4" /> Auto readability
+      </button>
+      {note ? <div className="mt-2 text-xs text-amber-300">{note}</div> : null}
+      <div className="mt-2 text-xs text-zinc-400">Judged on the busiest 10% of the area behind each text.</div>
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+import React, { useRef } from "react";
+import { ALargeSmall, Bold, Highlighter, Italic, Palette } from "lucide-react";
+
+const SMALL_LINE = "[70%] ";
+const LINE_SIZE = /^\[\d{1,3}%\]\s?/;
+
+// Layer text with markup buttons. The buttons only type markup around the
+// selection (see richText.ts), so typing it by hand works just as well.
+export function RichTextArea({
+  value,
+  onChange,
+  className = "",
+}: {
+  value: string;
+  onChange: (text: string) => void;
+  className?: string;
+}) {
+  const ref = useRef<HTMLTextAreaElement | null>(null);
+
+  function edit(next: string, selStart: number, selEnd: number) {
+    onChange(next);
+    const el = ref.current;
+    requestAnimationFrame(() => {
+      el?.focus();
+      el?.setSelectionRange(selStart, selEnd);
+    });
+  }
+
+  function wrap(open: string, close: string) {
+    const el = ref.current;
+    if (!el) return;
+    const { selectionStart: a, selectionEnd: b } = el;
+    edit(value.slice(0, a) + open + value.slice(a, b) + close + value.slice(b), a + open.length, b + open.length);
+  }
+
+  // Toggles a smaller size on the line with the cursor
+  function toggleLineSize() {
+    const el = ref.current;
+    if (!el) return;
+    const start = value.lastIndexOf("\n", el.selectionStart - 1) + 1;
+    const line = value.slice(start);
+    const current = LINE_SIZE.exec(line);
+    const delta = current ? -current[0].length : SMALL_LINE.length;
+    const next = value.slice(0, start) + (current ? line.slice(current[0].length) : SMALL_LINE + line);
+    edit(next, Math.max(start, el.selectionStart + delta), Math.max(start, el.selectionEnd + delta));
+  }
+
+  const tools = [
+    { title: "Bold (**text**)", icon: <Bold className="h-3.5 w-3.5" />, run: () => wrap("**", "**") },
+    { title: "Italic (_text_)", icon: <Italic className="h-3.5 w-3.5" />, run: () => wrap("_", "_") },
+    { title: "Highlight (==text==)", icon: <Highlighter className="h-3.5 w-3.5" />, run: () => wrap("==", "==") },
+    { title: "Brand accent color ({text})", icon: <Palette className="h-3.5 w-3.5" />, run: () => wrap("{", "}") },
+    { title: "Smaller line ([70%] at the line start)", icon: <ALargeSmall className="h-3.5 w-3.5" />, run: toggleLineSize },
+  ];
+
+  return (
+    <div className={className}>
+      <div className="mb-1 flex items-center gap-1">
+        {tools.map((tool) => (
+          <button
+            key={tool.title}
+            type="button"
+            title={tool.title}
+            // Keep the textarea's selection
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={tool.run}
+            className="grid h-7 w-7 place-items-center rounded-lg border border-white/10 bg-white/5 hover:bg-white/10"
+          >
+            {tool.icon}
+          </button>
+        ))}
+      </div>
+      <textarea
+        ref={ref}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        rows={3}
+        dir="auto"
+        className="w-full resize-none rounded-2xl border border-white/10 bg-zinc-950 px-3 py-2 text-sm"
+      />
+    </div>
+  );
+}
@@ -0,0 +1,299 @@
+import React, { CSSProperties, useLayoutEffect, useMemo, useRef } from "react";
+import { Image as ImageIcon } from "lucide-react";
+import { Design, ImageCrop, MIN_BOX_HEIGHT, TextLayer, getSize } from "./design";
+import { Placement, effectiveAnchor, placeImage, stageToImage } from "./crop";
+import { useBrand } from "./brand";
+import { LayerFrame, designAt, layerAt } from "./animation";
+import { LayerLayout, RenderExtras, TextIssue, drawDesign, findTextIssues, layoutDesign } from "./render";
+import { useRenderHost } from "./stageCanvas";
+
+// The post at full stage size, drawn by the canvas renderer like every
+// export. The preview scales it down with a transform; the editor adds
+// boxes and handles on top, which are never part of the drawing.
+
+const MIN_LAYER_WIDTH = 160;
+
+// Present only on the interactive preview: layers become draggable, the
+// selected one gets resize/rotate handles and the background can be panned.
+export type StageEditor = {
+  scale: number; // preview pixels per stage pixel
+  selectedId: string | null;
+  onSelect: (id: string | null) => void;
+  onChange: (id: string, patch: Partial<TextLayer>) => void;
+  focalMode: boolean; // clicking the background sets the focal point instead of panning
+  onCropChange: (patch: Partial<ImageCrop>) => void;
+  onIssues: (issues: TextIssue[]) => void; // after every draw
+};
+
+export function Stage({
+  design,
+  style,
+  pageLabel,
+  time,
+  overlay,
+  scale,
+  editor,
+}: {
+  design: Design;
+  style?: CSSProperties;
+  scale?: number; // preview pixels per stage pixel, for previews without an editor
+  editor?: StageEditor;
+} & Pick<RenderExtras, "pageLabel" | "time" | "overlay">) {
+  const brand = useBrand();
+  const { host, fontsLoaded } = useRenderHost(design, brand);
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const size = getSize(design.sizeId);
+  // Measured again once fonts have loaded, and when the size's profile
+  // changes (user profiles load after the first render)
+  const layouts = useMemo(() => layoutDesign(design, brand), [design, brand, size, fontsLoaded]);
+  const image = design.image;
+  const crop = time === undefined ? design.crop : designAt(design, time).crop;
+  const placement =
+    image && image.width && image.height
+      ? placeImage(crop, design.bgFit, { w: image.width, h: image.height }, size)
+      : null;
+  const pan = useRef<{ x: number; y: number; start: Placement } | null>(null);
+  // Only as many pixels as the screen shows
+  const shownScale = editor?.scale ?? scale;
+  const pixelRatio = shownScale ? Math.min(1, shownScale * window.devicePixelRatio) : 1;
+
+  const placeholders = !!editor;
+  const onIssues = editor?.onIssues;
+
+  // Redraw only when something drawn changes, not on every render of the editor
+  useLayoutEffect(() => {
+    const ctx = canvasRef.current!.getContext("2d")!;
+    ctx.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0);
+    ctx.clearRect(0, 0, size.w, size.h);
+    drawDesign(ctx, design, host, { pageLabel, time, overlay, placeholders });
+    onIssues?.(findTextIssues(layouts, size));
+  }, [design, host, layouts, size, pixelRatio, pageLabel, time, overlay, placeholders, onIssues]);
+
+  function onBackgroundDown(e: React.PointerEvent<HTMLDivElement>) {
+    if (!editor) return;
+    editor.onSelect(null);
+    // Framing is edited on the still frame, not mid-animation
+    if (!placement || time !== undefined) return;
+    if (editor.focalMode) {
+      const rect = e.currentTarget.getBoundingClientRect();
+      const x = (e.clientX - rect.left) / editor.scale;
+      const y = (e.clientY - rect.top) / editor.scale;
+      editor.onCropChange({ ...stageToImage(placement, x, y), anchorX: x / size.w, anchorY: y / size.h });
+      return;
+    }
+    e.currentTarget.setPointerCapture(e.pointerId);
+    pan.current = { x: e.clientX, y: e.clientY, start: placement };
+  }
+
+  function onBackgroundMove(e: React.PointerEvent) {
+    const p = pan.current;
+    if (!editor || !p) return;
+    const dx = (e.clientX - p.x) / editor.scale;
+    const dy = (e.clientY - p.y) / editor.scale;
+    const wanted = effectiveAnchor({ ...p.start, left: p.start.left + dx, top: p.start.top + dy }, size);
+    // Store where the image really lands, so dragging past an edge has no dead zone on the way back
+    const landed = placeImage({ ...design.crop, ...wanted }, design.bgFit, { w: image!.width, h: image!.height }, size);
+    editor.onCropChange(effectiveAnchor(landed, size));
+  }
+
+  return (
+    <div className="relative h-full w-full" style={{ width: size.w, height: size.h, ...style }}>
+      <canvas
+        ref={canvasRef}
+        width={Math.round(size.w * pixelRatio)}
+        height={Math.round(size.h * pixelRatio)}
+        className="absolute inset-0"
+        style={{ width: size.w, height: size.h }}
+      />
+
+      {/* Background */}
+      <div
+        className="absolute inset-0"
+        style={{ cursor: editor && placement ? (editor.focalMode ? "crosshair" : "grab") : undefined }}
+        onPointerDown={onBackgroundDown}
+        onPointerMove={onBackgroundMove}
+        onPointerUp={() => (pan.current = null)}
+        onPointerCancel={() => (pan.current = null)}
+      >
+        {!image && editor ? (
+          <div className="pointer-events-none absolute inset-0 grid place-items-center">
+            <div className="text-center">
+              <div className="mx-auto mb-3 grid h-12 w-12 place-items-center rounded-2xl bg-white/10">
+                <ImageIcon className="h-6 w-6" />
+              </div>
+              <div className="text-sm font-semibold">Upload an image to start</div>
+              <div className="mt-1 text-xs text-zinc-400">Drop or paste a JPG/PNG/WebP here</div>
+            </div>
+          </div>
+        ) : null}
+
+        {/* Focal point marker */}
+        {editor?.focalMode && placement ? (
+          <div
+            className="pointer-events-none absolute rounded-full border-white bg-sky-400/60"
+            style={{
+              left: placement.left + placement.originX,
+              top: placement.top + placement.originY,
+              width: 28 / editor.scale,
+              height: 28 / editor.scale,
+              margin: -14 / editor.scale,
+              borderWidth: 3 / editor.scale,
+            }}
+          />
+        ) : null}
+      </div>
+
+      {/* Layer boxes, back to front */}
+      {editor
+        ? layouts.map((layout) => (
+            <LayerBox
+              key={layout.layer.id}
+              layout={layout}
+              frame={time === undefined ? undefined : layerAt(layout.layer, time)}
+              editor={editor}
+            />
+          ))
+        : null}
+    </div>
+  );
+}
+
+type DragMode = "move" | "left" | "right" | "height" | "rotate";
+
+// An invisible box over a drawn layer that takes the drags
+function LayerBox({ layout, frame, editor }: { layout: LayerLayout; frame?: LayerFrame; editor: StageEditor }) {
+  const { layer, block } = layout;
+  const blockRef = useRef<HTMLDivElement | null>(null);
+  const drag = useRef<{ mode: DragMode; x: number; y: number; start: TextLayer; cx: number; cy: number } | null>(
+    null
+  );
+  const selected = editor.selectedId === layer.id;
+
+  function startDrag(e: React.PointerEvent, mode: DragMode) {
+    e.stopPropagation();
+    e.preventDefault();
+    editor.onSelect(layer.id);
+    (e.target as HTMLElement).setPointerCapture(e.pointerId);
+    const box = blockRef.current!.getBoundingClientRect();
+    drag.current = {
+      mode,
+      x: e.clientX,
+      y: e.clientY,
+      start: layer,
+      cx: box.left + box.width / 2,
+      cy: box.top + box.height / 2,
+    };
+  }
+
+  function onDrag(e: React.PointerEvent) {
+    const d = drag.current;
+    if (!d) return;
+    // Pointer movement in stage pixels (undo the 360px preview scale)
+    const dx = (e.clientX - d.x) / editor.scale;
+    const dy = (e.clientY - d.y) / editor.scale;
+    // Movement along the layer's own (rotated) horizontal axis
+    const rad = (d.start.rotation * Math.PI) / 180;
+    const along = dx * Math.cos(rad) + dy * Math.sin(rad);
+    const across = dy * Math.cos(rad) - dx * Math.sin(rad);
+
+    if (d.mode === "move") {
+      editor.onChange(layer.id, {
+        x: Math.round(d.start.x + dx),
+        y: Math.round(d.start.anchor === "top" ? d.start.y + dy : d.start.y - dy),
+      });
+    } else if (d.mode === "right") {
+      editor.onChange(layer.id, { width: Math.round(Math.max(MIN_LAYER_WIDTH, d.start.width + along)) });
+    } else if (d.mode === "left") {
+      const width = Math.round(Math.max(MIN_LAYER_WIDTH, d.start.width - along));
+      editor.onChange(layer.id, { width, x: d.start.x + d.start.width - width });
+    } else if (d.mode === "height") {
+      // The handle sits on the free edge, away from the anchor
+      const grow = d.start.anchor === "top" ? across : -across;
+      editor.onChange(layer.id, { boxHeight: Math.round(Math.max(MIN_BOX_HEIGHT, d.start.boxHeight + grow)) });
+    } else {
+      let deg = (Math.atan2(e.clientY - d.cy, e.clientX - d.cx) * 180) / Math.PI + 90;
+      if (deg > 180) deg -= 360;
+      // Snap back to level when close
+      editor.onChange(layer.id, { rotation: Math.abs(deg) < 3 ? 0 : Math.round(deg) });
+    }
+  }
+
+  function endDrag() {
+    drag.current = null;
+  }
+
+  const handle = 14 / editor.scale;
+  const outline = 2 / editor.scale;
+
+  return (
+    <div
+      ref={blockRef}
+      className="absolute"
+      style={{
+        left: block.left,
+        top: block.top,
+        width: block.width,
+        height: block.height,
+        transform:
+          [frame?.offsetY ? `translateY(${frame.offsetY}px)` : "", layer.rotation ? `rotate(${layer.rotation}deg)` : ""]
+            .join(" ")
+            .trim() || undefined,
+        cursor: "move",
+        touchAction: "none",
+        outline: selected
+          ? `${outline}px solid rgba(56,189,248,0.9)`
+          : layout.empty || layer.autoFit
+          ? `${outline}px dashed rgba(255,255,255,0.4)`
+          : undefined,
+      }}
+      onPointerDown={(e) => startDrag(e, "move")}
+      onPointerMove={onDrag}
+      onPointerUp={endDrag}
+      onPointerCancel={endDrag}
+    >
+      {selected ? (
+        <>
+          {(["left", "right"] as const).map((side) => (
+            <div
+              key={side}
+              className="absolute top-1/2 rounded-full bg-sky-400"
+              style={{
+                [side]: -handle / 2,
+                width: handle,
+                height: handle * 2.5,
+                marginTop: -handle * 1.25,
+                cursor: "ew-resize",
+              }}
+              onPointerDown={(e) => startDrag(e, side)}
+            />
+          ))}
+          {layer.autoFit ? (
+            <div
+              className="absolute left-1/2 rounded-full bg-sky-400"
+              style={{
+                [layer.anchor === "top" ? "bottom" : "top"]: -handle / 2,
+                width: handle * 2.5,
+                height: handle,
+                marginLeft: -handle * 1.25,
+                cursor: "ns-resize",
+              }}
+              onPointerDown={(e) => startDrag(e, "height")}
+            />
+          ) : null}
+          <div
+            className="absolute left-1/2 rounded-full border-sky-400 bg-white"
+            style={{
+              top: -handle * 3,
+              width: handle * 1.4,
+              height: handle * 1.4,
+              marginLeft: -handle * 0.7,
+              borderWidth: outline,
+              cursor: "grab",
+            }}
+            onPointerDown={(e) => startDrag(e, "rotate")}
+          />
+        </>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,275 @@
+import React, { useState } from "react";
+import { Check, Copy, RefreshCw, Settings2, Sparkles, Wand2 } from "lucide-react";
+import { Design, getSize } from "./design";
+import { BrandKit } from "./brand";
+import { localeName } from "./locales";
+import { layoutLayer } from "./render";
+import { plainText } from "./richText";
+import {
+  SUGGEST_KINDS,
+  SUGGEST_LENGTHS,
+  SUGGEST_TONES,
+  SuggestError,
+  SuggestKind,
+  SuggestLength,
+  SuggestSettings,
+  SuggestTone,
+  fitsLayout,
+  lineLimits,
+  suggestText,
+} from "./suggest";
+import { useSuggestSettings } from "./useSuggestSettings";
+
+// Asked for; fewer are shown when some don't fit the layer
+const CANDIDATES = 6;
+
+type Result = { candidates: string[]; source: string; fallback: string | null; dropped: number; forLayer: boolean };
+
+// Ideas for the layer text, captions and hashtags, from a model server or
+// the offline templates
+export function SuggestPanel({
+  design,
+  brand,
+  selectedLayerId,
+  onApply,
+  library,
+}: {
+  design: Design;
+  brand: BrandKit;
+  selectedLayerId: string | null;
+  onApply: (layerId: string, text: string) => void;
+  library: ReturnType<typeof useSuggestSettings>;
+}) {
+  const [kind, setKind] = useState<SuggestKind>("question");
+  const [layerId, setLayerId] = useState<string | null>(null);
+  const [topic, setTopic] = useState("");
+  const [tone, setTone] = useState<SuggestTone>("friendly");
+  const [length, setLength] = useState<SuggestLength>("medium");
+  const [busy, setBusy] = useState(false);
+  const [result, setResult] = useState<Result | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState<string | null>(null);
+  const [draft, setDraft] = useState<SuggestSettings | null>(null);
+
+  const forLayer = kind === "question" || kind === "cta";
+  // The layer picked here, else the selected one, else the default for the kind
+  const layer =
+    design.layers.find((l) => l.id === (layerId ?? selectedLayerId)) ??
+    design.layers.find((l) => l.id === (kind === "cta" ? "bottom" : "top")) ??
+    design.layers[0];
+
+  async function run(rewrite: boolean) {
+    setBusy(true);
+    setError(null);
+    try {
+      const frame = getSize(design.sizeId);
+      const limits = forLayer && layer ? lineLimits(layoutLayer(layer, brand, frame)) : null;
+      const res = await suggestText(library.settings, {
+        kind,
+        tone,
+        length,
+        topic: topic.trim(),
+        text: rewrite && layer ? plainText(layer.text) : "",
+        language: localeName(design.locales[0]),
+        limits,
+        count: CANDIDATES,
+      });
+      const fitting =
+        layer && limits
+          ? res.candidates.filter((text) => fitsLayout(layoutLayer({ ...layer, text }, brand, frame), limits))
+          : res.candidates;
+      setResult({ ...res, candidates: fitting, dropped: res.candidates.length - fitting.length, forLayer });
+    } catch (err) {
+      if (!(err instanceof SuggestError)) throw err;
+      setError(err.message);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function copy(text: string) {
+    await navigator.clipboard.writeText(text);
+    setCopied(text);
+    setTimeout(() => setCopied(null), 2000);
+  }
+
+  return (
+    <div className="rounded-2xl border border-white/10 bg-white/5 p-3" data-native-undo>
+      <div className="mb-2 flex items-center gap-2 text-sm font-semibold">
+        <Sparkles className="h-4 w-4" /> Text ideas
+        <button
+          onClick={() => setDraft(draft ? null : { ...library.settings })}
+          className="ml-auto inline-flex items-center gap-1 rounded-xl border border-white/10 bg-white/5 px-2 py-1 text-xs font-normal hover:bg-white/10"
+          title="Connect a model server"
+        >
+          <Settings2 className="h-3.5 w-3.5" /> {library.settings.enabled ? library.settings.model : "Offline"}
+        </button>
+      </div>
+
+      {draft ? (
+        <div className="mb-2 space-y-2 rounded-2xl border border-white/10 bg-zinc-950 p-3 text-sm">
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={draft.enabled}
+              onChange={(e) => setDraft({ ...draft, enabled: e.target.checked })}
+            />
+            Use an OpenAI-compatible endpoint
+          </label>
+          {(
+            [
+              ["endpoint", "Endpoint", "text"],
+              ["model", "Model", "text"],
+              ["apiKey", "API key", "password"],
+            ] as const
+          ).map(([key, label, type]) => (
+            <label key={key} className="flex items-center gap-2">
+              <span className="w-16 shrink-0 text-xs text-zinc-400">{label}</span>
+              <input
+                type={type}
+                value={draft[key]}
+                onChange={(e) => setDraft({ ...draft, [key]: e.target.value })}
+                placeholder={key === "apiKey" ? "Not needed for local servers" : undefined}
+                className="min-w-0 flex-1 rounded-xl border border-white/10 bg-zinc-950 px-2 py-1 text-sm"
+              />
+            </label>
+          ))}
+          <div className="flex items-center gap-1">
+            <span className="mr-auto text-xs text-zinc-500">Kept in this browser only.</span>
+            <button
+              onClick={() => {
+                library.save(draft);
+                setDraft(null);
+              }}
+              className="inline-flex items-center gap-1 rounded-xl border border-white/10 bg-white/5 px-2 py-1 text-xs hover:bg-white/10"
+            >
+              Save
+            </button>
+          </div>
+          {library.error ? <div className="text-xs text-amber-300">{library.error}</div> : null}
+        </div>
+      ) : null}
+
+      <div className="grid grid-cols-2 gap-2">
+        <select
+          className="rounded-2xl border border-white/10 bg-zinc-950 px-3 py-2 text-sm"
+          value={kind}
+          onChange={(e) => setKind(e.target.value as SuggestKind)}
+          aria-label="What to suggest"
+        >
+          {Object.entries(SUGGEST_KINDS).map(([id, label]) => (
+            <option key={id} value={id}>
+              {label}
+            </option>
+          ))}
+        </select>
+        {forLayer ? (
+          <select
+            className="rounded-2xl border border-white/10 bg-zinc-950 px-3 py-2 text-sm"
+            value={layer?.id ?? ""}
+            onChange={(e) => setLayerId(e.target.value)}
+            aria-label="For layer"
+          >
+            {design.layers.map((l) => (
+              <option key={l.id} value={l.id}>
+                For {l.name}
+              </option>
+            ))}
+          </select>
+        ) : (
+          <div />
+        )}
+        <select
+          className="rounded-2xl border border-white/10 bg-zinc-950 px-3 py-2 text-sm capitalize"
+          value={tone}
+          onChange={(e) => setTone(e.target.value as SuggestTone)}
+          aria-label="Tone"
+        >
+          {SUGGEST_TONES.map((t) => (
+            <option key={t} value={t}>
+              {t}
+            </option>
+          ))}
+        </select>
+        <select
+          className="rounded-2xl border border-white/10 bg-zinc-950 px-3 py-2 text-sm capitalize"
+          value={length}
+          onChange={(e) => setLength(e.target.value as SuggestLength)}
+          aria-label="Length"
+        >
+          {SUGGEST_LENGTHS.map((l) => (
+            <option key={l} value={l}>
+              {l}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <input
+        value={topic}
+        onChange={(e) => setTopic(e.target.value)}
+        placeholder="What is the post about?"
+        className="mt-2 w-full rounded-2xl border border-white/10 bg-zinc-950 px-3 py-2 text-sm"
+      />
+
+      <div className="mt-2 flex gap-2">
+        <button
+          onClick={() => run(false)}
+          disabled={busy}
+          className="inline-flex flex-1 items-center justify-center gap-2 rounded-2xl border border-white/10 bg-white/5 px-3 py-2 text-sm hover:bg-white/10 disabled:opacity-40"
+        >
+          {busy ? <RefreshCw className="h-4 w-4 animate-spin" /> : <Sparkles className="h-4 w-4" />} Suggest
+        </button>
+        {forLayer ? (
+          <button
+            onClick={() => run(true)}
+            disabled={busy || !layer?.text.trim()}
+            className="inline-flex flex-1 items-center justify-center gap-2 rounded-2xl border border-white/10 bg-white/5 px-3 py-2 text-sm hover:bg-white/10 disabled:opacity-40"
+            title={`Rewrite the text of ${layer?.name ?? "the layer"}`}
+          >
+            <Wand2 className="h-4 w-4" /> Rewrite
+          </button>
+        ) : null}
+      </div>
+
+      {error ? <div className="mt-2 text-xs text-amber-300">{error}</div> : null}
+
+      {result ? (
+        <div className="mt-3 space-y-2">
+          {result.fallback ? (
+            <div className="text-xs text-amber-300">{result.fallback} Showing offline ideas instead.</div>
+          ) : null}
+          {result.candidates.map((text) => (
+            <div key={text} className="flex items-start gap-2 rounded-2xl border border-white/10 bg-zinc-950 px-3 py-2">
+              <div className="min-w-0 flex-1 whitespace-pre-line text-sm" dir="auto">
+                {text}
+              </div>
+              {result.forLayer ? (
+                <button
+                  onClick={() => layer && onApply(layer.id, text)}
+                  className="inline-flex shrink-0 items-center gap-1 rounded-xl border border-white/10 bg-white/5 px-2 py-1 text-xs hover:bg-white/10"
+                  title={`Use for ${layer?.name ?? "the layer"}`}
+                >
+                  Use
+                </button>
+              ) : (
+                <button
+                  onClick={() => copy(text)}
+                  className="inline-flex shrink-0 items-center gap-1 rounded-xl border border-white/10 bg-white/5 px-2 py-1 text-xs hover:bg-white/10"
+                  title="Copy to the clipboard"
+                >
+                  {copied === text ? <Check className="h-3.5 w-3.5" /> : <Copy className="h-3.5 w-3.5" />} Copy
+                </button>
+              )}
+            </div>
+          ))}
+          <div className="text-xs text-zinc-500">
+            From {result.source}
+            {result.dropped ? ` · ${result.dropped} more didn't fit ${layer?.name ?? "the layer"}` : ""}
+            {!result.candidates.length ? " · nothing usable; try another length or tone" : ""}
+          </div>
+        </div>
+      ) : null}
+    </div>
+  );
+}
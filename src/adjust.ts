@@ -0,0 +1,48 @@
+import { ImageAdjust } from "./design";
+
+// Photo adjustments
+// - Plain pixel math on RGBA data, so every browser (and the export) gets
+//   the same result; canvas filters are not supported everywhere
+// - Order: brightness, contrast, saturation, then grayscale or duotone
+// - Luma uses the Rec. 709 weights on the stored values, like CSS filters
+
+type Rgb = [number, number, number];
+
+export function isNeutralAdjust(a: ImageAdjust) {
+  return a.brightness === 1 && a.contrast === 1 && a.saturation === 1 && a.tone === "none" && a.blur === 0;
+}
+
+export function hexToRgb(hex: string): Rgb {
+  const n = parseInt(hex.replace("#", ""), 16) || 0;
+  return [(n >> 16) & 255, (n >> 8) & 255, n & 255];
+}
+
+// `duotone` is the dark and light color, used when the tone is "duotone"
+export function adjustPixels(data: Uint8ClampedArray, a: ImageAdjust, duotone: [Rgb, Rgb]) {
+  const [dark, light] = duotone;
+  for (let i = 0; i < data.length; i += 4) {
+    let r = data[i] * a.brightness;
+    let g = data[i + 1] * a.brightness;
+    let b = data[i + 2] * a.brightness;
+    r = (r - 128) * a.contrast + 128;
+    g = (g - 128) * a.contrast + 128;
+    b = (b - 128) * a.contrast + 128;
+    const luma = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+    if (a.tone === "none") {
+      r = luma + (r - luma) * a.saturation;
+      g = luma + (g - luma) * a.saturation;
+      b = luma + (b - luma) * a.saturation;
+    } else if (a.tone === "grayscale") {
+      r = g = b = luma;
+    } else {
+      const t = Math.min(1, Math.max(0, luma / 255));
+      r = dark[0] + (light[0] - dark[0]) * t;
+      g = dark[1] + (light[1] - dark[1]) * t;
+      b = dark[2] + (light[2] - dark[2]) * t;
+    }
+    // Uint8ClampedArray rounds and clamps on assignment
+    data[i] = r;
+    data[i + 1] = g;
+    data[i + 2] = b;
+  }
+}
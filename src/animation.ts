@@ -0,0 +1,58 @@
+import { Design, TextLayer, ZOOM_RANGE } from "./design";
+import { plainText } from "./richText";
+import { clamp } from "./utils";
+
+// Animation
+// - Pure functions of time: the stage renders any frame from the design and t
+// - Ken Burns is applied to the crop, so it respects the focal point
+// - Entrance effects only change how a layer is drawn, never its layout, so
+//   auto-fit and overflow checks see the final frame
+
+export type LayerFrame = {
+  opacity: number;
+  offsetY: number; // stage pixels, downwards
+  chars: number | null; // typewriter: characters shown; null = all
+};
+
+const SLIDE_DISTANCE = 80;
+
+const easeOut = (p: number) => 1 - (1 - p) ** 3;
+const easeInOut = (p: number) => 0.5 - Math.cos(Math.PI * p) / 2;
+
+export function isAnimated(design: Design) {
+  return design.animation.kenBurns || design.layers.some((l) => l.enter !== "none");
+}
+
+export function frameCount(design: Design) {
+  return Math.max(1, Math.round(design.animation.duration * design.animation.fps));
+}
+
+// The design as it looks at time t (seconds): only the crop moves
+export function designAt(design: Design, t: number): Design {
+  const a = design.animation;
+  if (!a.kenBurns) return design;
+  const p = easeInOut(clamp(t / a.duration, 0, 1));
+  const crop = design.crop;
+  return {
+    ...design,
+    crop: {
+      ...crop,
+      zoom: clamp(crop.zoom * (1 + (a.kenBurnsZoom - 1) * p), ZOOM_RANGE.min, ZOOM_RANGE.max),
+      anchorX: clamp(crop.anchorX + a.kenBurnsPanX * p, 0, 1),
+      anchorY: clamp(crop.anchorY + a.kenBurnsPanY * p, 0, 1),
+    },
+  };
+}
+
+export function layerAt(layer: TextLayer, t: number): LayerFrame {
+  if (layer.enter === "none") return { opacity: 1, offsetY: 0, chars: null };
+  const p = clamp((t - layer.enterAt) / layer.enterDuration, 0, 1);
+  switch (layer.enter) {
+    case "fade":
+      return { opacity: easeOut(p), offsetY: 0, chars: null };
+    case "slide-up":
+      return { opacity: easeOut(p), offsetY: (1 - easeOut(p)) * SLIDE_DISTANCE, chars: null };
+    case "typewriter":
+      return { opacity: 1, offsetY: 0, chars: Math.floor(Array.from(plainText(layer.text)).length * p) };
+  }
+}
@@ -0,0 +1,129 @@
+import { createContext, useContext } from "react";
+import { CustomFont, customFontIds, fontFamilyCss, readCustomFonts, registeredFonts } from "./fonts";
+import { clamp, isRecord, readEnum, readNumber, readString } from "./utils";
+
+// Brand kit
+// - Logo or text mark, palette and font pairing shared by every design
+// - Stored once per browser; shared as a `.tstw-brand.json` file, with the
+//   custom fonts it names
+
+export const BRAND_FORMAT = "tstw-brand";
+export const BRAND_VERSION = 1;
+export const BRAND_FILE_EXTENSION = ".tstw-brand.json";
+
+export type LogoPosition = "top-left" | "top-right" | "bottom-left" | "bottom-right";
+
+export type BrandKit = {
+  name: string;
+  logo: {
+    src: string | null; // SVG/PNG data URL; null = text mark
+    text: string;
+    position: LogoPosition;
+    size: number; // px height (text mark: font size)
+    opacity: number;
+  };
+  palette: {
+    text: string;
+    accent: string;
+    panel: string;
+  };
+  fonts: {
+    heading: string; // FONT_STACKS key or custom font id
+    body: string;
+  };
+};
+
+export type PaletteColor = keyof BrandKit["palette"];
+export type FontRole = keyof BrandKit["fonts"];
+
+export const LOGO_MARGIN = { x: 56, y: 42 };
+
+export const defaultBrandKit: BrandKit = {
+  name: "TSTW",
+  logo: { src: null, text: "T.S.T.W", position: "bottom-right", size: 28, opacity: 0.7 },
+  palette: { text: "#ffffff", accent: "#facc15", panel: "#000000" },
+  fonts: { heading: "system", body: "system" },
+};
+
+export const BrandContext = createContext<BrandKit>(defaultBrandKit);
+
+export function useBrand() {
+  return useContext(BrandContext);
+}
+
+export function fontStack(brand: BrandKit, role: FontRole) {
+  return fontFamilyCss(brand.fonts[role]);
+}
+
+// "#rrggbb" + alpha → rgba(); anything else is passed through
+export function withAlpha(color: string, alpha: number) {
+  const m = /^#([0-9a-f]{6})$/i.exec(color);
+  if (!m) return color;
+  const n = parseInt(m[1], 16);
+  return `rgba(${(n >> 16) & 255},${(n >> 8) & 255},${n & 255},${alpha})`;
+}
+
+export class BrandFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BrandFileError";
+  }
+}
+
+export function brandFontIds(kit: BrandKit) {
+  return customFontIds([kit.fonts.heading, kit.fonts.body]);
+}
+
+export function serializeBrandKit(kit: BrandKit) {
+  const fonts = registeredFonts(brandFontIds(kit));
+  return JSON.stringify(
+    { format: BRAND_FORMAT, version: BRAND_VERSION, brand: kit, ...(fonts.length ? { fonts } : {}) },
+    null,
+    2
+  );
+}
+
+// The kit and the fonts the file carries, for the host to register
+export function readBrandFile(json: string): { brand: BrandKit; fonts: CustomFont[] } {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new BrandFileError("File is not valid JSON.");
+  }
+  if (!isRecord(data) || data.format !== BRAND_FORMAT || !isRecord(data.brand)) {
+    throw new BrandFileError("Not a TSTW brand kit file.");
+  }
+  if (typeof data.version !== "number" || data.version > BRAND_VERSION) {
+    throw new BrandFileError("Brand kit file is from a newer version of the builder.");
+  }
+  return { brand: validateBrandKit(data.brand), fonts: readCustomFonts(data.fonts) };
+}
+
+export function validateBrandKit(raw: Record<string, unknown>): BrandKit {
+  const d = defaultBrandKit;
+  const logo = isRecord(raw.logo) ? raw.logo : {};
+  const palette = isRecord(raw.palette) ? raw.palette : {};
+  const fonts = isRecord(raw.fonts) ? raw.fonts : {};
+  const color = (v: unknown, fallback: string) => (typeof v === "string" && /^#[0-9a-f]{6}$/i.test(v) ? v : fallback);
+  const src = readString(logo.src, "");
+  return {
+    name: readString(raw.name, d.name),
+    logo: {
+      src: /^data:image\/(svg\+xml|png|webp|jpeg)[;,]/.test(src) ? src : null,
+      text: readString(logo.text, d.logo.text),
+      position: readEnum(logo.position, ["top-left", "top-right", "bottom-left", "bottom-right"], d.logo.position),
+      size: clamp(readNumber(logo.size, d.logo.size), 12, 240),
+      opacity: clamp(readNumber(logo.opacity, d.logo.opacity), 0, 1),
+    },
+    palette: {
+      text: color(palette.text, d.palette.text),
+      accent: color(palette.accent, d.palette.accent),
+      panel: color(palette.panel, d.palette.panel),
+    },
+    fonts: {
+      heading: readString(fonts.heading, d.fonts.heading),
+      body: readString(fonts.body, d.fonts.body),
+    },
+  };
+}
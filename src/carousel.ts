@@ -0,0 +1,60 @@
+import { Design, Slide } from "./design";
+import { makeId } from "./utils";
+
+// Carousel helpers
+// - Slides share every setting of the design and only override text
+// - Long text (usually the bottom layer) can be split across slides automatically
+
+export type SlideRender = { design: Design; pageLabel?: string };
+
+export function createSlide(text: Record<string, string> = {}): Slide {
+  return { id: makeId(), text, translations: {} };
+}
+
+export function slideCount(design: Design) {
+  return design.carousel.enabled ? Math.max(1, design.carousel.slides.length) : 1;
+}
+
+// The design as it looks on one slide, with inherited text filled in
+export function resolveSlide(design: Design, index: number): SlideRender {
+  const { carousel } = design;
+  if (!carousel.enabled || !carousel.slides.length) return { design };
+  const slide = carousel.slides[Math.min(index, carousel.slides.length - 1)];
+  const total = carousel.slides.length;
+  return {
+    design: {
+      ...design,
+      layers: design.layers.map((layer) =>
+        slide.text[layer.id] === undefined ? layer : { ...layer, text: slide.text[layer.id] }
+      ),
+    },
+    pageLabel: carousel.showIndicator && total > 1 ? `${index + 1}/${total}` : undefined,
+  };
+}
+
+export function resolveAllSlides(design: Design): SlideRender[] {
+  return Array.from({ length: slideCount(design) }, (_, i) => resolveSlide(design, i));
+}
+
+// Blank lines mark explicit slide breaks; otherwise every `linesPerSlide` lines start a new slide.
+export function splitText(text: string, linesPerSlide: number): string[] {
+  const paragraphs = text
+    .split(/\n\s*\n/)
+    .map((p) => p.trim())
+    .filter(Boolean);
+  if (paragraphs.length > 1) return paragraphs;
+
+  const lines = text
+    .split("\n")
+    .map((l) => l.trim())
+    .filter(Boolean);
+  const chunks: string[] = [];
+  for (let i = 0; i < lines.length; i += Math.max(1, linesPerSlide)) {
+    chunks.push(lines.slice(i, i + linesPerSlide).join("\n"));
+  }
+  return chunks;
+}
+
+export function slidesFromLayerText(layerId: string, text: string, linesPerSlide: number): Slide[] {
+  return splitText(text, linesPerSlide).map((chunk) => createSlide({ [layerId]: chunk }));
+}
@@ -0,0 +1,52 @@
+import assert from "node:assert/strict";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, test } from "node:test";
+import { DESIGN_FORMAT, DESIGN_VERSION, createDesign } from "./design";
+import { defaultBrandKit } from "./brand";
+import { builtInPresets } from "./presets";
+import { Options, readPosts } from "./cli";
+
+const dir = await mkdtemp(join(tmpdir(), "tstw-cli-"));
+after(() => rm(dir, { recursive: true, force: true }));
+
+const options: Options = {
+  image: { src: "data:image/png;base64,", name: "photo.png", size: 0, width: 1080, height: 1920 },
+  base: createDesign(),
+  imagesDir: null,
+  outDir: dir,
+  format: null,
+  sizeId: null,
+  scale: null,
+  brand: defaultBrandKit,
+  presets: builtInPresets,
+};
+
+async function inputFile(name: string, text: string) {
+  const path = join(dir, name);
+  await writeFile(path, text);
+  return path;
+}
+
+const designFile = { format: DESIGN_FORMAT, version: DESIGN_VERSION, design: createDesign("chapter1") };
+
+test("a compact design file saved as .json is read as a design", async () => {
+  const posts = await readPosts(await inputFile("compact.json", JSON.stringify(designFile)), options);
+  assert.equal(posts.length, 1);
+  assert.ok("design" in posts[0]);
+  assert.equal(posts[0].design.presetId, "chapter1");
+});
+
+test("a pretty-printed design file saved as .json is read as a design", async () => {
+  const posts = await readPosts(await inputFile("pretty.json", JSON.stringify(designFile, null, 2)), options);
+  assert.ok("design" in posts[0]);
+});
+
+test("a JSON array is read as a sheet of rows", async () => {
+  const rows = [{ image: "one.jpg" }, { top: "No image here" }];
+  const posts = await readPosts(await inputFile("rows.json", JSON.stringify(rows)), options);
+  assert.equal(posts.length, 2);
+  assert.ok("error" in posts[0]); // one.jpg doesn't exist
+  assert.deepEqual(posts[1], { where: `${join(dir, "rows.json")}, row 2`, error: "No image filename" });
+});
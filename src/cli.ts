@@ -0,0 +1,415 @@
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { basename, dirname, extname, isAbsolute, join, resolve } from "node:path";
+import { fileURLToPath } from "node:url";
+import { parseArgs } from "node:util";
+import { glob, isDynamicPattern } from "tinyglobby";
+import {
+  DESIGN_FILE_EXTENSION,
+  DESIGN_FORMAT,
+  Design,
+  DesignFileError,
+  DesignImage,
+  createDesign,
+  defaultCrop,
+  designFontIds,
+  getSize,
+  readDesignFile,
+} from "./design";
+import { BrandFileError, BrandKit, brandFontIds, defaultBrandKit, readBrandFile } from "./brand";
+import { CustomFont, missingFonts, registerFont } from "./fonts";
+import { Preset, PresetFileError, builtInPresets, parsePresetsFile } from "./presets";
+import { SheetError, findSize, parseSheet, rowDesign } from "./sheet";
+import { resolveAllSlides } from "./carousel";
+import { designForSize } from "./formats";
+import { encodeDesign, readDesignFileFromPng } from "./designPng";
+import { EXPORT_FORMATS, EncodeError, ExportFormat } from "./imageExport";
+import { canvasEncoder, imageSize, registerFontFile, renderDesign } from "./nodeCanvas";
+import { uniqueName } from "./zip";
+import { clamp, isRecord, readableFileSize, safeFileName } from "./utils";
+
+// Command-line renderer
+// - Renders design files, PNGs exported with their design, and batch sheets
+//   without a browser: same layout, safe zones, brand mark and checks
+// - Inputs may be globs; carousels are written as numbered images
+// - Custom fonts that files carry are used; ones they name without carrying
+//   are reported, and their text is drawn in the system font
+// - Overflowing or overlapping text and missing images are reported for each
+//   post and nothing is written for it; the exit code is 1 if any post
+//   failed, 2 for bad arguments
+
+const USAGE = `Usage: npm run render -- [options] <input>...
+
+Inputs are design files (${DESIGN_FILE_EXTENSION}), PNGs exported with their design,
+or batch sheets (.csv, .tsv, or .json rows). Globs are expanded.
+
+Options:
+  -i, --image <file>    photo for design files, instead of the one saved in them
+  -d, --design <file>   style for sheet rows (default: a new design)
+      --images <dir>    where sheet rows' images are (default: the sheet's folder)
+  -o, --out <dir>       output folder (default: the current folder)
+  -f, --format <type>   png, jpeg or webp (default: the design's)
+  -s, --size <size>     profile id, its label, or WxH (default: the design's)
+      --scale <n>       1, 2 or 3 pixels per canvas pixel (default: the design's)
+  -b, --brand <file>    brand kit file for the logo, palette and fonts
+  -p, --presets <file>  presets file whose presets sheet rows can name
+      --font <file>     font to draw with; <id>=<file> stands in for a custom
+                        font of the builder. May be repeated.
+  -h, --help            show this help
+`;
+
+const IMAGE_TYPES: Record<string, string> = {
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  png: "image/png",
+  webp: "image/webp",
+  gif: "image/gif",
+  avif: "image/avif",
+  bmp: "image/bmp",
+};
+
+const FORMAT_NAMES: Record<string, ExportFormat> = { png: "png", jpeg: "jpeg", jpg: "jpeg", webp: "webp" };
+
+// Bad arguments; nothing is rendered
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UsageError";
+  }
+}
+
+// A post, or an input, that can't be rendered; the others still are
+class InputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InputError";
+  }
+}
+
+export type Options = {
+  image: DesignImage | null;
+  base: Design;
+  imagesDir: string | null;
+  outDir: string;
+  format: ExportFormat | null;
+  sizeId: string | null;
+  scale: number | null;
+  brand: BrandKit;
+  presets: Preset[];
+};
+
+// What an input resolves to: posts to render, or why one can't be
+type Post = { where: string; design: Design } | { where: string; error: string };
+
+function isNotFound(err: unknown) {
+  return err instanceof Error && (err as NodeJS.ErrnoException).code === "ENOENT";
+}
+
+async function readInputFile(path: string) {
+  try {
+    return await readFile(path);
+  } catch (err) {
+    if (isNotFound(err)) throw new InputError("File not found");
+    throw err;
+  }
+}
+
+async function readPhoto(path: string, name = basename(path)): Promise<DesignImage> {
+  const type = IMAGE_TYPES[extname(path).slice(1).toLowerCase()];
+  if (!type) throw new InputError(`${path}: not a supported image. Use JPEG, PNG, WebP, GIF or AVIF.`);
+  let data: Buffer;
+  try {
+    data = await readFile(path);
+  } catch (err) {
+    if (isNotFound(err)) throw new InputError(`Missing image "${path}"`);
+    throw err;
+  }
+  const size = await imageSize(data).catch(() => null);
+  if (!size) throw new InputError(`${path}: the image could not be decoded`);
+  return { src: `data:${type};base64,${data.toString("base64")}`, name, size: data.length, ...size };
+}
+
+// The command-line overrides, on a design that is otherwise rendered as saved
+function withOverrides(design: Design, options: Options): Design {
+  return {
+    ...design,
+    exportFormat: options.format ?? design.exportFormat,
+    exportScale: options.scale ?? design.exportScale,
+  };
+}
+
+function designPosts(design: Design, where: string, options: Options): Post[] {
+  let post = options.sizeId && options.sizeId !== design.sizeId ? designForSize(design, options.sizeId) : design;
+  // Framing of the saved photo doesn't apply to another one
+  if (options.image) post = { ...post, image: options.image, crop: defaultCrop() };
+  if (!post.image) return [{ where, error: "The design has no photo; pass one with --image" }];
+  return [{ where, design: withOverrides(post, options) }];
+}
+
+// Rows are checked one by one, like the builder's batch mode
+async function sheetPosts(file: string, text: string, options: Options): Promise<Post[]> {
+  const posts: Post[] = [];
+  for (const row of parseSheet(basename(file), text)) {
+    const where = `${file}, row ${row.line}`;
+    if (!row.image) {
+      posts.push({ where, error: "No image filename" });
+      continue;
+    }
+    const resolved = rowDesign(options.base, row, options.presets);
+    if ("error" in resolved) {
+      posts.push({ where, error: resolved.error });
+      continue;
+    }
+    try {
+      const image = await readPhoto(resolve(options.imagesDir ?? dirname(file), row.image), row.name || row.image);
+      posts.push({ where, design: withOverrides({ ...resolved.design, image, crop: defaultCrop() }, options) });
+    } catch (err) {
+      if (!(err instanceof InputError)) throw err;
+      posts.push({ where, error: err.message });
+    }
+  }
+  return posts;
+}
+
+// A design file saved under another name, pretty-printed or not
+function isDesignJson(text: string) {
+  try {
+    const data: unknown = JSON.parse(text);
+    return isRecord(data) && data.format === DESIGN_FORMAT;
+  } catch {
+    return false;
+  }
+}
+
+// Fonts an --font option already stands in for are kept
+async function registerFileFonts(fonts: CustomFont[]) {
+  for (const font of fonts) await registerFont(font).catch(() => {});
+}
+
+function warnMissingFonts(where: string, ids: string[]) {
+  const missing = missingFonts(ids);
+  if (!missing.length) return;
+  console.warn(
+    `${where}: custom font(s) ${missing.join(", ")} not available, drawn in the system font; pass --font <id>=<file>`
+  );
+}
+
+export async function readPosts(file: string, options: Options): Promise<Post[]> {
+  const data = await readInputFile(file);
+  let read;
+  if (/\.png$/i.test(file)) {
+    read = readDesignFileFromPng(new Uint8Array(data));
+    if (!read) throw new InputError("This PNG has no design in it. Only PNG exports carry one.");
+  } else {
+    const text = data.toString("utf8");
+    if (!file.endsWith(DESIGN_FILE_EXTENSION) && !isDesignJson(text)) return sheetPosts(file, text, options);
+    read = readDesignFile(text);
+  }
+  await registerFileFonts(read.fonts);
+  warnMissingFonts(file, designFontIds(read.design));
+  return designPosts(read.design, file, options);
+}
+
+// Every slide is rendered and checked before any is written, so a post is
+// written whole or not at all. Returns the files written.
+async function writePost(design: Design, options: Options, taken: Set<string>) {
+  const { w, h } = getSize(design.sizeId);
+  const { ext } = EXPORT_FORMATS[design.exportFormat];
+  const slides = resolveAllSlides(design);
+  const numbered = slides.length > 1;
+  const baseName = `TSTW_${safeFileName(design.image?.name)}_${w}x${h}`;
+  const encoded: { name: string; data: Uint8Array; overCap: boolean }[] = [];
+  for (const [idx, slide] of slides.entries()) {
+    const { canvas, issues } = await renderDesign(
+      slide.design,
+      options.brand,
+      { pageLabel: slide.pageLabel },
+      design.exportScale
+    );
+    if (issues.length) {
+      const messages = issues.map((i) => i.message).join("; ");
+      throw new InputError(numbered ? `Slide ${idx + 1}: ${messages}` : messages);
+    }
+    // The photo and fonts are embedded in the first slide only
+    const { data, overCap } = await encodeDesign(canvasEncoder(canvas), design, { withFiles: idx === 0 });
+    encoded.push({ name: `${baseName}${numbered ? `_${String(idx + 1).padStart(2, "0")}` : ""}.${ext}`, data, overCap });
+  }
+  await mkdir(options.outDir, { recursive: true });
+  const written = [];
+  for (const { name, data, overCap } of encoded) {
+    const path = join(options.outDir, uniqueName(name, taken));
+    await writeFile(path, data);
+    written.push({ path, overCap });
+  }
+  return written;
+}
+
+async function readOptions(values: Record<string, string | boolean | string[] | undefined>): Promise<Options> {
+  const str = (key: string) => values[key] as string | undefined;
+
+  const format = str("format");
+  if (format && !FORMAT_NAMES[format.toLowerCase()]) throw new UsageError(`Unknown format "${format}"`);
+  const size = str("size");
+  const profile = size ? findSize(size) : undefined;
+  if (size && !profile) throw new UsageError(`Unknown size "${size}"`);
+  const scale = str("scale");
+  if (scale && !/^[123]$/.test(scale)) throw new UsageError(`Scale must be 1, 2 or 3, not "${scale}"`);
+
+  for (const font of (values.font as string[] | undefined) ?? []) {
+    const custom = /^([\w-]+)=(.+)$/.exec(font);
+    const path = custom ? custom[2] : font;
+    if (!(await registerFontFile(path, custom?.[1]))) {
+      throw new InputError(`--font ${path}: not a font file, or missing`);
+    }
+  }
+
+  // Errors name the option, as the files' own messages don't
+  async function optionFile<T>(key: string, parse: (text: string) => T) {
+    const path = str(key);
+    if (!path) return null;
+    try {
+      return parse((await readInputFile(path)).toString("utf8"));
+    } catch (err) {
+      if (!isKnownError(err)) throw err;
+      throw new InputError(`--${key} ${path}: ${err.message}`);
+    }
+  }
+
+  const image = str("image") ? await readPhoto(str("image")!) : null;
+  const design = await optionFile("design", readDesignFile);
+  const brand = await optionFile("brand", readBrandFile);
+  await registerFileFonts([...(design?.fonts ?? []), ...(brand?.fonts ?? [])]);
+  if (design) warnMissingFonts(`--design ${str("design")}`, designFontIds(design.design));
+  if (brand) warnMissingFonts(`--brand ${str("brand")}`, brandFontIds(brand.brand));
+  const base = design?.design ?? createDesign();
+  const presets = await optionFile("presets", parsePresetsFile);
+  return {
+    image,
+    base: profile ? { ...base, sizeId: profile.id } : base,
+    imagesDir: str("images") ?? null,
+    outDir: str("out") ?? ".",
+    format: format ? FORMAT_NAMES[format.toLowerCase()] : null,
+    sizeId: profile?.id ?? null,
+    scale: scale ? clamp(Number(scale), 1, 3) : null,
+    brand: brand?.brand ?? defaultBrandKit,
+    presets: [...builtInPresets, ...(presets ?? [])],
+  };
+}
+
+// Literal paths are kept as given, so a missing one is reported by name
+async function expandInputs(patterns: string[]) {
+  const files: string[] = [];
+  for (const pattern of patterns) {
+    if (!isDynamicPattern(pattern)) {
+      files.push(pattern);
+      continue;
+    }
+    const matched = await glob(pattern, { onlyFiles: true, expandDirectories: false, absolute: isAbsolute(pattern) });
+    if (!matched.length) throw new InputError(`${pattern}: no files match`);
+    files.push(...matched.sort());
+  }
+  return files;
+}
+
+function isKnownError(err: unknown): err is Error {
+  return [InputError, DesignFileError, BrandFileError, PresetFileError, SheetError, EncodeError].some(
+    (type) => err instanceof type
+  );
+}
+
+export async function main(args: string[]) {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args,
+      allowPositionals: true,
+      options: {
+        image: { type: "string", short: "i" },
+        design: { type: "string", short: "d" },
+        images: { type: "string" },
+        out: { type: "string", short: "o" },
+        format: { type: "string", short: "f" },
+        size: { type: "string", short: "s" },
+        scale: { type: "string" },
+        brand: { type: "string", short: "b" },
+        presets: { type: "string", short: "p" },
+        font: { type: "string", multiple: true },
+        help: { type: "boolean", short: "h" },
+      },
+    });
+  } catch (err) {
+    // Unknown options and missing values
+    if (!(err instanceof TypeError)) throw err;
+    console.error(`${err.message}\n\n${USAGE}`);
+    return 2;
+  }
+  if (parsed.values.help) {
+    console.log(USAGE);
+    return 0;
+  }
+  if (!parsed.positionals.length) {
+    console.error(USAGE);
+    return 2;
+  }
+
+  let options: Options;
+  let files: string[];
+  try {
+    options = await readOptions(parsed.values);
+    files = await expandInputs(parsed.positionals);
+  } catch (err) {
+    if (err instanceof UsageError) {
+      console.error(`${err.message}\n\n${USAGE}`);
+      return 2;
+    }
+    if (!isKnownError(err)) throw err;
+    console.error(err.message);
+    return 1;
+  }
+
+  const taken = new Set<string>();
+  let written = 0;
+  let failed = 0;
+  for (const file of files) {
+    let posts: Post[];
+    try {
+      posts = await readPosts(file, options);
+    } catch (err) {
+      if (!isKnownError(err)) throw err;
+      posts = [{ where: file, error: err.message }];
+    }
+    for (const post of posts) {
+      try {
+        if ("error" in post) throw new InputError(post.error);
+        for (const out of await writePost(post.design, options, taken)) {
+          console.log(`${post.where} → ${out.path}`);
+          if (out.overCap) {
+            console.warn(`${out.path}: still over the ${readableFileSize(post.design.maxFileSize)} cap`);
+          }
+          written++;
+        }
+      } catch (err) {
+        if (!isKnownError(err)) throw err;
+        console.error(`${post.where}: ${err.message}`);
+        failed++;
+      }
+    }
+  }
+
+  console.log(`${written} image${written === 1 ? "" : "s"} written${failed ? `, ${failed} post(s) failed` : ""}`);
+  return failed ? 1 : 0;
+}
+
+// Run as a script, not when imported by tests. Anything unexpected (an
+// unreadable file, a canvas failure) still ends with a message rather than a
+// stack trace.
+if (process.argv[1] && resolve(process.argv[1]) === fileURLToPath(import.meta.url)) {
+  main(process.argv.slice(2)).then(
+    (code) => {
+      process.exitCode = code;
+    },
+    (err) => {
+      console.error(err instanceof Error ? err.message : String(err));
+      process.exitCode = 1;
+    }
+  );
+}
@@ -0,0 +1,54 @@
+import { BgFit, ImageCrop } from "./design";
+
+// Background placement
+// - The focal point (a spot in the image, 0..1) is pinned to the anchor
+//   (a spot on the stage, 0..1), so a new canvas size re-crops around the subject
+// - "cover" never shows empty edges while the image is level
+
+export type Placement = {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+  rotation: number;
+  originX: number; // rotation origin inside the image box (= focal point)
+  originY: number;
+};
+
+type Size = { w: number; h: number };
+
+export function placeImage(crop: ImageCrop, fit: BgFit, image: Size, stage: Size): Placement {
+  const base = fit === "cover" ? Math.max(stage.w / image.w, stage.h / image.h) : Math.min(stage.w / image.w, stage.h / image.h);
+  const width = image.w * base * crop.zoom;
+  const height = image.h * base * crop.zoom;
+  const originX = crop.focalX * width;
+  const originY = crop.focalY * height;
+
+  let left = crop.anchorX * stage.w - originX;
+  let top = crop.anchorY * stage.h - originY;
+  if (fit === "cover" && crop.rotation === 0) {
+    left = Math.min(0, Math.max(stage.w - width, left));
+    top = Math.min(0, Math.max(stage.h - height, top));
+  }
+  return { left, top, width, height, rotation: crop.rotation, originX, originY };
+}
+
+// Where the focal point actually ended up, after clamping
+export function effectiveAnchor(p: Placement, stage: Size) {
+  return { anchorX: (p.left + p.originX) / stage.w, anchorY: (p.top + p.originY) / stage.h };
+}
+
+// Maps a stage point back into normalized image coordinates (undoing rotation)
+export function stageToImage(p: Placement, x: number, y: number) {
+  const ox = p.left + p.originX;
+  const oy = p.top + p.originY;
+  const rad = (-p.rotation * Math.PI) / 180;
+  const dx = x - ox;
+  const dy = y - oy;
+  const ix = p.originX + dx * Math.cos(rad) - dy * Math.sin(rad);
+  const iy = p.originY + dx * Math.sin(rad) + dy * Math.cos(rad);
+  return {
+    focalX: Math.min(1, Math.max(0, ix / p.width)),
+    focalY: Math.min(1, Math.max(0, iy / p.height)),
+  };
+}
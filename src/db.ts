@@ -0,0 +1,57 @@
+// Local persistence (IndexedDB)
+// - One database, one object store per kind of record, keyed by `id`
+// - Bump DB_VERSION and add the store name below to add a store
+
+const DB_NAME = "tstw-studio";
+const DB_VERSION = 6;
+const STORES = ["presets", "brand", "fonts", "profiles", "settings", "queue"] as const;
+
+export type StoreName = (typeof STORES)[number];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb() {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        for (const name of STORES) {
+          if (!req.result.objectStoreNames.contains(name)) req.result.createObjectStore(name, { keyPath: "id" });
+        }
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => {
+        dbPromise = null;
+        reject(req.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function run<T>(store: StoreName, mode: IDBTransactionMode, fn: (s: IDBObjectStore) => IDBRequest<T>) {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(store, mode);
+    const req = fn(tx.objectStore(store));
+    tx.oncomplete = () => resolve(req.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+export function getAll<T>(store: StoreName) {
+  return run<T[]>(store, "readonly", (s) => s.getAll());
+}
+
+export function getOne<T>(store: StoreName, id: string) {
+  return run<T | undefined>(store, "readonly", (s) => s.get(id));
+}
+
+export function putOne<T>(store: StoreName, value: T) {
+  return run(store, "readwrite", (s) => s.put(value));
+}
+
+export function deleteOne(store: StoreName, id: string) {
+  return run(store, "readwrite", (s) => s.delete(id));
+}
@@ -0,0 +1,121 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import {
+  DESIGN_FORMAT,
+  DESIGN_VERSION,
+  DesignFileError,
+  FONT_SIZE_RANGE,
+  createDesign,
+  getSize,
+  readDesignFile,
+  serializeDesign,
+  validateDesign,
+} from "./design";
+
+const file = (version: number, design: Record<string, unknown>) =>
+  JSON.stringify({ format: DESIGN_FORMAT, version, design });
+
+test("a saved design reads back unchanged", () => {
+  const design = { ...createDesign("chapter1"), sizeId: "square", dim: 0.3, exportFormat: "webp" as const };
+  assert.deepEqual(readDesignFile(serializeDesign(design)), { design, fonts: [] });
+});
+
+test("a v1 design migrates to layers, slides and today's defaults", () => {
+  const { design } = readDesignFile(
+    file(1, {
+      sizeId: "story",
+      topText: "Will you help?",
+      bottomText: "Join us",
+      topSize: 80,
+      topAlign: "left",
+      panel: "box",
+    })
+  );
+  const [top, bottom] = design.layers;
+  assert.deepEqual(
+    [top.id, top.text, top.fontSize, top.align, top.panel, top.font],
+    ["top", "Will you help?", 80, "left", "box", "heading"]
+  );
+  assert.deepEqual([bottom.id, bottom.text, bottom.fontSize, bottom.anchor], ["bottom", "Join us", 56, "bottom"]);
+  assert.deepEqual(design.carousel, { enabled: false, showIndicator: true, slides: [] });
+  assert.deepEqual(design.locales, ["en"]);
+  assert.equal(design.exportFormat, "png");
+});
+
+test("v2 slides keep their top and bottom text", () => {
+  const { design } = readDesignFile(
+    file(2, {
+      topText: "One",
+      bottomText: "",
+      carousel: { enabled: true, slides: [{ id: "s1", topText: "Two" }, { id: "s2", bottomText: "Three" }] },
+    })
+  );
+  assert.deepEqual(
+    design.carousel.slides.map((s) => [s.id, s.text]),
+    [
+      ["s1", { top: "Two" }],
+      ["s2", { bottom: "Three" }],
+    ]
+  );
+});
+
+test("layers at the old default margins move into the size's safe zone", () => {
+  const old = { x: 70, y: 86, width: 940 };
+  const { design } = readDesignFile(
+    file(10, {
+      sizeId: "story",
+      layers: [
+        { ...old, id: "top", anchor: "top" },
+        { ...old, id: "bottom", anchor: "bottom" },
+        { ...old, id: "moved", x: 120 },
+      ],
+    })
+  );
+  const { w, safe } = getSize("story");
+  const [top, bottom, moved] = design.layers;
+  assert.deepEqual([top.x, top.y, top.width], [safe.left, safe.top, w - safe.left - safe.right]);
+  assert.equal(bottom.y, safe.bottom);
+  assert.deepEqual([moved.x, moved.y, moved.width], [120, 86, 940]);
+});
+
+test("files that can't be read are rejected with a reason", () => {
+  const reasons: [string, RegExp][] = [
+    ["{", /not valid JSON/],
+    [JSON.stringify({ format: "other", version: 1, design: {} }), /Not a TSTW design file/],
+    [JSON.stringify({ format: DESIGN_FORMAT, design: {} }), /no valid version/],
+    [file(DESIGN_VERSION + 1, {}), /only supports up to/],
+    [JSON.stringify({ format: DESIGN_FORMAT, version: 1 }), /has no design/],
+    [file(DESIGN_VERSION, { image: { src: "https://example.com/photo.jpg" } }), /not a valid image data URL/],
+  ];
+  for (const [json, reason] of reasons) {
+    assert.throws(() => readDesignFile(json), (err) => err instanceof DesignFileError && reason.test(err.message));
+  }
+});
+
+test("malformed values fall back to defaults or are clamped", () => {
+  const design = validateDesign({
+    sizeId: "user-abc",
+    dim: 5,
+    exportScale: 7,
+    exportFormat: "tiff",
+    locales: ["en", "de", "de", "not a locale"],
+    layers: [
+      { id: "a", fontSize: 500, fontWeight: 651, align: "justify", fontFamily: "" },
+      { id: "a", text: 42 },
+      "not a layer",
+    ],
+  });
+  assert.equal(design.sizeId, "user-abc");
+  assert.equal(design.dim, 0.6);
+  assert.equal(design.exportScale, 3);
+  assert.equal(design.exportFormat, "png");
+  assert.deepEqual(design.locales, ["en", "de"]);
+  assert.equal(design.layers.length, 2);
+  const [first, second] = design.layers;
+  assert.deepEqual(
+    [first.fontSize, first.fontWeight, first.align, first.fontFamily],
+    [FONT_SIZE_RANGE.max, 700, "center", null]
+  );
+  assert.notEqual(second.id, "a");
+  assert.equal(second.text, "");
+});
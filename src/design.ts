@@ -0,0 +1,710 @@
+import { EncodeOptions, EXPORT_FORMATS, ExportFormat, QUALITY_RANGE } from "./imageExport";
+import { getProfile } from "./platforms";
+import { PaletteColor } from "./brand";
+import { CustomFont, customFontIds, readCustomFonts, registeredFonts } from "./fonts";
+import { clamp, isRecord, makeId, readEnum, readNumber, readString } from "./utils";
+
+// Design document
+// - Everything needed to re-render a post, including the embedded image
+// - Saved as a versioned `.tstw.json` file
+// - Older files are migrated forward on load
+
+export const DESIGN_FORMAT = "tstw-design";
+export const DESIGN_VERSION = 13;
+export const DESIGN_FILE_EXTENSION = ".tstw.json";
+
+export const presets = [
+  {
+    id: "classic",
+    name: "Classic (Top + Bottom)",
+    top: "The future won’t fix itself.\nWill you help build it?",
+    bottom: "Join the mission → @t.s.t.w.7",
+  },
+  {
+    id: "chapter1",
+    name: "Chapter 1 (Book Page)",
+    top: "What do you feel when the world is asking for help?",
+    bottom: "The Earth was covered in smoke.\nThe sky grew darker.\nBut then… a light arrived.",
+  },
+  {
+    id: "question",
+    name: "Question Only",
+    top: "What would you change first to help Earth?",
+    bottom: "",
+  },
+];
+
+// Canvas sizes are platform profiles, see platforms.ts
+export const DEFAULT_SIZE_ID = "story";
+// What multi-format export starts with: the sizes there were before profiles
+export const DEFAULT_FORMAT_IDS = ["story", "reel", "square", "portrait"];
+
+// Language of a new design's text, see locales.ts
+export const DEFAULT_LOCALE = "en";
+const LOCALE_PATTERN = /^[a-z]{2,3}(-[A-Za-z0-9]{2,8})*$/;
+
+export type Align = "left" | "center" | "right";
+export type PanelStyle = "none" | "soft" | "box";
+export type BgFit = "cover" | "contain";
+
+export type DesignImage = {
+  src: string; // data URL, so the file is self-contained
+  name: string;
+  size: number;
+  width: number; // natural size; 0 until known (files from before v4)
+  height: number;
+};
+
+// How the background sits in the frame, independent of canvas size.
+// See crop.ts for the placement math.
+export type ImageCrop = {
+  zoom: number; // 1 = exactly cover/contain
+  rotation: number; // degrees
+  focalX: number; // subject point in the image, 0..1
+  focalY: number;
+  anchorX: number; // where the subject sits on the stage, 0..1
+  anchorY: number;
+};
+
+export const ZOOM_RANGE = { min: 1, max: 4 };
+
+export type ImageTone = "none" | "grayscale" | "duotone";
+
+// Non-destructive photo adjustments, applied when rendering. See adjust.ts.
+export type ImageAdjust = {
+  brightness: number; // 1 = unchanged
+  contrast: number;
+  saturation: number; // 0 = grey
+  tone: ImageTone;
+  duotoneDark: PaletteColor; // brand color for the shadows
+  duotoneLight: PaletteColor; // and for the highlights
+  blur: number; // standard deviation, stage pixels
+  vignette: number; // darkness at the edges, 0..1
+};
+
+export const ADJUST_RANGES = {
+  brightness: { min: 0.5, max: 1.5 },
+  contrast: { min: 0.5, max: 1.5 },
+  saturation: { min: 0, max: 2 },
+  blur: { min: 0, max: 20 },
+  vignette: { min: 0, max: 1 },
+};
+
+export function defaultAdjust(): ImageAdjust {
+  return {
+    brightness: 1,
+    contrast: 1,
+    saturation: 1,
+    tone: "none",
+    duotoneDark: "panel",
+    duotoneLight: "accent",
+    blur: 0,
+    vignette: 0.65,
+  };
+}
+
+export type GradientEdge = "top" | "bottom" | "left" | "right";
+
+// A brand color fading out from one edge, over the dim
+export type GradientOverlay = {
+  id: string;
+  edge: GradientEdge;
+  color: PaletteColor;
+  opacity: number; // at the edge
+  size: number; // share of the stage it fades over, 0..1
+};
+
+export const GRADIENT_SIZE_RANGE = { min: 0.1, max: 1 };
+
+export function createGradient(patch: Partial<GradientOverlay> = {}): GradientOverlay {
+  return { id: makeId(), edge: "top", color: "panel", opacity: 0.7, size: 0.4, ...patch };
+}
+
+export function defaultCrop(): ImageCrop {
+  return { zoom: 1, rotation: 0, focalX: 0.5, focalY: 0.5, anchorX: 0.5, anchorY: 0.5 };
+}
+
+// A free-form text block on the stage. Coordinates are in stage pixels.
+// `y` is measured from the `anchor` edge, so a bottom CTA stays at the bottom
+// when the canvas height changes.
+export type TextLayer = {
+  id: string;
+  name: string;
+  text: string; // in the design's first locale
+  translations: Record<string, string>; // by locale; missing = uses `text`
+  x: number;
+  y: number;
+  anchor: "top" | "bottom";
+  width: number;
+  rotation: number; // degrees, around the layer center
+  fontSize: number; // the largest size when auto-fit is on
+  autoFit: boolean; // shrink the font until the text fits a box of boxHeight
+  minFontSize: number;
+  boxHeight: number;
+  align: Align;
+  panel: PanelStyle;
+  font: "heading" | "body"; // role in the brand kit's font pairing
+  fontFamily: string | null; // overrides the role: FONT_STACKS key or custom font id
+  fontWeight: number;
+  letterSpacing: number; // em
+  color: "text" | "accent"; // brand palette entry
+  enter: EnterEffect; // entrance animation in video exports
+  enterAt: number; // seconds from the start
+  enterDuration: number; // seconds
+};
+
+export type EnterEffect = "none" | "fade" | "slide-up" | "typewriter";
+export const ENTER_EFFECTS: EnterEffect[] = ["none", "fade", "slide-up", "typewriter"];
+
+export type VideoFormat = "webm" | "mp4" | "gif";
+
+// Timeline for video exports. Stills show the last frame.
+export type Animation = {
+  duration: number; // seconds
+  fps: number;
+  kenBurns: boolean; // slow zoom/pan on the background
+  kenBurnsZoom: number; // extra zoom reached at the end, 1 = none
+  kenBurnsPanX: number; // drift of the subject over the clip, fraction of the stage
+  kenBurnsPanY: number;
+  format: VideoFormat;
+};
+
+export const DURATION_RANGE = { min: 2, max: 30 };
+export const FPS_OPTIONS = [15, 24, 30, 60];
+
+// A slide inherits each layer's text unless it overrides it.
+// Missing key = inherit, "" = intentionally blank on this slide.
+export type Slide = {
+  id: string;
+  text: Record<string, string>; // by layer id
+  translations: Record<string, Record<string, string>>; // by locale, then layer id
+};
+
+export type Carousel = {
+  enabled: boolean;
+  showIndicator: boolean;
+  slides: Slide[];
+};
+
+// How a design adapts to one canvas size in multi-format exports
+export type SizeLayout = {
+  fontScale: number; // multiplies every layer's font size
+  margin: number; // stage pixels kept clear inside the safe zone, on every side
+  crop: ImageCrop | null; // own framing for this size; null = the design's
+};
+
+export type MultiFormat = {
+  sizeIds: string[]; // profile ids, exported together
+  layouts: Record<string, SizeLayout>; // by size id; missing = no changes
+};
+
+export const FONT_SCALE_RANGE = { min: 0.5, max: 1.5 };
+export const SIZE_MARGIN_RANGE = { min: 0, max: 200 };
+
+export function defaultSizeLayout(): SizeLayout {
+  return { fontScale: 1, margin: 0, crop: null };
+}
+
+export type Design = {
+  presetId: string;
+  sizeId: string;
+  layers: TextLayer[]; // back to front
+  shadow: boolean;
+  bgFit: BgFit;
+  crop: ImageCrop;
+  dim: number;
+  adjust: ImageAdjust;
+  gradients: GradientOverlay[]; // back to front
+  exportScale: number;
+  exportFormat: ExportFormat;
+  exportQuality: number; // JPEG/WebP, 0..1
+  maxFileSize: number; // bytes; 0 = no cap
+  image: DesignImage | null;
+  carousel: Carousel;
+  animation: Animation;
+  formats: MultiFormat;
+  locales: string[]; // language of the layer text first, then the translations
+};
+
+export type DesignFile = {
+  format: typeof DESIGN_FORMAT;
+  version: number;
+  savedAt: string;
+  design: Design;
+  fonts?: CustomFont[]; // the custom fonts the layers name, when registered here
+};
+
+export class DesignFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DesignFileError";
+  }
+}
+
+export const FONT_SIZE_RANGE = { min: 24, max: 160 };
+export const LETTER_SPACING_RANGE = { min: -0.1, max: 0.3 };
+export const MIN_BOX_HEIGHT = 120;
+
+export function createLayer(patch: Partial<TextLayer> = {}): TextLayer {
+  return {
+    id: makeId(),
+    name: "Text",
+    text: "",
+    translations: {},
+    x: 70,
+    y: 86,
+    anchor: "top",
+    width: 940,
+    rotation: 0,
+    fontSize: 64,
+    autoFit: false,
+    minFontSize: 36,
+    boxHeight: 480,
+    align: "center",
+    panel: "soft",
+    font: "body",
+    fontFamily: null,
+    fontWeight: 700,
+    letterSpacing: -0.02,
+    color: "text",
+    enter: "none",
+    enterAt: 0,
+    enterDuration: 0.8,
+    ...patch,
+  };
+}
+
+// Full width of a size's safe zone, where the default layers sit
+function safeFrame(sizeId: string) {
+  const { w, safe } = getSize(sizeId);
+  return { x: safe.left, width: w - safe.left - safe.right, top: safe.top, bottom: safe.bottom };
+}
+
+// Presets map onto the two default layers, which keep the fixed ids
+// "top" and "bottom" so sheets, slides and presets can address them.
+// They sit at the edges of the default size's safe zone.
+export function presetLayers(preset: (typeof presets)[number]): TextLayer[] {
+  const { top, bottom, ...frame } = safeFrame(DEFAULT_SIZE_ID);
+  return [
+    createLayer({
+      ...frame,
+      id: "top",
+      name: "Top text",
+      text: preset.top,
+      y: top,
+      fontSize: 72,
+      font: "heading",
+    }),
+    createLayer({
+      ...frame,
+      id: "bottom",
+      name: "Bottom text",
+      text: preset.bottom,
+      y: bottom,
+      fontSize: 56,
+      anchor: "bottom",
+    }),
+  ];
+}
+
+// Sets the text of a default layer, re-creating it if the user deleted it
+export function withLayerText(design: Design, id: "top" | "bottom", text: string): Design {
+  if (design.layers.some((l) => l.id === id)) {
+    return { ...design, layers: design.layers.map((l) => (l.id === id ? { ...l, text } : l)) };
+  }
+  const layer = presetLayers(getPreset(design.presetId)).find((l) => l.id === id)!;
+  return { ...design, layers: [...design.layers, { ...layer, text }] };
+}
+
+export function createDesign(presetId = presets[0].id): Design {
+  const preset = presets.find((p) => p.id === presetId) ?? presets[0];
+  return {
+    presetId: preset.id,
+    sizeId: DEFAULT_SIZE_ID,
+    layers: presetLayers(preset),
+    shadow: true,
+    bgFit: "cover",
+    crop: defaultCrop(),
+    dim: 0.25,
+    adjust: defaultAdjust(),
+    gradients: [],
+    exportScale: 2,
+    exportFormat: "png",
+    exportQuality: 0.9,
+    maxFileSize: 0,
+    image: null,
+    carousel: { enabled: false, showIndicator: true, slides: [] },
+    animation: defaultAnimation(),
+    formats: { sizeIds: [...DEFAULT_FORMAT_IDS], layouts: {} },
+    locales: [DEFAULT_LOCALE],
+  };
+}
+
+export function defaultAnimation(): Animation {
+  return {
+    duration: 6,
+    fps: 30,
+    kenBurns: false,
+    kenBurnsZoom: 1.15,
+    kenBurnsPanX: 0,
+    kenBurnsPanY: 0,
+    format: "webm",
+  };
+}
+
+export function exportOptions(design: Design): EncodeOptions {
+  return { format: design.exportFormat, quality: design.exportQuality, maxBytes: design.maxFileSize };
+}
+
+// Unknown ids (another browser's profile) render at the default size
+export function getSize(sizeId: string) {
+  return getProfile(sizeId);
+}
+
+export function getPreset(presetId: string) {
+  return presets.find((p) => p.id === presetId) ?? presets[0];
+}
+
+// Each entry upgrades a raw design from `version` to `version + 1`.
+// Add one here whenever the shape of `Design` changes.
+const migrations: Record<number, (raw: Record<string, unknown>) => Record<string, unknown>> = {
+  // v2: carousel slides
+  1: (raw) => ({ ...raw, carousel: { enabled: false, showIndicator: true, slides: [] } }),
+  // v3: fixed top/bottom text replaced by free-form layers
+  2: (raw) => {
+    const { topText, bottomText, topSize, bottomSize, topAlign, bottomAlign, panel, carousel, ...rest } = raw;
+    const base = { x: 70, y: 86, width: 940, rotation: 0, panel };
+    const slides = isRecord(carousel) && Array.isArray(carousel.slides) ? carousel.slides.filter(isRecord) : [];
+    return {
+      ...rest,
+      layers: [
+        { ...base, id: "top", name: "Top text", text: topText, fontSize: topSize ?? 72, align: topAlign, anchor: "top" },
+        {
+          ...base,
+          id: "bottom",
+          name: "Bottom text",
+          text: bottomText,
+          fontSize: bottomSize ?? 56,
+          align: bottomAlign,
+          anchor: "bottom",
+        },
+      ],
+      carousel: {
+        ...(isRecord(carousel) ? carousel : {}),
+        slides: slides.map(({ topText, bottomText, ...slide }) => ({
+          ...slide,
+          text: {
+            ...(typeof topText === "string" ? { top: topText } : {}),
+            ...(typeof bottomText === "string" ? { bottom: bottomText } : {}),
+          },
+        })),
+      },
+    };
+  },
+  // v4: background crop / focal point
+  3: (raw) => ({ ...raw, crop: defaultCrop() }),
+  // v5: brand kit font role and palette color per layer
+  4: (raw) => ({
+    ...raw,
+    layers: Array.isArray(raw.layers)
+      ? raw.layers.map((l) => (isRecord(l) ? { ...l, font: l.id === "top" ? "heading" : "body", color: "text" } : l))
+      : raw.layers,
+  }),
+  // v6: per-layer font family, weight and letter spacing
+  5: (raw) => ({
+    ...raw,
+    layers: Array.isArray(raw.layers)
+      ? raw.layers.map((l) => (isRecord(l) ? { ...l, fontFamily: null, fontWeight: 700, letterSpacing: -0.02 } : l))
+      : raw.layers,
+  }),
+  // v7: auto-fit
+  6: (raw) => ({
+    ...raw,
+    layers: Array.isArray(raw.layers)
+      ? raw.layers.map((l) => (isRecord(l) ? { ...l, autoFit: false, minFontSize: 36, boxHeight: 480 } : l))
+      : raw.layers,
+  }),
+  // v8: export format, quality and size cap
+  7: (raw) => ({ ...raw, exportFormat: "png", exportQuality: 0.9, maxFileSize: 0 }),
+  // v9: entrance animations and video timeline
+  8: (raw) => ({
+    ...raw,
+    animation: defaultAnimation(),
+    layers: Array.isArray(raw.layers)
+      ? raw.layers.map((l) => (isRecord(l) ? { ...l, enter: "none", enterAt: 0, enterDuration: 0.8 } : l))
+      : raw.layers,
+  }),
+  // v10: multi-format export with per-size layouts
+  9: (raw) => ({ ...raw, formats: { sizeIds: [...DEFAULT_FORMAT_IDS], layouts: {} } }),
+  // v11: photo adjustments, vignette strength and gradient overlays
+  10: (raw) => ({ ...raw, adjust: defaultAdjust(), gradients: [] }),
+  // v12: translations of the layer text
+  11: (raw) => ({
+    ...raw,
+    locales: [DEFAULT_LOCALE],
+    layers: Array.isArray(raw.layers)
+      ? raw.layers.map((l) => (isRecord(l) ? { ...l, translations: {} } : l))
+      : raw.layers,
+    carousel:
+      isRecord(raw.carousel) && Array.isArray(raw.carousel.slides)
+        ? { ...raw.carousel, slides: raw.carousel.slides.map((s) => (isRecord(s) ? { ...s, translations: {} } : s)) }
+        : raw.carousel,
+  }),
+  // v13: platform safe zones. Layers still where the old fixed margins put
+  // them move to the edges of their size's safe zone, which they'd cross.
+  12: (raw) => {
+    const { top, bottom, ...frame } = safeFrame(readString(raw.sizeId, DEFAULT_SIZE_ID));
+    const atOldDefault = (l: Record<string, unknown>) => l.x === 70 && l.y === 86 && l.width === 940;
+    return {
+      ...raw,
+      layers: Array.isArray(raw.layers)
+        ? raw.layers.map((l) =>
+            isRecord(l) && atOldDefault(l) ? { ...l, ...frame, y: l.anchor === "bottom" ? bottom : top } : l
+          )
+        : raw.layers,
+    };
+  },
+};
+
+// Custom fonts the layers name; roles use the brand kit's, which travel with it
+export function designFontIds(design: Design) {
+  return customFontIds(design.layers.map((l) => l.fontFamily));
+}
+
+export function serializeDesign(design: Design, { withFonts = true } = {}): string {
+  const fonts = withFonts ? registeredFonts(designFontIds(design)) : [];
+  const file: DesignFile = {
+    format: DESIGN_FORMAT,
+    version: DESIGN_VERSION,
+    savedAt: new Date().toISOString(),
+    design,
+    ...(fonts.length ? { fonts } : {}),
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+// The design and the fonts the file carries, for the host to register
+export function readDesignFile(json: string): { design: Design; fonts: CustomFont[] } {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new DesignFileError("File is not valid JSON.");
+  }
+  if (!isRecord(data) || data.format !== DESIGN_FORMAT) {
+    throw new DesignFileError("Not a TSTW design file.");
+  }
+  const version = data.version;
+  if (typeof version !== "number" || !Number.isInteger(version) || version < 1) {
+    throw new DesignFileError("Design file has no valid version.");
+  }
+  if (version > DESIGN_VERSION) {
+    throw new DesignFileError(
+      `Design file is version ${version}, but this builder only supports up to ${DESIGN_VERSION}.`
+    );
+  }
+  if (!isRecord(data.design)) {
+    throw new DesignFileError("Design file has no design.");
+  }
+  return { design: validateDesign(migrateDesign(data.design, version)), fonts: readCustomFonts(data.fonts) };
+}
+
+export function migrateDesign(raw: Record<string, unknown>, fromVersion: number) {
+  let current = raw;
+  for (let v = fromVersion; v < DESIGN_VERSION; v++) {
+    const step = migrations[v];
+    if (!step) throw new DesignFileError(`No migration from design version ${v}.`);
+    current = step(current);
+  }
+  return current;
+}
+
+// Fills anything missing or malformed with defaults, so a hand-edited file
+// still opens. Only structural problems are reported as errors.
+export function validateDesign(raw: Record<string, unknown>): Design {
+  const base = createDesign(typeof raw.presetId === "string" ? raw.presetId : undefined);
+  return {
+    // May name a user preset that only exists in the browser that saved the file
+    presetId: readString(raw.presetId, base.presetId),
+    // May name a profile saved in another browser; kept so it survives a round trip
+    sizeId: readString(raw.sizeId, base.sizeId) || base.sizeId,
+    layers: Array.isArray(raw.layers) ? validateLayers(raw.layers) : base.layers,
+    shadow: typeof raw.shadow === "boolean" ? raw.shadow : base.shadow,
+    bgFit: readEnum(raw.bgFit, ["cover", "contain"], base.bgFit),
+    crop: readCrop(raw.crop),
+    dim: clamp(readNumber(raw.dim, base.dim), 0, 0.6),
+    adjust: readAdjust(raw.adjust),
+    gradients: Array.isArray(raw.gradients) ? readGradients(raw.gradients) : base.gradients,
+    exportScale: clamp(Math.round(readNumber(raw.exportScale, base.exportScale)), 1, 3),
+    exportFormat: readEnum(raw.exportFormat, Object.keys(EXPORT_FORMATS) as ExportFormat[], base.exportFormat),
+    exportQuality: clamp(readNumber(raw.exportQuality, base.exportQuality), QUALITY_RANGE.min, QUALITY_RANGE.max),
+    maxFileSize: Math.max(0, readNumber(raw.maxFileSize, base.maxFileSize)),
+    image: readImage(raw.image),
+    carousel: readCarousel(raw.carousel, base.carousel),
+    animation: readAnimation(raw.animation),
+    formats: readFormats(raw.formats, base.formats),
+    locales: readLocales(raw.locales, base.locales),
+  };
+}
+
+function readLocales(value: unknown, fallback: string[]): string[] {
+  if (!Array.isArray(value)) return fallback;
+  const locales = value.filter((l): l is string => typeof l === "string" && LOCALE_PATTERN.test(l));
+  return locales.length ? Array.from(new Set(locales)) : fallback;
+}
+
+// Text by key; anything that isn't a string is dropped
+function readTextMap(value: unknown): Record<string, string> {
+  if (!isRecord(value)) return {};
+  return Object.fromEntries(Object.entries(value).filter(([, v]) => typeof v === "string")) as Record<string, string>;
+}
+
+function readFormats(value: unknown, fallback: MultiFormat): MultiFormat {
+  if (!isRecord(value)) return fallback;
+  const picked = Array.isArray(value.sizeIds) ? value.sizeIds.filter((id): id is string => typeof id === "string") : [];
+  const layouts = isRecord(value.layouts) ? value.layouts : {};
+  return {
+    sizeIds: Array.from(new Set(picked)),
+    layouts: Object.fromEntries(
+      Object.entries(layouts).flatMap(([id, layout]) => (isRecord(layout) ? [[id, readSizeLayout(layout)]] : []))
+    ),
+  };
+}
+
+function readSizeLayout(value: Record<string, unknown>): SizeLayout {
+  const fallback = defaultSizeLayout();
+  return {
+    fontScale: clamp(readNumber(value.fontScale, fallback.fontScale), FONT_SCALE_RANGE.min, FONT_SCALE_RANGE.max),
+    margin: clamp(readNumber(value.margin, fallback.margin), SIZE_MARGIN_RANGE.min, SIZE_MARGIN_RANGE.max),
+    crop: isRecord(value.crop) ? readCrop(value.crop) : null,
+  };
+}
+
+function readAnimation(value: unknown): Animation {
+  const fallback = defaultAnimation();
+  if (!isRecord(value)) return fallback;
+  return {
+    duration: clamp(readNumber(value.duration, fallback.duration), DURATION_RANGE.min, DURATION_RANGE.max),
+    fps: FPS_OPTIONS.includes(readNumber(value.fps, 0)) ? readNumber(value.fps, 0) : fallback.fps,
+    kenBurns: typeof value.kenBurns === "boolean" ? value.kenBurns : fallback.kenBurns,
+    kenBurnsZoom: clamp(readNumber(value.kenBurnsZoom, fallback.kenBurnsZoom), 1, 1.5),
+    kenBurnsPanX: clamp(readNumber(value.kenBurnsPanX, 0), -0.2, 0.2),
+    kenBurnsPanY: clamp(readNumber(value.kenBurnsPanY, 0), -0.2, 0.2),
+    format: readEnum(value.format, ["webm", "mp4", "gif"], fallback.format),
+  };
+}
+
+const PALETTE_COLORS: PaletteColor[] = ["text", "accent", "panel"];
+
+function readAdjust(value: unknown): ImageAdjust {
+  const fallback = defaultAdjust();
+  if (!isRecord(value)) return fallback;
+  const ranged = (key: keyof typeof ADJUST_RANGES) =>
+    clamp(readNumber(value[key], fallback[key]), ADJUST_RANGES[key].min, ADJUST_RANGES[key].max);
+  return {
+    brightness: ranged("brightness"),
+    contrast: ranged("contrast"),
+    saturation: ranged("saturation"),
+    tone: readEnum(value.tone, ["none", "grayscale", "duotone"], fallback.tone),
+    duotoneDark: readEnum(value.duotoneDark, PALETTE_COLORS, fallback.duotoneDark),
+    duotoneLight: readEnum(value.duotoneLight, PALETTE_COLORS, fallback.duotoneLight),
+    blur: ranged("blur"),
+    vignette: ranged("vignette"),
+  };
+}
+
+function readGradients(value: unknown[]): GradientOverlay[] {
+  return value.filter(isRecord).map((raw) => {
+    const fallback = createGradient();
+    return {
+      id: readString(raw.id, fallback.id) || fallback.id,
+      edge: readEnum(raw.edge, ["top", "bottom", "left", "right"], fallback.edge),
+      color: readEnum(raw.color, PALETTE_COLORS, fallback.color),
+      opacity: clamp(readNumber(raw.opacity, fallback.opacity), 0, 1),
+      size: clamp(readNumber(raw.size, fallback.size), GRADIENT_SIZE_RANGE.min, GRADIENT_SIZE_RANGE.max),
+    };
+  });
+}
+
+function readCrop(value: unknown): ImageCrop {
+  const fallback = defaultCrop();
+  if (!isRecord(value)) return fallback;
+  const unit = (v: unknown, d: number) => clamp(readNumber(v, d), 0, 1);
+  return {
+    zoom: clamp(readNumber(value.zoom, fallback.zoom), ZOOM_RANGE.min, ZOOM_RANGE.max),
+    rotation: readNumber(value.rotation, 0) % 360,
+    focalX: unit(value.focalX, fallback.focalX),
+    focalY: unit(value.focalY, fallback.focalY),
+    anchorX: unit(value.anchorX, fallback.anchorX),
+    anchorY: unit(value.anchorY, fallback.anchorY),
+  };
+}
+
+export function validateLayers(value: unknown[]): TextLayer[] {
+  const seen = new Set<string>();
+  return value.filter(isRecord).map((raw) => {
+    const fallback = createLayer();
+    let id = readString(raw.id, fallback.id) || fallback.id;
+    if (seen.has(id)) id = fallback.id;
+    seen.add(id);
+    return {
+      id,
+      name: readString(raw.name, fallback.name),
+      text: readString(raw.text, ""),
+      translations: readTextMap(raw.translations),
+      x: readNumber(raw.x, fallback.x),
+      y: readNumber(raw.y, fallback.y),
+      anchor: readEnum(raw.anchor, ["top", "bottom"], fallback.anchor),
+      width: Math.max(80, readNumber(raw.width, fallback.width)),
+      rotation: readNumber(raw.rotation, 0) % 360,
+      fontSize: clamp(readNumber(raw.fontSize, fallback.fontSize), FONT_SIZE_RANGE.min, FONT_SIZE_RANGE.max),
+      autoFit: typeof raw.autoFit === "boolean" ? raw.autoFit : fallback.autoFit,
+      minFontSize: clamp(readNumber(raw.minFontSize, fallback.minFontSize), FONT_SIZE_RANGE.min, FONT_SIZE_RANGE.max),
+      boxHeight: Math.max(MIN_BOX_HEIGHT, readNumber(raw.boxHeight, fallback.boxHeight)),
+      align: readEnum(raw.align, ["left", "center", "right"], fallback.align),
+      panel: readEnum(raw.panel, ["none", "soft", "box"], fallback.panel),
+      font: readEnum(raw.font, ["heading", "body"], fallback.font),
+      fontFamily: typeof raw.fontFamily === "string" && raw.fontFamily ? raw.fontFamily : null,
+      fontWeight: clamp(Math.round(readNumber(raw.fontWeight, fallback.fontWeight) / 100) * 100, 100, 900),
+      letterSpacing: clamp(
+        readNumber(raw.letterSpacing, fallback.letterSpacing),
+        LETTER_SPACING_RANGE.min,
+        LETTER_SPACING_RANGE.max
+      ),
+      color: readEnum(raw.color, ["text", "accent"], fallback.color),
+      enter: readEnum(raw.enter, ENTER_EFFECTS, fallback.enter),
+      enterAt: clamp(readNumber(raw.enterAt, 0), 0, DURATION_RANGE.max),
+      enterDuration: clamp(readNumber(raw.enterDuration, fallback.enterDuration), 0.1, DURATION_RANGE.max),
+    };
+  });
+}
+
+function readCarousel(value: unknown, fallback: Carousel): Carousel {
+  if (!isRecord(value)) return fallback;
+  const slides = Array.isArray(value.slides) ? value.slides.filter(isRecord) : [];
+  return {
+    enabled: typeof value.enabled === "boolean" ? value.enabled : fallback.enabled,
+    showIndicator: typeof value.showIndicator === "boolean" ? value.showIndicator : fallback.showIndicator,
+    slides: slides.map((slide) => ({
+      id: typeof slide.id === "string" && slide.id ? slide.id : makeId(),
+      text: readTextMap(slide.text),
+      translations: isRecord(slide.translations)
+        ? Object.fromEntries(Object.entries(slide.translations).map(([locale, text]) => [locale, readTextMap(text)]))
+        : {},
+    })),
+  };
+}
+
+function readImage(value: unknown): DesignImage | null {
+  if (value == null) return null;
+  if (!isRecord(value) || typeof value.src !== "string" || !value.src.startsWith("data:image/")) {
+    throw new DesignFileError("Embedded image is not a valid image data URL.");
+  }
+  return {
+    src: value.src,
+    name: readString(value.name, "image"),
+    size: readNumber(value.size, 0),
+    width: Math.max(0, readNumber(value.width, 0)),
+    height: Math.max(0, readNumber(value.height, 0)),
+  };
+}
@@ -0,0 +1,82 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { createDesign } from "./design";
+import { DESIGN_PNG_KEYWORD, embedDesign, readDesignFileFromPng, readPngText, withPngText } from "./designPng";
+import { crc32 } from "./zip";
+
+function chunk(type: string, data: number[]) {
+  const body = new Uint8Array([...type].map((c) => c.charCodeAt(0)).concat(data));
+  const out = new Uint8Array(12 + data.length);
+  const view = new DataView(out.buffer);
+  view.setUint32(0, data.length);
+  out.set(body, 4);
+  view.setUint32(8 + data.length, crc32(body));
+  return out;
+}
+
+// Signature, a 1×1 header and the end, with `extra` chunks in between
+function png(...extra: Uint8Array[]) {
+  const ihdr = chunk("IHDR", [0, 0, 0, 1, 0, 0, 0, 1, 8, 6, 0, 0, 0]);
+  const parts = [new Uint8Array([137, 80, 78, 71, 13, 10, 26, 10]), ihdr, ...extra, chunk("IEND", [])];
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  parts.reduce((offset, p) => (out.set(p, offset), offset + p.length), 0);
+  return out;
+}
+
+// Every chunk's type, each checked against its CRC
+function chunkTypes(bytes: Uint8Array) {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const types = [];
+  for (let offset = 8; offset < bytes.length; ) {
+    const length = view.getUint32(offset);
+    const body = bytes.subarray(offset + 4, offset + 8 + length);
+    assert.equal(view.getUint32(offset + 8 + length), crc32(body));
+    types.push(new TextDecoder().decode(body.subarray(0, 4)));
+    offset += 12 + length;
+  }
+  return types;
+}
+
+const photo = {
+  src: "data:image/png;base64," + "A".repeat(4000),
+  name: "photo.png",
+  size: 3000,
+  width: 1,
+  height: 1,
+};
+
+test("iTXt text reads back, UTF-8 intact, right after the header", () => {
+  const text = withPngText(png(), "note", "Grüße ✓");
+  assert.deepEqual(chunkTypes(text), ["IHDR", "iTXt", "IEND"]);
+  assert.equal(readPngText(text, "note"), "Grüße ✓");
+  assert.equal(readPngText(text, "other"), null);
+});
+
+test("tEXt chunks are read, compressed iTXt chunks skipped", () => {
+  const latin1 = (s: string) => [...s].map((c) => c.charCodeAt(0));
+  const compressed = chunk("iTXt", [...latin1("note"), 0, 1, 0, 0, 0, 120, 156]);
+  assert.equal(readPngText(png(chunk("tEXt", [...latin1("note"), 0, ...latin1("plain")])), "note"), "plain");
+  assert.equal(readPngText(png(compressed), "note"), null);
+});
+
+test("files that aren't PNGs pass through and carry no design", () => {
+  const jpeg = new Uint8Array([0xff, 0xd8, 0xff, 0xe0, ...new Array(40).fill(0)]);
+  assert.equal(withPngText(jpeg, DESIGN_PNG_KEYWORD, "{}"), jpeg);
+  assert.equal(readDesignFileFromPng(jpeg), null);
+  assert.equal(readDesignFileFromPng(png()), null);
+});
+
+test("an embedded design reopens with its photo", () => {
+  const design = { ...createDesign(), image: photo };
+  assert.deepEqual(readDesignFileFromPng(embedDesign(png(), design, 0)), { design, fonts: [] });
+});
+
+test("the photo is left out over the size cap and when asked to", () => {
+  const design = { ...createDesign(), image: photo };
+  const full = embedDesign(png(), design, 0);
+  const over = embedDesign(png(), design, full.length - 1);
+  assert.ok(over.length < full.length);
+  assert.equal(readDesignFileFromPng(over)?.design.image, null);
+  assert.equal(readDesignFileFromPng(embedDesign(png(), design, 0, false))?.design.image, null);
+  assert.deepEqual(readDesignFileFromPng(embedDesign(png(), design, full.length))?.design.image, photo);
+});
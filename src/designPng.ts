@@ -0,0 +1,107 @@
+import { Design, exportOptions, readDesignFile, serializeDesign } from "./design";
+import { EncodedImage, Encoder, canvasEncoder, encodeImage } from "./imageExport";
+import { crc32 } from "./zip";
+
+// Designs inside exported PNGs
+// - An iTXt chunk "tstw-design" holds the same JSON as a saved .tstw.json
+//   file, so an exported post reopens for editing
+// - Written uncompressed, right after the header; tEXt chunks are read too
+// - The photo and fonts are left out when they would push the file over the
+//   size cap, and from all but the first image of an export that has several
+// - JPEG and WebP exports carry nothing
+
+export const DESIGN_PNG_KEYWORD = "tstw-design";
+
+const SIGNATURE = [137, 80, 78, 71, 13, 10, 26, 10];
+const IHDR_END = SIGNATURE.length + 8 + 13 + 4; // length + type, data, CRC
+
+function isPng(png: Uint8Array) {
+  return png.length > IHDR_END && SIGNATURE.every((b, i) => png[i] === b);
+}
+
+function chunk(type: string, data: Uint8Array) {
+  const out = new Uint8Array(12 + data.length);
+  const view = new DataView(out.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) out[4 + i] = type.charCodeAt(i);
+  out.set(data, 8);
+  view.setUint32(8 + data.length, crc32(out.subarray(4, 8 + data.length)));
+  return out;
+}
+
+// Uncompressed, with no language tag or translated keyword
+export function withPngText(png: Uint8Array, keyword: string, text: string) {
+  if (!isPng(png)) return png;
+  const encoder = new TextEncoder();
+  const head = encoder.encode(keyword);
+  const body = encoder.encode(text);
+  const data = new Uint8Array(head.length + 5 + body.length);
+  data.set(head, 0);
+  // Separator, compression flag and method, empty language tag and translated keyword
+  data.set([0, 0, 0, 0, 0], head.length);
+  data.set(body, head.length + 5);
+  const extra = chunk("iTXt", data);
+  const out = new Uint8Array(png.length + extra.length);
+  out.set(png.subarray(0, IHDR_END), 0);
+  out.set(extra, IHDR_END);
+  out.set(png.subarray(IHDR_END), IHDR_END + extra.length);
+  return out;
+}
+
+// The text stored under `keyword`, or null. Compressed chunks are skipped.
+export function readPngText(png: Uint8Array, keyword: string): string | null {
+  if (!isPng(png)) return null;
+  const view = new DataView(png.buffer, png.byteOffset, png.byteLength);
+  const latin1 = new TextDecoder("latin1");
+  let offset = SIGNATURE.length;
+  while (offset + 8 <= png.length) {
+    const length = view.getUint32(offset);
+    const type = latin1.decode(png.subarray(offset + 4, offset + 8));
+    if (type === "IEND") break;
+    const data = png.subarray(offset + 8, Math.min(png.length, offset + 8 + length));
+    const end = data.indexOf(0);
+    if ((type === "tEXt" || type === "iTXt") && end > 0 && latin1.decode(data.subarray(0, end)) === keyword) {
+      if (type === "tEXt") return latin1.decode(data.subarray(end + 1));
+      // Keyword, compression flag and method, language tag, translated keyword, text
+      const language = data.indexOf(0, end + 3);
+      const translated = language >= 0 ? data.indexOf(0, language + 1) : -1;
+      if (data[end + 1] === 0 && translated >= 0) return new TextDecoder().decode(data.subarray(translated + 1));
+    }
+    offset += 12 + length;
+  }
+  return null;
+}
+
+function withDesign(png: Uint8Array, design: Design, withFiles: boolean) {
+  const json = withFiles ? serializeDesign(design) : serializeDesign({ ...design, image: null }, { withFonts: false });
+  return withPngText(png, DESIGN_PNG_KEYWORD, json);
+}
+
+// `withFiles: false` leaves out the photo and fonts, the big parts
+export function embedDesign(png: Uint8Array, design: Design, maxBytes: number, withFiles = true) {
+  const full = withDesign(png, design, withFiles);
+  if (!withFiles || !maxBytes || full.length <= maxBytes) return full;
+  return withDesign(png, design, false);
+}
+
+// Like encodeImage, with the design embedded in PNGs. Exports of several
+// images pass `withFiles: false` for all but the first with a given photo.
+export async function encodeDesign(
+  canvas: HTMLCanvasElement | Encoder,
+  design: Design,
+  { withFiles = true } = {}
+): Promise<EncodedImage> {
+  const encoder = typeof canvas === "function" ? canvas : canvasEncoder(canvas);
+  const encoded = await encodeImage(encoder, exportOptions(design));
+  if (design.exportFormat !== "png") return encoded;
+  const { maxFileSize } = design;
+  const data = embedDesign(encoded.data, design, maxFileSize, withFiles);
+  return { ...encoded, data, overCap: maxFileSize > 0 && data.length > maxFileSize };
+}
+
+// Like readDesignFile. Null for PNGs without a design; a broken design
+// throws DesignFileError.
+export function readDesignFileFromPng(png: Uint8Array) {
+  const json = readPngText(png, DESIGN_PNG_KEYWORD);
+  return json === null ? null : readDesignFile(json);
+}
@@ -0,0 +1,137 @@
+import { isRecord, readFileAsDataUrl } from "./utils";
+
+// Fonts
+// - Built-in stacks need no download
+// - Custom fonts are uploaded TTF/OTF/WOFF/WOFF2 files, kept in IndexedDB
+//   and registered with the FontFace API under a family derived from their id
+// - Design and brand files carry the custom fonts they name, so they render
+//   the same in another browser or on the command line
+// - The renderer loads the fonts a design uses before drawing with them
+
+export const FONT_STACKS: Record<string, { label: string; stack: string }> = {
+  system: {
+    label: "System sans",
+    stack: 'ui-sans-serif, system-ui, -apple-system, "Segoe UI", Roboto, "Helvetica Neue", Arial, sans-serif',
+  },
+  serif: { label: "Serif", stack: 'Georgia, "Times New Roman", Times, serif' },
+  rounded: { label: "Rounded", stack: 'ui-rounded, "SF Pro Rounded", "Nunito", "Varela Round", sans-serif' },
+  condensed: { label: "Condensed", stack: '"Arial Narrow", "Roboto Condensed", "Helvetica Neue", sans-serif' },
+  impact: { label: "Impact", stack: 'Impact, "Anton", "Arial Black", sans-serif' },
+  mono: { label: "Mono", stack: 'ui-monospace, "SF Mono", Menlo, Consolas, monospace' },
+};
+
+export type CustomFont = {
+  id: string;
+  name: string; // shown in pickers
+  format: FontFormat;
+  src: string; // data URL
+};
+
+type FontFormat = "truetype" | "opentype" | "woff" | "woff2";
+
+const FORMATS: Record<string, FontFormat> = { ttf: "truetype", otf: "opentype", woff: "woff", woff2: "woff2" };
+
+export const FONT_FILE_ACCEPT = ".ttf,.otf,.woff,.woff2";
+export const FONT_WEIGHTS = [300, 400, 500, 600, 700, 800, 900];
+
+const FAMILY_PREFIX = "tstw-font-";
+
+export class FontFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "FontFileError";
+  }
+}
+
+// Registered custom fonts by id
+const registry = new Map<string, CustomFont>();
+
+// Hosts without a DOM (e.g. the command line) provide their own loader
+let loadFace = async (font: CustomFont) => {
+  const face = new FontFace(customFamily(font.id), `url(${font.src}) format("${font.format}")`, {
+    weight: "100 900",
+  });
+  await face.load();
+  document.fonts.add(face);
+};
+
+export function setFontLoader(load: (font: CustomFont) => Promise<void>) {
+  loadFace = load;
+}
+
+export function customFamily(id: string) {
+  return `${FAMILY_PREFIX}${id}`;
+}
+
+// CSS font-family for a built-in stack key or a custom font id. Unknown ids
+// (a font from another browser) fall back to the system stack.
+export function fontFamilyCss(key: string) {
+  if (FONT_STACKS[key]) return FONT_STACKS[key].stack;
+  return `"${customFamily(key)}", ${FONT_STACKS.system.stack}`;
+}
+
+export async function registerFont(font: CustomFont) {
+  if (registry.has(font.id)) return;
+  await loadFace(font);
+  registry.set(font.id, font);
+}
+
+// Custom font ids that aren't registered; their text falls back to the system stack
+export function missingFonts(ids: string[]) {
+  return ids.filter((id) => !registry.has(id));
+}
+
+// The custom font ids among font keys (stack keys or ids), once each
+export function customFontIds(keys: (string | null)[]) {
+  return [...new Set(keys)].filter((key): key is string => !!key && !FONT_STACKS[key]);
+}
+
+// The registered fonts among `ids`, for files to carry
+export function registeredFonts(ids: string[]) {
+  return ids.flatMap((id) => registry.get(id) ?? []);
+}
+
+// Fonts carried by a file; malformed entries are dropped
+export function readCustomFonts(raw: unknown): CustomFont[] {
+  if (!Array.isArray(raw)) return [];
+  return raw.flatMap((font) =>
+    isRecord(font) &&
+    typeof font.id === "string" &&
+    typeof font.name === "string" &&
+    typeof font.format === "string" &&
+    Object.values(FORMATS).includes(font.format as FontFormat) &&
+    typeof font.src === "string" &&
+    font.src.startsWith("data:")
+      ? [{ id: font.id, name: font.name, format: font.format as FontFormat, src: font.src }]
+      : []
+  );
+}
+
+export function unregisterFont(id: string) {
+  registry.delete(id);
+  for (const face of document.fonts) {
+    if (face.family.replace(/"/g, "") === customFamily(id)) document.fonts.delete(face);
+  }
+}
+
+// By file extension; undefined for anything but a font
+export function fontFileFormat(fileName: string): FontFormat | undefined {
+  return FORMATS[fileName.split(".").pop()?.toLowerCase() ?? ""];
+}
+
+export async function readFontFile(file: File, id: string): Promise<CustomFont> {
+  const format = fontFileFormat(file.name);
+  if (!format) throw new FontFileError("Use a TTF, OTF, WOFF or WOFF2 file.");
+  const font: CustomFont = {
+    id,
+    name: file.name.replace(/\.[^.]+$/, ""),
+    format,
+    src: await readFileAsDataUrl(file),
+  };
+  try {
+    await registerFont(font);
+  } catch {
+    throw new FontFileError("The browser could not read this font file.");
+  }
+  return font;
+}
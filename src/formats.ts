@@ -0,0 +1,45 @@
+import { Design, SizeLayout, defaultSizeLayout, getSize } from "./design";
+import { findProfile } from "./platforms";
+
+// Multi-format export
+// - One design rendered at several canvas sizes
+// - Each size may scale the fonts, keep extra margin and frame the photo its
+//   own way
+// - Layers move from the design's safe zone into the target's: squeezed or
+//   stretched horizontally, and kept the same distance from the edge they
+//   are anchored to, so top and bottom text stay apart
+
+export function sizeLayout(design: Design, sizeId: string): SizeLayout {
+  return design.formats.layouts[sizeId] ?? defaultSizeLayout();
+}
+
+// Picked sizes this browser knows, in list order
+export function formatSizes(design: Design) {
+  return design.formats.sizeIds.flatMap((id) => findProfile(id) ?? []);
+}
+
+// The design as it renders at `sizeId`
+export function designForSize(design: Design, sizeId: string): Design {
+  const { fontScale, margin, crop } = sizeLayout(design, sizeId);
+  const from = getSize(design.sizeId);
+  const to = getSize(sizeId);
+  const fromInner = from.w - from.safe.left - from.safe.right;
+  const toInner = Math.max(0, to.w - to.safe.left - to.safe.right - 2 * margin);
+  const stretch = fromInner > 0 ? toInner / fromInner : 1;
+  return {
+    ...design,
+    sizeId: to.id,
+    crop: crop ?? design.crop,
+    layers: design.layers.map((layer) => ({
+      ...layer,
+      x: to.safe.left + margin + (layer.x - from.safe.left) * stretch,
+      y:
+        layer.y +
+        margin +
+        (layer.anchor === "top" ? to.safe.top - from.safe.top : to.safe.bottom - from.safe.bottom),
+      width: layer.width * stretch,
+      fontSize: Math.round(layer.fontSize * fontScale),
+      minFontSize: Math.round(layer.minFontSize * fontScale),
+    })),
+  };
+}
@@ -0,0 +1,47 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { Encoder, ExportFormat, QUALITY_RANGE, encodeImage } from "./imageExport";
+
+// Files grow by 1000 bytes per 0.1 quality; PNGs are 50 000 bytes
+function fakeEncoder() {
+  const calls: [ExportFormat, number | undefined][] = [];
+  const encode: Encoder = async (format, quality) => {
+    calls.push([format, quality]);
+    return new Uint8Array(format === "png" ? 50_000 : Math.round((quality ?? 1) * 10_000));
+  };
+  return { encode, calls };
+}
+
+test("PNG ignores the quality and only reports the cap", async () => {
+  const { encode, calls } = fakeEncoder();
+  const result = await encodeImage(encode, { format: "png", quality: 0.5, maxBytes: 10_000 });
+  assert.deepEqual([result.data.length, result.quality, result.overCap], [50_000, null, true]);
+  assert.deepEqual(calls, [["png", undefined]]);
+});
+
+test("a file under the cap is written once at the chosen quality", async () => {
+  const { encode, calls } = fakeEncoder();
+  const result = await encodeImage(encode, { format: "jpeg", quality: 0.8, maxBytes: 9_000 });
+  assert.deepEqual([result.data.length, result.quality, result.overCap], [8_000, 0.8, false]);
+  assert.equal(calls.length, 1);
+});
+
+test("the quality is clamped to its range", async () => {
+  const { encode } = fakeEncoder();
+  const result = await encodeImage(encode, { format: "webp", quality: 0.1, maxBytes: 0 });
+  assert.equal(result.quality, QUALITY_RANGE.min);
+});
+
+test("over the cap, the highest quality that fits is found", async () => {
+  const { encode } = fakeEncoder();
+  const result = await encodeImage(encode, { format: "jpeg", quality: 0.9, maxBytes: 6_500 });
+  assert.equal(result.overCap, false);
+  assert.ok(result.data.length <= 6_500);
+  assert.ok(result.quality! > 0.63 && result.quality! <= 0.65, `quality ${result.quality}`);
+});
+
+test("files that don't fit even at the lowest quality are flagged", async () => {
+  const { encode } = fakeEncoder();
+  const result = await encodeImage(encode, { format: "jpeg", quality: 0.9, maxBytes: 3_000 });
+  assert.deepEqual([result.data.length, result.quality, result.overCap], [4_000, QUALITY_RANGE.min, true]);
+});
@@ -0,0 +1,99 @@
+// Image encoding for exports
+// - PNG is lossless; JPEG and WebP take a quality setting
+// - With a size cap, the quality is searched downwards until the file fits
+// - PNGs can also go to the clipboard instead of a file
+
+export type ExportFormat = "png" | "jpeg" | "webp";
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; mime: string; ext: string }> = {
+  png: { label: "PNG", mime: "image/png", ext: "png" },
+  jpeg: { label: "JPEG", mime: "image/jpeg", ext: "jpg" },
+  webp: { label: "WebP", mime: "image/webp", ext: "webp" },
+};
+
+export const QUALITY_RANGE = { min: 0.4, max: 1 };
+
+export type EncodeOptions = {
+  format: ExportFormat;
+  quality: number; // 0..1, ignored for PNG
+  maxBytes: number; // 0 = no cap
+};
+
+export type EncodedImage = {
+  data: Uint8Array;
+  quality: number | null; // what was actually used; null for PNG
+  overCap: boolean; // still above maxBytes at the lowest quality
+};
+
+// Writes the picture in one format; the browser's canvas is one, the
+// command line brings its own
+export type Encoder = (format: ExportFormat, quality?: number) => Promise<Uint8Array>;
+
+export class EncodeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "EncodeError";
+  }
+}
+
+async function encodeAt(canvas: HTMLCanvasElement, format: ExportFormat, quality?: number) {
+  const { mime, label } = EXPORT_FORMATS[format];
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, mime, quality));
+  if (!blob) throw new EncodeError("Render failed");
+  // Browsers silently fall back to PNG for types they can't write
+  if (blob.type !== mime) throw new EncodeError(`This browser can't save ${label} files.`);
+  return new Uint8Array(await blob.arrayBuffer());
+}
+
+export function canvasEncoder(canvas: HTMLCanvasElement): Encoder {
+  return (format, quality) => encodeAt(canvas, format, quality);
+}
+
+export async function encodeImage(encode: Encoder, options: EncodeOptions): Promise<EncodedImage> {
+  const { format, maxBytes } = options;
+  if (format === "png") {
+    const data = await encode("png");
+    return { data, quality: null, overCap: maxBytes > 0 && data.length > maxBytes };
+  }
+
+  const quality = Math.min(Math.max(options.quality, QUALITY_RANGE.min), QUALITY_RANGE.max);
+  const first = await encode(format, quality);
+  if (!maxBytes || first.length <= maxBytes) return { data: first, quality, overCap: false };
+
+  const lowest = await encode(format, QUALITY_RANGE.min);
+  if (lowest.length > maxBytes) return { data: lowest, quality: QUALITY_RANGE.min, overCap: true };
+
+  // Highest quality that still fits, to within 2%
+  let best = { data: lowest, quality: QUALITY_RANGE.min };
+  let lo = QUALITY_RANGE.min;
+  let hi = quality;
+  while (hi - lo > 0.02) {
+    const mid = (lo + hi) / 2;
+    const data = await encode(format, mid);
+    if (data.length <= maxBytes) {
+      best = { data, quality: mid };
+      lo = mid;
+    } else {
+      hi = mid;
+    }
+  }
+  return { ...best, overCap: false };
+}
+
+// The clipboard only takes PNG. `png` may still be rendering: Safari wants the
+// clipboard item created during the click itself.
+export async function copyPngToClipboard(png: Promise<Blob>) {
+  if (typeof ClipboardItem === "undefined" || !navigator.clipboard?.write) {
+    throw new EncodeError("This browser can't copy images; use Export instead.");
+  }
+  try {
+    await navigator.clipboard.write([new ClipboardItem({ "image/png": png })]);
+  } catch (err) {
+    if (!(err instanceof DOMException)) throw err;
+    throw new EncodeError("The browser didn't allow copying the image.");
+  }
+}
+
+export async function encodePng(canvas: HTMLCanvasElement) {
+  return new Blob([await encodeAt(canvas, "png")] as BlobPart[], { type: EXPORT_FORMATS.png.mime });
+}
@@ -0,0 +1,92 @@
+import { Align, Design } from "./design";
+
+// Translations
+// - A layer's `text` is in the design's first locale; every other locale
+//   keeps its own text per layer (and per carousel slide) and falls back to it
+// - Right-to-left languages mirror the left/right alignment of every layer;
+//   the renderer takes the direction from the text itself
+// - Locale codes are BCP 47 tags ("en", "pt-BR")
+
+export const LOCALES = [
+  { code: "en", name: "English" },
+  { code: "es", name: "Spanish" },
+  { code: "fr", name: "French" },
+  { code: "de", name: "German" },
+  { code: "it", name: "Italian" },
+  { code: "pt", name: "Portuguese" },
+  { code: "pt-BR", name: "Portuguese (Brazil)" },
+  { code: "nl", name: "Dutch" },
+  { code: "pl", name: "Polish" },
+  { code: "tr", name: "Turkish" },
+  { code: "ru", name: "Russian" },
+  { code: "uk", name: "Ukrainian" },
+  { code: "ar", name: "Arabic" },
+  { code: "he", name: "Hebrew" },
+  { code: "fa", name: "Persian" },
+  { code: "ur", name: "Urdu" },
+  { code: "hi", name: "Hindi" },
+  { code: "id", name: "Indonesian" },
+  { code: "ja", name: "Japanese" },
+  { code: "ko", name: "Korean" },
+  { code: "zh", name: "Chinese" },
+];
+
+const RTL_LANGUAGES = ["ar", "he", "fa", "ur", "yi", "ps", "sd", "ug", "dv", "ckb"];
+
+// Hebrew, Arabic, Syriac, Thaana, N'Ko and their presentation forms
+const RTL_LETTER = /[\u0590-\u08ff\ufb1d-\ufdff\ufe70-\ufeff]/;
+
+const MIRRORED: Record<Align, Align> = { left: "right", center: "center", right: "left" };
+
+export function localeName(code: string) {
+  return LOCALES.find((l) => l.code === code)?.name ?? code;
+}
+
+export function isRtlLocale(code: string) {
+  return RTL_LANGUAGES.includes(code.split("-")[0].toLowerCase());
+}
+
+// Direction of text by its first letter, like dir="auto"
+export function isRtlText(text: string) {
+  const first = text.match(/\p{L}/u);
+  return !!first && RTL_LETTER.test(first[0]);
+}
+
+// The design with every text in `locale`; the first locale (or one the design
+// doesn't have) gives the design as is
+export function designForLocale(design: Design, locale: string): Design {
+  const base = design.locales[0];
+  if (locale === base || !design.locales.includes(locale)) return design;
+  const mirror = isRtlLocale(locale) !== isRtlLocale(base);
+  return {
+    ...design,
+    layers: design.layers.map((layer) => ({
+      ...layer,
+      text: layer.translations[locale] ?? layer.text,
+      align: mirror ? MIRRORED[layer.align] : layer.align,
+    })),
+    carousel: {
+      ...design.carousel,
+      slides: design.carousel.slides.map((slide) => ({
+        ...slide,
+        text: { ...slide.text, ...slide.translations[locale] },
+      })),
+    },
+  };
+}
+
+export function withoutLocale(design: Design, locale: string): Design {
+  const drop = <T>(map: Record<string, T>) => {
+    const { [locale]: _, ...rest } = map;
+    return rest;
+  };
+  return {
+    ...design,
+    locales: design.locales.filter((l) => l !== locale),
+    layers: design.layers.map((layer) => ({ ...layer, translations: drop(layer.translations) })),
+    carousel: {
+      ...design.carousel,
+      slides: design.carousel.slides.map((slide) => ({ ...slide, translations: drop(slide.translations) })),
+    },
+  };
+}
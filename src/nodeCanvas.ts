@@ -0,0 +1,125 @@
+import { readFile } from "node:fs/promises";
+import { basename } from "node:path";
+import { Canvas, GlobalFonts, createCanvas, loadImage } from "@napi-rs/canvas";
+import { Design, getSize } from "./design";
+import { BrandKit } from "./brand";
+import { CustomFont, customFamily, fontFileFormat, registerFont, setFontLoader } from "./fonts";
+import { Encoder } from "./imageExport";
+import { RenderExtras, RenderHost, RenderImage, drawDesign, findTextIssues, layoutDesign } from "./render";
+import { setMeasureContext } from "./textLayout";
+
+// Command-line host for the canvas renderer
+// - The counterpart of stageCanvas.ts on @napi-rs/canvas: same drawing, text
+//   layout and checks, so files match the browser's exports
+// - Fonts are the system's plus the files registered here and the custom
+//   fonts design and brand files carry; there is nothing to load before drawing
+// - Skia doesn't know CSS generic families (sans-serif, system-ui, …) and
+//   would fall back to a serif face, so contexts swap them for installed
+//   fonts when the font is set
+
+// Installed faces to use for each group of generic families, in order of
+// preference: metric-compatible with common browser fonts first
+const GENERIC_FAMILIES = [
+  {
+    generics: ["ui-sans-serif", "system-ui", "-apple-system", "sans-serif", "ui-rounded"],
+    faces: ["Arial", "Helvetica", "Liberation Sans", "Roboto", "Noto Sans", "DejaVu Sans"],
+  },
+  {
+    generics: ["ui-serif", "serif"],
+    faces: ["Times New Roman", "Liberation Serif", "Noto Serif", "DejaVu Serif"],
+  },
+  {
+    generics: ["ui-monospace", "monospace"],
+    faces: ["Menlo", "Consolas", "Liberation Mono", "Noto Sans Mono", "DejaVu Sans Mono"],
+  },
+];
+
+// Generic family → installed face. Aliases in GlobalFonts would only cover
+// the regular face and lose bold, so names are swapped in the font string.
+const genericFaces = new Map<string, string>();
+for (const { generics, faces } of GENERIC_FAMILIES) {
+  const face = faces.find((f) => GlobalFonts.has(f));
+  if (face) for (const generic of generics) genericFaces.set(generic, `"${face}"`);
+}
+
+// "600 40px ui-sans-serif, Arial" → "600 40px "DejaVu Sans", Arial"
+function withInstalledFamilies(font: string) {
+  const m = /^(.*?\d+(?:\.\d+)?px(?:\/\S+)?\s+)(.+)$/.exec(font);
+  if (!m) return font;
+  const families = m[2].split(",").map((f) => genericFaces.get(f.trim()) ?? f.trim());
+  return m[1] + families.join(", ");
+}
+
+// The library's context implements the DOM one the renderer is typed against
+function context2d(canvas: Canvas) {
+  const ctx = canvas.getContext("2d");
+  const font = Object.getOwnPropertyDescriptor(Object.getPrototypeOf(ctx), "font")!;
+  Object.defineProperty(ctx, "font", {
+    get: () => font.get!.call(ctx),
+    set: (value: string) => font.set!.call(ctx, withInstalledFamilies(value)),
+  });
+  return ctx as unknown as CanvasRenderingContext2D;
+}
+
+setMeasureContext(context2d(createCanvas(1, 1)));
+
+setFontLoader(async (font) => {
+  const data = Buffer.from(font.src.slice(font.src.indexOf(",") + 1), "base64");
+  if (!GlobalFonts.register(data, customFamily(font.id))) throw new Error(`"${font.name}" is not a font`);
+});
+
+export function createScratch(width: number, height: number) {
+  return context2d(createCanvas(Math.max(1, width), Math.max(1, height)));
+}
+
+// A font file under its own family name, or standing in for a custom font
+// of the builder (its id); false when the file isn't a font
+export async function registerFontFile(path: string, customId?: string) {
+  if (!customId) return GlobalFonts.registerFromPath(path) !== null;
+  const format = fontFileFormat(path);
+  const data = format ? await readFile(path).catch(() => null) : null;
+  if (!format || !data) return false;
+  const src = `data:font/${format};base64,${data.toString("base64")}`;
+  const font: CustomFont = { id: customId, name: basename(path), format, src };
+  return registerFont(font).then(
+    () => true,
+    () => false
+  );
+}
+
+async function loadRenderImage(src: string): Promise<RenderImage> {
+  const img = await loadImage(src);
+  return { source: img as unknown as CanvasImageSource, width: img.width, height: img.height };
+}
+
+async function loadHost(design: Design, brand: BrandKit): Promise<RenderHost> {
+  const [image, logo] = await Promise.all([
+    design.image ? loadRenderImage(design.image.src) : null,
+    brand.logo.src ? loadRenderImage(brand.logo.src).catch(() => null) : null,
+  ]);
+  return { brand, image, logo, createScratch };
+}
+
+// Like renderDesign in stageCanvas.ts
+export async function renderDesign(design: Design, brand: BrandKit, extras: RenderExtras = {}, pixelRatio = 1) {
+  const host = await loadHost(design, brand);
+  const size = getSize(design.sizeId);
+  const canvas = createCanvas(Math.round(size.w * pixelRatio), Math.round(size.h * pixelRatio));
+  const ctx = context2d(canvas);
+  ctx.scale(pixelRatio, pixelRatio);
+  drawDesign(ctx, design, host, extras);
+  return { canvas, issues: findTextIssues(layoutDesign(design, brand), size) };
+}
+
+export function canvasEncoder(canvas: Canvas): Encoder {
+  return async (format, quality = 1) => {
+    const data = format === "png" ? await canvas.encode("png") : await canvas.encode(format, Math.round(quality * 100));
+    return new Uint8Array(data.buffer, data.byteOffset, data.length);
+  };
+}
+
+// Size of a photo file, without drawing it
+export async function imageSize(data: Uint8Array) {
+  const img = await loadImage(data);
+  return { width: img.width, height: img.height };
+}
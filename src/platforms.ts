@@ -0,0 +1,196 @@
+import { clamp, isRecord, readNumber, readString } from "./utils";
+
+// Platform profiles
+// - A canvas size plus where the platform's own UI covers the post: the safe
+//   zone text should stay inside, and a mockup of that UI for the preview
+// - Built-in profiles keep the ids designs have always saved ("story",
+//   "square", …); any "custom-<w>x<h>" id is a custom size
+// - The user's own profiles live in IndexedDB and are registered here, so
+//   every part of the renderer resolves ids the same way
+
+// Insets from each edge, in stage pixels
+export type SafeZone = { left: number; right: number; top: number; bottom: number };
+
+// A piece of platform UI drawn over the preview, in stage pixels
+export type OverlayPart = {
+  kind: "bar" | "button" | "text";
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+  label?: string;
+};
+
+export type PlatformProfile = {
+  id: string;
+  platform: string;
+  name: string;
+  label: string; // "Instagram Story (1080×1920)"
+  w: number;
+  h: number;
+  safe: SafeZone;
+  overlay: OverlayPart[];
+  user?: boolean; // saved by the user
+};
+
+export const CUSTOM_SIZE_RANGE = { min: 200, max: 4096 };
+// Share of each side kept clear on custom sizes
+const CUSTOM_SAFE_SHARE = 0.06;
+const CUSTOM_PREFIX = "custom-";
+export const USER_PREFIX = "user-";
+
+export class ProfileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ProfileError";
+  }
+}
+
+function profile(
+  id: string,
+  platform: string,
+  name: string,
+  w: number,
+  h: number,
+  safe: SafeZone,
+  overlay: OverlayPart[] = []
+): PlatformProfile {
+  return { id, platform, name, label: `${platform} ${name} (${w}×${h})`, w, h, safe, overlay };
+}
+
+// Right-hand action buttons and a caption, as on vertical video feeds
+function videoFeedChrome(buttonsTop: number, captionTop: number): OverlayPart[] {
+  return [
+    ...["Like", "Comment", "Share"].map((label, i) => ({
+      kind: "button" as const,
+      left: 960,
+      top: buttonsTop + i * 150,
+      width: 84,
+      height: 84,
+      label,
+    })),
+    { kind: "text", left: 40, top: captionTop, width: 640, height: 40, label: "@account" },
+    { kind: "text", left: 40, top: captionTop + 56, width: 820, height: 36, label: "Caption text goes here…" },
+  ];
+}
+
+// Feed posts have no UI on top of them, only the old fixed insets
+const FEED_SAFE: SafeZone = { left: 70, right: 70, top: 90, bottom: 110 };
+
+const BUILT_IN_PROFILES: PlatformProfile[] = [
+  profile("story", "Instagram", "Story", 1080, 1920, { left: 64, right: 64, top: 250, bottom: 340 }, [
+    { kind: "bar", left: 24, top: 24, width: 1032, height: 6 },
+    { kind: "button", left: 40, top: 60, width: 88, height: 88 },
+    { kind: "text", left: 148, top: 84, width: 300, height: 40, label: "account" },
+    { kind: "bar", left: 40, top: 1780, width: 760, height: 96, label: "Send message" },
+    { kind: "button", left: 840, top: 1786, width: 84, height: 84, label: "Like" },
+    { kind: "button", left: 956, top: 1786, width: 84, height: 84, label: "Share" },
+  ]),
+  profile(
+    "reel",
+    "Instagram",
+    "Reels",
+    1080,
+    1920,
+    { left: 60, right: 180, top: 220, bottom: 420 },
+    videoFeedChrome(1080, 1600)
+  ),
+  profile("square", "Instagram", "Feed Square", 1080, 1080, FEED_SAFE),
+  profile("portrait", "Instagram", "Feed Portrait", 1080, 1350, FEED_SAFE),
+  profile("tiktok", "TikTok", "Video", 1080, 1920, { left: 60, right: 200, top: 160, bottom: 480 }, [
+    { kind: "text", left: 300, top: 90, width: 480, height: 44, label: "Following   For You" },
+    ...videoFeedChrome(980, 1560),
+  ]),
+  profile("x-post", "X", "Post (16:9)", 1600, 900, { left: 64, right: 64, top: 64, bottom: 64 }),
+  profile("linkedin", "LinkedIn", "Post", 1200, 627, { left: 60, right: 60, top: 50, bottom: 50 }),
+  profile("facebook", "Facebook", "Post", 1200, 630, { left: 60, right: 60, top: 50, bottom: 50 }),
+  profile("facebook-story", "Facebook", "Story", 1080, 1920, { left: 64, right: 64, top: 250, bottom: 340 }, [
+    { kind: "bar", left: 24, top: 24, width: 1032, height: 6 },
+    { kind: "button", left: 40, top: 60, width: 88, height: 88 },
+    { kind: "bar", left: 40, top: 1780, width: 1000, height: 96, label: "Reply…" },
+  ]),
+  profile("youtube-thumb", "YouTube", "Thumbnail", 1280, 720, { left: 60, right: 60, top: 50, bottom: 110 }, [
+    { kind: "bar", left: 1120, top: 640, width: 130, height: 50, label: "12:34" },
+  ]),
+  profile("pinterest", "Pinterest", "Pin", 1000, 1500, { left: 60, right: 60, top: 140, bottom: 120 }, [
+    { kind: "bar", left: 820, top: 30, width: 150, height: 72, label: "Save" },
+  ]),
+];
+
+let userProfiles: PlatformProfile[] = [];
+// One object per custom size, so an id resolves to the same profile each time
+const customProfiles = new Map<string, PlatformProfile>();
+
+export function builtInProfiles() {
+  return BUILT_IN_PROFILES;
+}
+
+// Built-ins, then the user's own
+export function allProfiles() {
+  return [...BUILT_IN_PROFILES, ...userProfiles];
+}
+
+export function registerProfiles(list: PlatformProfile[]) {
+  userProfiles = list;
+}
+
+export function customSizeId(w: number, h: number) {
+  return `${CUSTOM_PREFIX}${Math.round(w)}x${Math.round(h)}`;
+}
+
+export function customProfile(w: number, h: number): PlatformProfile {
+  const cw = clamp(Math.round(w), CUSTOM_SIZE_RANGE.min, CUSTOM_SIZE_RANGE.max);
+  const ch = clamp(Math.round(h), CUSTOM_SIZE_RANGE.min, CUSTOM_SIZE_RANGE.max);
+  const x = Math.round(cw * CUSTOM_SAFE_SHARE);
+  const y = Math.round(ch * CUSTOM_SAFE_SHARE);
+  return {
+    ...profile(customSizeId(cw, ch), "Custom", "size", cw, ch, { left: x, right: x, top: y, bottom: y }),
+    label: `Custom (${cw}×${ch})`,
+  };
+}
+
+// The profile for an id, or null for ids this browser doesn't know
+// (another user's profile, a typo in a sheet)
+export function findProfile(id: string): PlatformProfile | null {
+  const known = BUILT_IN_PROFILES.find((p) => p.id === id) ?? userProfiles.find((p) => p.id === id);
+  if (known) return known;
+  const custom = new RegExp(`^${CUSTOM_PREFIX}(\\d+)x(\\d+)$`).exec(id);
+  if (!custom) return null;
+  if (!customProfiles.has(id)) customProfiles.set(id, customProfile(Number(custom[1]), Number(custom[2])));
+  return customProfiles.get(id)!;
+}
+
+export function getProfile(id: string) {
+  return findProfile(id) ?? BUILT_IN_PROFILES[0];
+}
+
+// Safe insets that leave at least a quarter of each dimension
+function readSafe(value: unknown, w: number, h: number): SafeZone {
+  const raw = isRecord(value) ? value : {};
+  const side = (key: keyof SafeZone, max: number) => clamp(Math.round(readNumber(raw[key], 0)), 0, max);
+  return {
+    left: side("left", (w * 3) / 8),
+    right: side("right", (w * 3) / 8),
+    top: side("top", (h * 3) / 8),
+    bottom: side("bottom", (h * 3) / 8),
+  };
+}
+
+// A profile the user saved, checked like anything read back from storage
+export function validateUserProfile(raw: unknown): PlatformProfile {
+  if (!isRecord(raw)) throw new ProfileError("Profile is not an object.");
+  const id = readString(raw.id, "");
+  if (!id.startsWith(USER_PREFIX)) throw new ProfileError("Profile has no valid id.");
+  const w = readNumber(raw.w, 0);
+  const h = readNumber(raw.h, 0);
+  const inRange = (n: number) => n >= CUSTOM_SIZE_RANGE.min && n <= CUSTOM_SIZE_RANGE.max;
+  if (!inRange(w) || !inRange(h)) {
+    throw new ProfileError(`Sizes go from ${CUSTOM_SIZE_RANGE.min} to ${CUSTOM_SIZE_RANGE.max}px.`);
+  }
+  const name = readString(raw.name, "").trim() || "My profile";
+  return {
+    ...profile(id, "My profiles", name, Math.round(w), Math.round(h), readSafe(raw.safe, w, h)),
+    label: `${name} (${Math.round(w)}×${Math.round(h)})`,
+    user: true,
+  };
+}
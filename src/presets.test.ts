@@ -0,0 +1,38 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { createDesign } from "./design";
+import { resolveAllSlides } from "./carousel";
+import { designForLocale } from "./locales";
+import { applyPreset, builtInPresets } from "./presets";
+
+const preset = (id: string) => builtInPresets.find((p) => p.id === id)!;
+
+// A design on the classic preset with its top text translated to German
+function translatedDesign() {
+  const design = createDesign("classic");
+  return {
+    ...design,
+    locales: ["en", "de"],
+    layers: design.layers.map((l) =>
+      l.id === "top" ? { ...l, translations: { de: "Die Zukunft repariert sich nicht von selbst." } } : l
+    ),
+  };
+}
+
+test("switching presets replaces translations along with the text", () => {
+  const next = applyPreset(translatedDesign(), preset("classic"), preset("chapter1"));
+  const [german] = resolveAllSlides(designForLocale(next, "de"));
+  const top = german.design.layers.find((l) => l.id === "top")!;
+  assert.equal(top.text, preset("chapter1").layers.find((l) => l.id === "top")!.text);
+});
+
+test("edited text keeps its translations when presets switch", () => {
+  const design = translatedDesign();
+  const edited = {
+    ...design,
+    layers: design.layers.map((l) => (l.id === "top" ? { ...l, text: "The future is ours to fix." } : l)),
+  };
+  const next = applyPreset(edited, preset("classic"), preset("chapter1"));
+  const [german] = resolveAllSlides(designForLocale(next, "de"));
+  assert.equal(german.design.layers.find((l) => l.id === "top")!.text, "Die Zukunft repariert sich nicht von selbst.");
+});
@@ -0,0 +1,165 @@
+import { BgFit, Design, TextLayer, presetLayers, presets as builtInPresetData, validateLayers } from "./design";
+import { clamp, isRecord, makeId, readEnum, readNumber, readString } from "./utils";
+
+// Preset library
+// - A preset is a set of text layers (text + style) plus the look settings
+// - Built-ins are read-only; user presets live in IndexedDB and can be
+//   shared as a `.tstw-presets.json` file
+
+export const PRESETS_FORMAT = "tstw-presets";
+export const PRESETS_VERSION = 1;
+export const PRESETS_FILE_EXTENSION = ".tstw-presets.json";
+
+export type Preset = {
+  id: string;
+  name: string;
+  builtIn?: boolean;
+  layers: TextLayer[];
+  shadow: boolean;
+  bgFit: BgFit;
+  dim: number;
+};
+
+export class PresetFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PresetFileError";
+  }
+}
+
+export const builtInPresets: Preset[] = builtInPresetData.map((p) => ({
+  id: p.id,
+  name: p.name,
+  builtIn: true,
+  layers: presetLayers(p),
+  shadow: true,
+  bgFit: "cover",
+  dim: 0.25,
+}));
+
+export function presetFromDesign(design: Design, name: string, id = makeId()): Preset {
+  return {
+    id,
+    name,
+    layers: design.layers.map((l) => ({ ...l })),
+    shadow: design.shadow,
+    bgFit: design.bgFit,
+    dim: design.dim,
+  };
+}
+
+const LAYER_KEYS = [
+  "name",
+  "text",
+  "x",
+  "y",
+  "anchor",
+  "width",
+  "rotation",
+  "fontSize",
+  "autoFit",
+  "minFontSize",
+  "boxHeight",
+  "align",
+  "panel",
+  "font",
+  "fontFamily",
+  "fontWeight",
+  "letterSpacing",
+  "color",
+  "enter",
+  "enterAt",
+  "enterDuration",
+] as const;
+
+// Switches `design` from preset `from` to preset `to`. Anything the user
+// changed since `from` was applied is kept; everything still at the `from`
+// value takes the `to` value. Without a known `from`, `to` applies in full.
+export function applyPreset(design: Design, from: Preset | undefined, to: Preset): Design {
+  const untouched = <T>(current: T, previous: T | undefined) => !from || current === previous;
+
+  const fromLayers = new Map(from?.layers.map((l) => [l.id, l]));
+  const toLayers = new Map(to.layers.map((l) => [l.id, l]));
+  const layers: TextLayer[] = [];
+
+  for (const layer of design.layers) {
+    const previous = fromLayers.get(layer.id);
+    const incoming = toLayers.get(layer.id);
+    if (incoming) {
+      const merged: Record<string, unknown> = { ...layer };
+      for (const key of LAYER_KEYS) {
+        if (untouched(layer[key], previous?.[key])) merged[key] = incoming[key];
+      }
+      // Translations belong to the text: replaced along with it, else kept
+      if (untouched(layer.text, previous?.text)) merged.translations = incoming.translations;
+      layers.push(merged as TextLayer);
+    } else if (
+      !previous ||
+      LAYER_KEYS.some((key) => layer[key] !== previous[key]) ||
+      layer.translations !== previous.translations
+    ) {
+      // The user's own layer, or one they edited: keep it
+      layers.push(layer);
+    }
+  }
+  for (const incoming of to.layers) {
+    // Skip layers the user deleted after the previous preset added them
+    if (!design.layers.some((l) => l.id === incoming.id) && !(from && fromLayers.has(incoming.id))) {
+      layers.push({ ...incoming });
+    }
+  }
+
+  return {
+    ...design,
+    presetId: to.id,
+    layers,
+    shadow: untouched(design.shadow, from?.shadow) ? to.shadow : design.shadow,
+    bgFit: untouched(design.bgFit, from?.bgFit) ? to.bgFit : design.bgFit,
+    dim: untouched(design.dim, from?.dim) ? to.dim : design.dim,
+  };
+}
+
+export function serializePresets(list: Preset[]): string {
+  const presets = list.map(({ builtIn, ...preset }) => preset);
+  return JSON.stringify({ format: PRESETS_FORMAT, version: PRESETS_VERSION, presets }, null, 2);
+}
+
+export function parsePresetsFile(json: string): Preset[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new PresetFileError("File is not valid JSON.");
+  }
+  if (!isRecord(data) || data.format !== PRESETS_FORMAT || !Array.isArray(data.presets)) {
+    throw new PresetFileError("Not a TSTW presets file.");
+  }
+  if (typeof data.version !== "number" || data.version > PRESETS_VERSION) {
+    throw new PresetFileError("Presets file is from a newer version of the builder.");
+  }
+  return data.presets.filter(isRecord).map((raw) => {
+    const id = readString(raw.id, "");
+    // Never let an import shadow a built-in
+    return readPreset(raw, id && !builtInPresets.some((p) => p.id === id) ? id : makeId());
+  });
+}
+
+// Layers get the fields added since the preset was saved
+function readPreset(raw: Record<string, unknown>, id: string): Preset {
+  return {
+    id,
+    name: readString(raw.name, "").trim() || "Imported preset",
+    layers: Array.isArray(raw.layers) ? validateLayers(raw.layers) : [],
+    shadow: typeof raw.shadow === "boolean" ? raw.shadow : true,
+    bgFit: readEnum(raw.bgFit, ["cover", "contain"], "cover"),
+    dim: clamp(readNumber(raw.dim, 0.25), 0, 0.6),
+  };
+}
+
+// A preset from IndexedDB, possibly saved by an older version; null for a
+// record that isn't one
+export function validateStoredPreset(raw: unknown): Preset | null {
+  if (!isRecord(raw) || typeof raw.id !== "string" || !raw.id || !Array.isArray(raw.layers)) return null;
+  if (builtInPresets.some((p) => p.id === raw.id)) return null;
+  return readPreset(raw, raw.id);
+}
@@ -0,0 +1,82 @@
+import { DESIGN_VERSION, Design, migrateDesign, validateDesign } from "./design";
+import { plainText } from "./richText";
+import { isRecord, makeId, readEnum, readNumber, readString } from "./utils";
+
+// Post queue
+// - Planned posts, each a full design with its publish date, target size,
+//   caption and status
+// - Stored with the design version, so queued designs migrate like files do
+// - The list keeps the team's own order; the calendar groups by date
+
+export type PostStatus = "draft" | "ready" | "exported";
+export const POST_STATUSES: PostStatus[] = ["draft", "ready", "exported"];
+
+export type QueuedPost = {
+  id: string;
+  title: string;
+  design: Design;
+  publishAt: string; // local date and time, "YYYY-MM-DDTHH:mm"
+  sizeId: string; // target platform size; the design is adapted to it on export
+  caption: string;
+  status: PostStatus;
+  order: number; // position in the list
+};
+
+// What goes into IndexedDB
+export type StoredPost = QueuedPost & { version: number };
+
+const TITLE_CHARS = 60;
+const DEFAULT_PUBLISH_TIME = "09:00";
+
+export function localDate(date: Date) {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+// The first layer with text, else the photo's name
+export function postTitle(design: Design) {
+  const text = design.layers.map((l) => plainText(l.text).trim()).find(Boolean);
+  return (text?.split("\n")[0] ?? design.image?.name ?? "Untitled post").slice(0, TITLE_CHARS);
+}
+
+export function createPost(design: Design, order: number, day = new Date(Date.now() + 24 * 3600 * 1000)): QueuedPost {
+  return {
+    id: makeId(),
+    title: postTitle(design),
+    design,
+    publishAt: `${localDate(day)}T${DEFAULT_PUBLISH_TIME}`,
+    sizeId: design.sizeId,
+    caption: "",
+    status: "draft",
+    order,
+  };
+}
+
+export function storePost(post: QueuedPost): StoredPost {
+  return { ...post, version: DESIGN_VERSION };
+}
+
+// Throws DesignFileError for a design that can't be migrated
+export function validatePost(raw: unknown): QueuedPost | null {
+  if (!isRecord(raw) || typeof raw.id !== "string" || !isRecord(raw.design)) return null;
+  const version = readNumber(raw.version, DESIGN_VERSION);
+  const design = validateDesign(migrateDesign(raw.design, version));
+  return {
+    id: raw.id,
+    title: readString(raw.title, postTitle(design)),
+    design,
+    publishAt: /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}$/.test(String(raw.publishAt))
+      ? String(raw.publishAt)
+      : `${localDate(new Date())}T${DEFAULT_PUBLISH_TIME}`,
+    sizeId: readString(raw.sizeId, design.sizeId) || design.sizeId,
+    caption: readString(raw.caption, ""),
+    status: readEnum(raw.status, POST_STATUSES, "draft"),
+    order: readNumber(raw.order, 0),
+  };
+}
+
+// Monday to Sunday around `day`
+export function weekDays(day: Date) {
+  const monday = new Date(day.getFullYear(), day.getMonth(), day.getDate() - ((day.getDay() + 6) % 7));
+  return Array.from({ length: 7 }, (_, i) => new Date(monday.getFullYear(), monday.getMonth(), monday.getDate() + i));
+}
@@ -0,0 +1,83 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { defaultBrandKit } from "./brand";
+import { createDesign } from "./design";
+import {
+  BACKDROP_SCALE,
+  Backdrop,
+  applyReadabilityFix,
+  checkReadability,
+  contrastRatio,
+  luminance,
+  suggestReadability,
+} from "./readability";
+import { LayerLayout } from "./render";
+
+const STAGE = 100;
+
+// A backdrop of one color, sampled like a 100 px stage
+function solid(rgb: [number, number, number]): Backdrop {
+  const width = STAGE * BACKDROP_SCALE;
+  const data = new Uint8ClampedArray(width * width * 4);
+  for (let i = 0; i < data.length; i += 4) data.set([...rgb, 255], i);
+  return { data, width, height: width };
+}
+
+// Only the fields readability looks at: the layer and where its text is
+function layoutsOf(design: ReturnType<typeof createDesign>, emptyIds: string[] = []) {
+  const rect = { left: 0, top: 0, width: STAGE, height: STAGE };
+  return design.layers.map(
+    (layer) => ({ layer, empty: emptyIds.includes(layer.id), text: rect }) as unknown as LayerLayout
+  );
+}
+
+test("contrast ratios follow WCAG", () => {
+  const white = luminance([255, 255, 255]);
+  const black = luminance([0, 0, 0]);
+  assert.equal(contrastRatio(white, black), 21);
+  assert.equal(contrastRatio(black, white), 21);
+  assert.equal(contrastRatio(white, white), 1);
+  assert.ok(Math.abs(contrastRatio(luminance([118, 118, 118]), white) - 4.54) < 0.01);
+});
+
+test("layers are judged against what is behind them, empty ones are skipped", () => {
+  const design = { ...createDesign(), dim: 0, shadow: false };
+  design.layers = design.layers.map((l) => ({ ...l, panel: "none" as const }));
+  const [top, bottom] = design.layers;
+  const onBlack = checkReadability(solid([0, 0, 0]), layoutsOf(design, [bottom.id]), design, defaultBrandKit, 4.5);
+  assert.deepEqual(onBlack, [{ layerId: top.id, name: top.name, ratio: 21, passes: true }]);
+  const onWhite = checkReadability(solid([255, 255, 255]), layoutsOf(design), design, defaultBrandKit, 4.5);
+  assert.deepEqual(
+    onWhite.map((r) => [r.ratio, r.passes]),
+    [
+      [1, false],
+      [1, false],
+    ]
+  );
+});
+
+test("the suggested fix makes every layer pass", () => {
+  const design = { ...createDesign(), dim: 0, shadow: false };
+  const backdrop = solid([255, 255, 255]);
+  const fix = suggestReadability(backdrop, layoutsOf(design), defaultBrandKit, 4.5);
+  assert.equal(fix.passes, true);
+  const fixed = applyReadabilityFix(design, fix);
+  assert.ok(checkReadability(backdrop, layoutsOf(fixed), fixed, defaultBrandKit, 4.5).every((r) => r.passes));
+});
+
+test("a fix that doesn't exist falls back to the strongest combination", () => {
+  const design = createDesign();
+  const fix = suggestReadability(solid([255, 255, 255]), layoutsOf(design), defaultBrandKit, 21);
+  assert.deepEqual(
+    [fix.passes, fix.dim, fix.shadow, Object.values(fix.panels)],
+    [false, 0.6, true, design.layers.map(() => "box")]
+  );
+});
+
+test("applying a fix only touches the panels it names", () => {
+  const design = createDesign();
+  const [top, bottom] = design.layers;
+  const fixed = applyReadabilityFix(design, { dim: 0.4, shadow: true, panels: { [top.id]: "box" }, passes: true });
+  assert.deepEqual([fixed.dim, fixed.shadow, fixed.layers[0].panel], [0.4, true, "box"]);
+  assert.deepEqual(fixed.layers[1], bottom);
+});
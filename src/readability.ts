@@ -0,0 +1,161 @@
+import { Design, PanelStyle, TextLayer } from "./design";
+import { BrandKit } from "./brand";
+import { LayerLayout, PANEL_FILL_ALPHA } from "./render";
+
+// Readability
+// - Contrast is the WCAG ratio between the text color and what is behind it
+// - Busy photos are judged by their worst spots: the ratio that 90% of the
+//   pixels behind the text reach
+// - The backdrop is sampled once without dim; dim, panels and shadow are
+//   then applied arithmetically, so trying combinations is cheap
+
+export const CONTRAST_TARGETS = [
+  { ratio: 3, label: "3:1 (large text)" },
+  { ratio: 4.5, label: "4.5:1 (WCAG AA)" },
+  { ratio: 7, label: "7:1 (WCAG AAA)" },
+];
+
+export const BACKDROP_SCALE = 0.2;
+
+const WORST_SHARE = 0.1;
+// Rough share of the backdrop the text shadow darkens around the glyphs
+const SHADOW_DARKEN = 0.5;
+const DIM_STEP = 0.05;
+const MAX_DIM = 0.6;
+// What counts as "more" when choosing a combination
+const COST = { dim: 1, shadow: 0.15, panel: { none: 0, soft: 0.2, box: 0.35 } };
+
+// The adjusted photo, gradients and vignette, no dim, rendered at BACKDROP_SCALE
+export type Backdrop = { data: Uint8ClampedArray; width: number; height: number };
+
+export type LayerReadability = { layerId: string; name: string; ratio: number; passes: boolean };
+
+// Panels are by layer id, so a fix found on a carousel slide applies to the
+// shared layers without touching slide text
+export type ReadabilityFix = { dim: number; shadow: boolean; panels: Record<string, PanelStyle>; passes: boolean };
+
+type Treatment = { dim: number; shadow: boolean; panel: PanelStyle };
+
+type Rgb = [number, number, number];
+
+function hexRgb(hex: string): Rgb {
+  const n = parseInt(hex.slice(1), 16) || 0;
+  return [(n >> 16) & 255, (n >> 8) & 255, n & 255];
+}
+
+function channel(c: number) {
+  const v = c / 255;
+  return v <= 0.03928 ? v / 12.92 : ((v + 0.055) / 1.055) ** 2.4;
+}
+
+export function luminance([r, g, b]: Rgb) {
+  return 0.2126 * channel(r) + 0.7152 * channel(g) + 0.0722 * channel(b);
+}
+
+export function contrastRatio(a: number, b: number) {
+  return (Math.max(a, b) + 0.05) / (Math.min(a, b) + 0.05);
+}
+
+// Pixels of the backdrop under the layer's text (ignoring rotation)
+function samples(backdrop: Backdrop, l: LayerLayout): Rgb[] {
+  const x0 = Math.max(0, Math.floor(l.text.left * BACKDROP_SCALE));
+  const y0 = Math.max(0, Math.floor(l.text.top * BACKDROP_SCALE));
+  const x1 = Math.min(backdrop.width, Math.ceil((l.text.left + l.text.width) * BACKDROP_SCALE));
+  const y1 = Math.min(backdrop.height, Math.ceil((l.text.top + l.text.height) * BACKDROP_SCALE));
+  const out: Rgb[] = [];
+  for (let y = y0; y < y1; y++) {
+    for (let x = x0; x < x1; x++) {
+      const i = (y * backdrop.width + x) * 4;
+      out.push([backdrop.data[i], backdrop.data[i + 1], backdrop.data[i + 2]]);
+    }
+  }
+  return out;
+}
+
+function layerRatio(pixels: Rgb[], text: Rgb, panel: Rgb, t: Treatment) {
+  if (!pixels.length) return Infinity;
+  const textLum = luminance(text);
+  const cover = PANEL_FILL_ALPHA[t.panel];
+  const keep = (1 - t.dim) * (t.shadow ? 1 - SHADOW_DARKEN : 1);
+  const ratios = pixels
+    .map((px) => {
+      const seen = px.map((c, i) => (c * (1 - cover) + panel[i] * cover) * keep) as Rgb;
+      return contrastRatio(textLum, luminance(seen));
+    })
+    .sort((a, b) => a - b);
+  return ratios[Math.floor(ratios.length * WORST_SHARE)];
+}
+
+function treatmentOf(design: Design, layer: TextLayer): Treatment {
+  return { dim: design.dim, shadow: design.shadow, panel: layer.panel };
+}
+
+export function checkReadability(
+  backdrop: Backdrop,
+  layouts: LayerLayout[],
+  design: Design,
+  brand: BrandKit,
+  target: number
+): LayerReadability[] {
+  const panel = hexRgb(brand.palette.panel);
+  return layouts
+    .filter((l) => !l.empty)
+    .map((l) => {
+      const ratio = layerRatio(samples(backdrop, l), hexRgb(brand.palette[l.layer.color]), panel, treatmentOf(design, l.layer));
+      return { layerId: l.layer.id, name: l.layer.name, ratio, passes: ratio >= target };
+    });
+}
+
+// The cheapest dim, shadow and per-layer panels that bring every layer to
+// `target`. When nothing does, the combination with the best worst ratio.
+export function suggestReadability(
+  backdrop: Backdrop,
+  layouts: LayerLayout[],
+  brand: BrandKit,
+  target: number
+): ReadabilityFix {
+  const panelRgb = hexRgb(brand.palette.panel);
+  const shown = layouts
+    .filter((l) => !l.empty)
+    .map((l) => ({ layer: l.layer, pixels: samples(backdrop, l), text: hexRgb(brand.palette[l.layer.color]) }));
+
+  let best: { cost: number; worst: number; dim: number; shadow: boolean; panels: Record<string, PanelStyle> } | null =
+    null;
+  for (const shadow of [false, true]) {
+    for (let step = 0; step * DIM_STEP <= MAX_DIM + 1e-9; step++) {
+      const dim = Math.round(step * DIM_STEP * 100) / 100;
+      const panels: Record<string, PanelStyle> = {};
+      let cost = dim * COST.dim + (shadow ? COST.shadow : 0);
+      let worst = Infinity;
+      for (const s of shown) {
+        // Each layer takes its cheapest panel that passes, else the strongest
+        const ranked = (["none", "soft", "box"] as const).map((panel) => ({
+          panel,
+          ratio: layerRatio(s.pixels, s.text, panelRgb, { dim, shadow, panel }),
+        }));
+        const pick = ranked.find((r) => r.ratio >= target) ?? ranked.reduce((a, b) => (b.ratio > a.ratio ? b : a));
+        panels[s.layer.id] = pick.panel;
+        cost += COST.panel[pick.panel];
+        worst = Math.min(worst, pick.ratio);
+      }
+      const passes = worst >= target;
+      const better =
+        !best ||
+        (passes && (best.worst < target || cost < best.cost)) ||
+        (!passes && best.worst < target && worst > best.worst);
+      if (better) best = { cost, worst, dim, shadow, panels };
+    }
+  }
+
+  const { dim, shadow, panels, worst } = best!;
+  return { dim, shadow, panels, passes: worst >= target };
+}
+
+export function applyReadabilityFix(design: Design, fix: ReadabilityFix): Design {
+  return {
+    ...design,
+    dim: fix.dim,
+    shadow: fix.shadow,
+    layers: design.layers.map((l) => (fix.panels[l.id] ? { ...l, panel: fix.panels[l.id] } : l)),
+  };
+}
@@ -0,0 +1,635 @@
+import { Design, GradientOverlay, TextLayer, getSize } from "./design";
+import { adjustPixels, hexToRgb, isNeutralAdjust } from "./adjust";
+import { placeImage } from "./crop";
+import { BrandKit, LOGO_MARGIN, fontStack, withAlpha } from "./brand";
+import { fontFamilyCss } from "./fonts";
+import {
+  LINE_HEIGHT,
+  PANEL_PADDING,
+  TextFont,
+  TextLine,
+  boldWeight,
+  cssFont,
+  fitFontSize,
+  layoutText,
+  measureLine,
+  runFont,
+} from "./textLayout";
+import { LayerFrame, designAt, layerAt } from "./animation";
+import { OverlayPart, SafeZone } from "./platforms";
+import { isRtlText } from "./locales";
+
+// Canvas renderer
+// - Draws a design straight onto a 2D canvas, in stage pixels; callers scale
+//   the context for the resolution they want
+// - The only way a design becomes pixels: preview, export, batch and video
+// - No DOM: images and scratch canvases come from the host
+// - Blurs (soft panels, text shadow, photo, vignette) and photo adjustments
+//   are computed here rather than with canvas filters and shadows, which
+//   differ between browsers
+
+const PANEL_RADIUS = 24;
+// How much of the panel color covers what is behind it
+export const PANEL_FILL_ALPHA = { none: 0, soft: 0.35, box: 0.6 };
+const SOFT_PANEL_BLUR = 6; // standard deviation, like CSS blur()
+const TEXT_SHADOWS = [
+  { dy: 3, sigma: 7, alpha: 0.55 },
+  { dy: 2, sigma: 1, alpha: 0.45 },
+];
+// An inset shadow: everything outside the stage, blurred. Its darkness is
+// part of the design (adjust.vignette).
+const VIGNETTE = { sigma: 110 };
+const GRADIENT_STOPS = 6;
+// Share of a Gaussian beyond k standard deviations
+const GAUSS_TAIL = [
+  [0, 0.5],
+  [0.5, 0.3085],
+  [1, 0.1587],
+  [1.5, 0.0668],
+  [2, 0.0228],
+  [3, 0],
+];
+// Carousel page indicator and text logo
+const PAGE_LABEL = { size: 28, right: 56, top: 36 };
+const MARK_LINE_HEIGHT = 1.5;
+const MARK_TRACKING = 0.05; // em
+// Highlight marker around a run, in em
+const HIGHLIGHT_PAD = 0.08;
+// Platform UI mockup
+const OVERLAY = { fill: "rgba(255,255,255,0.28)", text: "rgba(255,255,255,0.85)", family: "system-ui, sans-serif" };
+
+type Size = { w: number; h: number };
+// A canvas size with the platform's safe zone
+type Frame = Size & { safe: SafeZone };
+
+export type Rect = { left: number; top: number; width: number; height: number };
+
+export type RenderImage = { source: CanvasImageSource; width: number; height: number };
+
+// Everything drawing needs besides the design
+export type RenderHost = {
+  brand: BrandKit;
+  image: RenderImage | null; // the design's photo, decoded
+  logo: RenderImage | null; // the brand kit's logo, decoded
+  createScratch: (width: number, height: number) => CanvasRenderingContext2D;
+};
+
+export type RenderExtras = {
+  pageLabel?: string; // carousel indicator, e.g. "2/5"
+  time?: number; // seconds into the animation; omitted = the finished frame
+  placeholders?: boolean; // draw empty layers as their name (the editor)
+  overlay?: boolean; // mock up the platform's UI on top (the editor)
+};
+
+export type LayerLayout = {
+  layer: TextLayer;
+  empty: boolean; // drawn only as a placeholder
+  font: TextFont;
+  lines: TextLine[];
+  block: Rect; // the layer's box: its panel, or the auto-fit box around it
+  panel: Rect;
+  text: Rect; // the panel without its padding
+  fitOverflow: number | null; // auto-fit gave up at this size
+  tooWide: boolean;
+  rtl: boolean; // runs go right to left
+};
+
+export type TextIssue = { layerIds: string[]; message: string };
+
+export function layoutLayer(layer: TextLayer, brand: BrandKit, stage: Frame): LayerLayout {
+  const empty = !layer.text.trim();
+  const family = layer.fontFamily ? fontFamilyCss(layer.fontFamily) : fontStack(brand, layer.font);
+  const text = empty ? layer.name : layer.text;
+  // Right-to-left runs are drawn whole, so Arabic letters stay joined; that
+  // leaves no room for letter spacing
+  const rtl = isRtlText(text);
+  const base = { family, weight: layer.fontWeight, letterSpacing: rtl ? 0 : layer.letterSpacing };
+  const contentWidth = layer.width - 2 * PANEL_PADDING.x;
+
+  // Auto-fit: a box of `boxHeight`, cut off at the far safe zone edge, in which
+  // the font shrinks from `fontSize` down to `minFontSize`
+  const boxHeight = layer.autoFit
+    ? Math.max(
+        0,
+        Math.min(layer.boxHeight, stage.h - layer.y - (layer.anchor === "top" ? stage.safe.bottom : stage.safe.top))
+      )
+    : null;
+  const fit =
+    boxHeight !== null
+      ? fitFontSize(
+          text,
+          base,
+          { width: contentWidth, height: boxHeight - 2 * PANEL_PADDING.y },
+          Math.min(layer.minFontSize, layer.fontSize),
+          layer.fontSize
+        )
+      : null;
+  const font = { ...base, size: fit?.size ?? layer.fontSize };
+  const { lines, height, tooWide } = layoutText(text, font, contentWidth);
+
+  const panelHeight = height + 2 * PANEL_PADDING.y;
+  const blockHeight = boxHeight ?? panelHeight;
+  const blockTop = layer.anchor === "top" ? layer.y : stage.h - layer.y - blockHeight;
+  // The panel hugs the anchored edge of its box
+  const panelTop = layer.anchor === "top" ? blockTop : blockTop + blockHeight - panelHeight;
+  return {
+    layer,
+    empty,
+    font,
+    lines,
+    block: { left: layer.x, top: blockTop, width: layer.width, height: blockHeight },
+    panel: { left: layer.x, top: panelTop, width: layer.width, height: panelHeight },
+    text: { left: layer.x + PANEL_PADDING.x, top: panelTop + PANEL_PADDING.y, width: contentWidth, height },
+    fitOverflow: fit && !fit.fits ? fit.size : null,
+    tooWide,
+    rtl,
+  };
+}
+
+export function layoutDesign(design: Design, brand: BrandKit) {
+  const size = getSize(design.sizeId);
+  return design.layers.map((layer) => layoutLayer(layer, brand, size));
+}
+
+// Text that leaves the safe zone, doesn't fit its auto-fit box, or overlaps
+// other text. Rotation and animation are ignored: the still frame counts.
+export function findTextIssues(layouts: LayerLayout[], stage: Frame): TextIssue[] {
+  const { safe } = stage;
+  const issues: TextIssue[] = [];
+  const shown = layouts.filter((l) => !l.empty);
+  const label = (l: LayerLayout) => l.layer.name || "Text";
+  const issue = (message: string, ...of: LayerLayout[]) => issues.push({ layerIds: of.map((l) => l.layer.id), message });
+
+  for (const l of shown) {
+    const { text } = l;
+    if (l.fitOverflow !== null) {
+      issue(`${label(l)} doesn't fit its box even at ${l.fitOverflow}px`, l);
+    } else if (
+      text.top < safe.top ||
+      text.top + text.height > stage.h - safe.bottom ||
+      text.left < safe.left ||
+      text.left + text.width > stage.w - safe.right
+    ) {
+      issue(`${label(l)} runs outside the safe zone`, l);
+    } else if (l.tooWide) {
+      issue(`${label(l)} has a word too wide for the line`, l);
+    }
+  }
+
+  // Compare the visible panels, not auto-fit boxes, which may be taller
+  for (let i = 0; i < shown.length; i++) {
+    for (let j = i + 1; j < shown.length; j++) {
+      const a = shown[i].panel;
+      const b = shown[j].panel;
+      if (a.top < b.top + b.height && b.top < a.top + a.height && a.left < b.left + b.width && b.left < a.left + a.width) {
+        issue(`${label(shown[i])} and ${label(shown[j])} overlap`, shown[i], shown[j]);
+      }
+    }
+  }
+  return issues;
+}
+
+// CSS fonts the design draws with, so hosts can load them first
+export function designFonts(design: Design, brand: BrandKit) {
+  const fonts = new Set<string>();
+  const add = (family: string, weight: number, italic = false) =>
+    fonts.add(cssFont({ family, weight, size: 100, letterSpacing: 0, italic }));
+  add(fontStack(brand, "body"), 600);
+  add(fontStack(brand, "heading"), 600);
+  for (const layer of design.layers) {
+    const family = layer.fontFamily ? fontFamilyCss(layer.fontFamily) : fontStack(brand, layer.font);
+    // Markup may ask for bold and italic runs
+    for (const weight of [layer.fontWeight, boldWeight(layer.fontWeight)]) {
+      add(family, weight);
+      add(family, weight, true);
+    }
+  }
+  return Array.from(fonts);
+}
+
+export function drawDesign(ctx: CanvasRenderingContext2D, design: Design, host: RenderHost, extras: RenderExtras = {}) {
+  const size = getSize(design.sizeId);
+  const { time } = extras;
+  ctx.save();
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = "high";
+
+  drawBackdrop(ctx, time === undefined ? design : designAt(design, time), host);
+
+  // Safe zone
+  const { safe } = size;
+  ctx.strokeStyle = "rgba(255,255,255,0.1)";
+  ctx.lineWidth = 1;
+  roundedRect(
+    ctx,
+    {
+      left: safe.left + 0.5,
+      top: safe.top + 0.5,
+      width: size.w - safe.left - safe.right - 1,
+      height: size.h - safe.top - safe.bottom - 1,
+    },
+    PANEL_RADIUS
+  );
+  ctx.stroke();
+
+  // Text layers, back to front
+  for (const layout of layoutDesign(design, host.brand)) {
+    if (layout.empty && !extras.placeholders) continue;
+    drawLayer(ctx, layout, design.shadow, host, time === undefined ? null : layerAt(layout.layer, time));
+  }
+
+  if (extras.pageLabel) drawPageLabel(ctx, extras.pageLabel, host.brand, size);
+  drawBrandMark(ctx, host, size);
+  if (extras.overlay) drawOverlay(ctx, size.overlay);
+  ctx.restore();
+}
+
+// Everything behind the text: the adjusted photo, the dim overlay, gradient
+// overlays and the vignette. Only the host's image, brand and scratch
+// canvases are used.
+export function drawBackdrop(ctx: CanvasRenderingContext2D, design: Design, host: RenderHost) {
+  const size = getSize(design.sizeId);
+  if (host.image && !isNeutralAdjust(design.adjust)) drawAdjustedBackground(ctx, design, host, size);
+  else drawBackground(ctx, design, host.image, size);
+  ctx.fillStyle = `rgba(0,0,0,${design.dim})`;
+  ctx.fillRect(0, 0, size.w, size.h);
+  for (const g of design.gradients) drawGradient(ctx, g, host.brand, size);
+  drawVignette(ctx, size, design.adjust.vignette);
+}
+
+// The photo is drawn on a scratch canvas at the output resolution, adjusted
+// pixel by pixel and blurred there, then copied back
+function drawAdjustedBackground(ctx: CanvasRenderingContext2D, design: Design, host: RenderHost, size: Size) {
+  const m = ctx.getTransform();
+  const sx = Math.hypot(m.a, m.b);
+  const sy = Math.hypot(m.c, m.d);
+  const scratch = host.createScratch(Math.ceil(size.w * sx), Math.ceil(size.h * sy));
+  scratch.scale(sx, sy);
+  drawBackground(scratch, design, host.image, size);
+
+  const { adjust } = design;
+  const { width, height } = scratch.canvas;
+  const pixels = scratch.getImageData(0, 0, width, height);
+  const palette = host.brand.palette;
+  adjustPixels(pixels.data, adjust, [hexToRgb(palette[adjust.duotoneDark]), hexToRgb(palette[adjust.duotoneLight])]);
+  scratch.putImageData(pixels, 0, 0);
+  if (adjust.blur > 0) blurScratch(scratch, adjust.blur * Math.max(sx, sy), [0, 1, 2]);
+  ctx.drawImage(scratch.canvas, 0, 0, size.w, size.h);
+}
+
+function drawBackground(ctx: CanvasRenderingContext2D, design: Design, image: RenderImage | null, size: Size) {
+  if (!image) {
+    const gradient = ctx.createLinearGradient(0, 0, 0, size.h);
+    gradient.addColorStop(0, "#18181b");
+    gradient.addColorStop(1, "#000000");
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, size.w, size.h);
+    return;
+  }
+  const p = placeImage(design.crop, design.bgFit, { w: image.width, h: image.height }, size);
+  ctx.save();
+  ctx.beginPath();
+  ctx.rect(0, 0, size.w, size.h);
+  ctx.clip();
+  ctx.translate(p.left + p.originX, p.top + p.originY);
+  ctx.rotate((p.rotation * Math.PI) / 180);
+  ctx.drawImage(image.source, -p.originX, -p.originY, p.width, p.height);
+  ctx.restore();
+}
+
+// Eases out from the edge, so there is no visible line where it ends
+function drawGradient(ctx: CanvasRenderingContext2D, g: GradientOverlay, brand: BrandKit, size: Size) {
+  const vertical = g.edge === "top" || g.edge === "bottom";
+  const reach = g.size * (vertical ? size.h : size.w);
+  const from = { top: [0, 0], bottom: [0, size.h], left: [0, 0], right: [size.w, 0] }[g.edge];
+  const to = {
+    top: [0, reach],
+    bottom: [0, size.h - reach],
+    left: [reach, 0],
+    right: [size.w - reach, 0],
+  }[g.edge];
+  const gradient = ctx.createLinearGradient(from[0], from[1], to[0], to[1]);
+  for (let k = 0; k <= GRADIENT_STOPS; k++) {
+    const t = k / GRADIENT_STOPS;
+    gradient.addColorStop(t, withAlpha(brand.palette[g.color], g.opacity * (1 - t) ** 2));
+  }
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, size.w, size.h);
+}
+
+// One gradient per edge; where two meet they add up, as the shadow does
+function drawVignette(ctx: CanvasRenderingContext2D, size: Size, alpha: number) {
+  if (alpha <= 0) return;
+  const reach = 3 * VIGNETTE.sigma;
+  const edges = [
+    { from: [0, 0], to: [0, reach], rect: [0, 0, size.w, reach] },
+    { from: [0, size.h], to: [0, size.h - reach], rect: [0, size.h - reach, size.w, reach] },
+    { from: [0, 0], to: [reach, 0], rect: [0, 0, reach, size.h] },
+    { from: [size.w, 0], to: [size.w - reach, 0], rect: [size.w - reach, 0, reach, size.h] },
+  ];
+  for (const edge of edges) {
+    const gradient = ctx.createLinearGradient(edge.from[0], edge.from[1], edge.to[0], edge.to[1]);
+    for (const [k, tail] of GAUSS_TAIL) gradient.addColorStop(k / 3, `rgba(0,0,0,${alpha * tail})`);
+    ctx.fillStyle = gradient;
+    ctx.fillRect(edge.rect[0], edge.rect[1], edge.rect[2], edge.rect[3]);
+  }
+}
+
+function drawLayer(
+  ctx: CanvasRenderingContext2D,
+  l: LayerLayout,
+  shadow: boolean,
+  host: RenderHost,
+  frame: LayerFrame | null
+) {
+  const { layer, block } = l;
+  const color = host.brand.palette[layer.color];
+  const cx = block.left + block.width / 2;
+  const cy = block.top + block.height / 2;
+  ctx.save();
+  ctx.globalAlpha *= frame?.opacity ?? 1;
+  ctx.translate(cx, cy + (frame?.offsetY ?? 0));
+  ctx.rotate((layer.rotation * Math.PI) / 180);
+  ctx.translate(-cx, -cy);
+
+  if (l.empty) {
+    ctx.fillStyle = withAlpha(color, 0.4);
+    drawLines(ctx, l, null, null);
+  } else {
+    const { palette } = host.brand;
+    drawPanel(ctx, l, color, host);
+    const chars = frame?.chars ?? null;
+    if (shadow) for (const s of TEXT_SHADOWS) drawTextShadow(ctx, l, chars, s, host);
+    drawLines(ctx, l, chars, {
+      text: withAlpha(color, 0.96),
+      accent: withAlpha(palette.accent, 0.96),
+      highlight: palette.accent,
+      onHighlight: withAlpha(palette.panel, 0.96),
+    });
+  }
+  ctx.restore();
+}
+
+function drawPanel(ctx: CanvasRenderingContext2D, l: LayerLayout, color: string, host: RenderHost) {
+  const { panel } = l;
+  const fill = host.brand.palette.panel;
+  if (l.layer.panel === "soft") {
+    blurBackdrop(ctx, panel, host);
+    ctx.fillStyle = withAlpha(fill, PANEL_FILL_ALPHA.soft);
+    roundedRect(ctx, panel, PANEL_RADIUS);
+    ctx.fill();
+  } else if (l.layer.panel === "box") {
+    ctx.fillStyle = withAlpha(fill, PANEL_FILL_ALPHA.box);
+    roundedRect(ctx, panel, PANEL_RADIUS);
+    ctx.fill();
+    ctx.strokeStyle = withAlpha(color, 0.18);
+    ctx.lineWidth = 2;
+    roundedRect(
+      ctx,
+      { left: panel.left + 1, top: panel.top + 1, width: panel.width - 2, height: panel.height - 2 },
+      PANEL_RADIUS - 1
+    );
+    ctx.stroke();
+  }
+}
+
+// Colors for markup; without them everything is drawn in the current fill
+// style and highlights are left out (shadows)
+type TextPaint = { text: string; accent: string; highlight: string; onHighlight: string };
+
+// Draws the laid-out lines. `chars` stops after that many characters
+// (typewriter) without moving any line.
+function drawLines(ctx: CanvasRenderingContext2D, l: LayerLayout, chars: number | null, paint: TextPaint | null) {
+  const { text, rtl } = l;
+  ctx.textBaseline = "middle";
+  // Runs are placed by hand, so each is drawn from its own start edge
+  ctx.direction = rtl ? "rtl" : "ltr";
+  ctx.textAlign = rtl ? "right" : "left";
+  let top = text.top;
+  let left = chars ?? Infinity;
+  for (const line of l.lines) {
+    const lineHeight = line.size * LINE_HEIGHT;
+    const y = top + lineHeight / 2;
+    top += lineHeight;
+    // Overflowing lines start-align, as in CSS
+    const align = line.width > text.width ? (rtl ? "right" : "left") : l.layer.align;
+    const lineLeft =
+      align === "left"
+        ? text.left
+        : align === "center"
+        ? text.left + (text.width - line.width) / 2
+        : text.left + text.width - line.width;
+    let x = rtl ? lineLeft + line.width : lineLeft;
+    for (const run of line.runs) {
+      const glyphs = Array.from(run.text);
+      const shown = glyphs.slice(0, Math.max(0, left)).join("");
+      left -= glyphs.length;
+      if (shown.trim()) {
+        const font = runFont(l.font, run.style, line.size);
+        if (paint && run.style.highlight) {
+          const pad = HIGHLIGHT_PAD * line.size;
+          const width = shown === run.text ? run.width : measureLine(shown, font);
+          ctx.fillStyle = paint.highlight;
+          roundedRect(
+            ctx,
+            {
+              left: (rtl ? x - width : x) - pad,
+              top: y - lineHeight / 2 + pad,
+              width: width + 2 * pad,
+              height: lineHeight - 2 * pad,
+            },
+            2 * pad
+          );
+          ctx.fill();
+        }
+        if (paint) ctx.fillStyle = run.style.highlight ? paint.onHighlight : run.style.accent ? paint.accent : paint.text;
+        ctx.font = cssFont(font);
+        fillSpaced(ctx, shown, x, y, font);
+      }
+      x += rtl ? -run.width : run.width;
+    }
+    left -= 1; // the space or line break it was split at
+  }
+}
+
+// Canvas letter-spacing support varies, so spacing is added by hand, after
+// every character like CSS does
+function fillSpaced(ctx: CanvasRenderingContext2D, text: string, x: number, y: number, font: TextFont) {
+  const spacing = font.letterSpacing * font.size;
+  if (!spacing) {
+    ctx.fillText(text, x, y);
+    return;
+  }
+  let prefix = "";
+  Array.from(text).forEach((char, i) => {
+    ctx.fillText(char, x + ctx.measureText(prefix).width + spacing * i, y);
+    prefix += char;
+  });
+}
+
+function drawPageLabel(ctx: CanvasRenderingContext2D, label: string, brand: BrandKit, size: Size) {
+  const font = { family: fontStack(brand, "body"), weight: 600, size: PAGE_LABEL.size, letterSpacing: MARK_TRACKING };
+  ctx.font = cssFont(font);
+  ctx.textBaseline = "middle";
+  ctx.fillStyle = withAlpha(brand.palette.text, 0.7);
+  const x = size.w - PAGE_LABEL.right - measureLine(label, font);
+  fillSpaced(ctx, label, x, PAGE_LABEL.top + (PAGE_LABEL.size * MARK_LINE_HEIGHT) / 2, font);
+}
+
+function drawBrandMark(ctx: CanvasRenderingContext2D, host: RenderHost, size: Size) {
+  const { logo, palette } = host.brand;
+  const font = { family: fontStack(host.brand, "heading"), weight: 600, size: logo.size, letterSpacing: MARK_TRACKING };
+  let width: number;
+  let height: number;
+  if (logo.src) {
+    if (!host.logo) return;
+    height = logo.size;
+    width = (host.logo.width * height) / host.logo.height;
+  } else {
+    if (!logo.text.trim()) return;
+    width = measureLine(logo.text, font);
+    height = logo.size * MARK_LINE_HEIGHT;
+  }
+  const [vertical, horizontal] = logo.position.split("-");
+  const left = horizontal === "left" ? LOGO_MARGIN.x : size.w - LOGO_MARGIN.x - width;
+  const top = vertical === "top" ? LOGO_MARGIN.y : size.h - LOGO_MARGIN.y - height;
+
+  ctx.save();
+  ctx.globalAlpha *= logo.opacity;
+  if (logo.src) {
+    ctx.drawImage(host.logo!.source, left, top, width, height);
+  } else {
+    ctx.font = cssFont(font);
+    ctx.textBaseline = "middle";
+    ctx.fillStyle = palette.text;
+    fillSpaced(ctx, logo.text, left, top + height / 2, font);
+  }
+  ctx.restore();
+}
+
+// Grey stand-ins for the platform's buttons, bars and captions
+function drawOverlay(ctx: CanvasRenderingContext2D, parts: OverlayPart[]) {
+  ctx.save();
+  ctx.textBaseline = "middle";
+  for (const part of parts) {
+    const { left, top, width, height } = part;
+    if (part.kind === "text") {
+      ctx.fillStyle = OVERLAY.text;
+      ctx.font = cssFont({ family: OVERLAY.family, weight: 600, size: height * 0.8, letterSpacing: 0 });
+      ctx.fillText(part.label ?? "", left, top + height / 2, width);
+      continue;
+    }
+    ctx.fillStyle = OVERLAY.fill;
+    roundedRect(ctx, part, part.kind === "button" ? Math.min(width, height) / 2 : Math.min(PANEL_RADIUS, height / 2));
+    ctx.fill();
+    if (part.label) {
+      ctx.fillStyle = OVERLAY.text;
+      const size = part.kind === "button" ? height * 0.22 : height * 0.4;
+      ctx.font = cssFont({ family: OVERLAY.family, weight: 600, size, letterSpacing: 0 });
+      ctx.textAlign = part.kind === "button" ? "center" : "left";
+      const x = part.kind === "button" ? left + width / 2 : left + height / 2;
+      ctx.fillText(part.label, x, top + height / 2, width - (part.kind === "button" ? 8 : height));
+      ctx.textAlign = "left";
+    }
+  }
+  ctx.restore();
+}
+
+// Blurs are done on a small scratch canvas: a blurred image needs few pixels
+function blurScale(sigma: number) {
+  return Math.min(2, 4 / sigma);
+}
+
+// What is already drawn under `rect` (in the current transform), blurred,
+// clipped to the panel shape
+function blurBackdrop(ctx: CanvasRenderingContext2D, rect: Rect, host: RenderHost) {
+  const scale = blurScale(SOFT_PANEL_BLUR);
+  const scratch = host.createScratch(Math.ceil(rect.width * scale), Math.ceil(rect.height * scale));
+  const inv = invert(ctx.getTransform());
+  scratch.scale(scale, scale);
+  scratch.translate(-rect.left, -rect.top);
+  scratch.transform(inv.a, inv.b, inv.c, inv.d, inv.e, inv.f);
+  scratch.drawImage(ctx.canvas, 0, 0);
+  blurScratch(scratch, SOFT_PANEL_BLUR * scale, [0, 1, 2, 3]);
+
+  ctx.save();
+  roundedRect(ctx, rect, PANEL_RADIUS);
+  ctx.clip();
+  ctx.drawImage(scratch.canvas, rect.left, rect.top, rect.width, rect.height);
+  ctx.restore();
+}
+
+function drawTextShadow(
+  ctx: CanvasRenderingContext2D,
+  l: LayerLayout,
+  chars: number | null,
+  shadow: { dy: number; sigma: number; alpha: number },
+  host: RenderHost
+) {
+  const scale = blurScale(shadow.sigma);
+  const pad = Math.ceil(3 * shadow.sigma);
+  const area = { left: l.text.left - pad, top: l.text.top - pad, width: l.text.width + 2 * pad, height: l.text.height + 2 * pad };
+  const scratch = host.createScratch(Math.ceil(area.width * scale), Math.ceil(area.height * scale));
+  scratch.scale(scale, scale);
+  scratch.translate(-area.left, -area.top);
+  scratch.fillStyle = "#000000";
+  drawLines(scratch, l, chars, null);
+  // Black text: only the alpha channel needs blurring
+  blurScratch(scratch, shadow.sigma * scale, [3]);
+
+  ctx.save();
+  ctx.globalAlpha *= shadow.alpha;
+  ctx.drawImage(scratch.canvas, area.left, area.top + shadow.dy, area.width, area.height);
+  ctx.restore();
+}
+
+function blurScratch(ctx: CanvasRenderingContext2D, sigma: number, channels: number[]) {
+  const { width, height } = ctx.canvas;
+  const image = ctx.getImageData(0, 0, width, height);
+  // Three box blurs approximate a Gaussian; each adds r(r + 1) to the variance
+  const radius = Math.max(1, Math.round(Math.sqrt((sigma * sigma) / 3 + 0.25) - 0.5));
+  const line = new Float32Array(Math.max(width, height));
+  for (let pass = 0; pass < 3; pass++) {
+    for (const c of channels) {
+      for (let y = 0; y < height; y++) blurLine(image.data, y * width * 4 + c, 4, width, radius, line);
+      for (let x = 0; x < width; x++) blurLine(image.data, x * 4 + c, width * 4, height, radius, line);
+    }
+  }
+  ctx.putImageData(image, 0, 0);
+}
+
+// Running-sum box blur over `n` samples, `stride` apart; edges repeat
+function blurLine(data: Uint8ClampedArray, start: number, stride: number, n: number, r: number, line: Float32Array) {
+  for (let i = 0; i < n; i++) line[i] = data[start + i * stride];
+  let sum = line[0] * (r + 1);
+  for (let i = 1; i <= r; i++) sum += line[Math.min(i, n - 1)];
+  for (let i = 0; i < n; i++) {
+    data[start + i * stride] = sum / (2 * r + 1);
+    sum += line[Math.min(i + r + 1, n - 1)] - line[Math.max(i - r, 0)];
+  }
+}
+
+function invert(m: { a: number; b: number; c: number; d: number; e: number; f: number }) {
+  const det = m.a * m.d - m.b * m.c;
+  return {
+    a: m.d / det,
+    b: -m.b / det,
+    c: -m.c / det,
+    d: m.a / det,
+    e: (m.c * m.f - m.d * m.e) / det,
+    f: (m.b * m.e - m.a * m.f) / det,
+  };
+}
+
+function roundedRect(ctx: CanvasRenderingContext2D, r: Rect, radius: number) {
+  const rad = Math.max(0, Math.min(radius, r.width / 2, r.height / 2));
+  const right = r.left + r.width;
+  const bottom = r.top + r.height;
+  ctx.beginPath();
+  ctx.moveTo(r.left + rad, r.top);
+  ctx.arcTo(right, r.top, right, bottom, rad);
+  ctx.arcTo(right, bottom, r.left, bottom, rad);
+  ctx.arcTo(r.left, bottom, r.left, r.top, rad);
+  ctx.arcTo(r.left, r.top, right, r.top, rad);
+  ctx.closePath();
+}
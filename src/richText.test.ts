@@ -0,0 +1,45 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { RunStyle, parseLine, parseRichText, plainText } from "./richText";
+
+const style = (patch: Partial<RunStyle> = {}): RunStyle => ({
+  bold: false,
+  italic: false,
+  highlight: false,
+  accent: false,
+  ...patch,
+});
+
+test("markers style the runs between them, nested or not", () => {
+  assert.deepEqual(parseLine("Join **the _mission_** =={now}==").runs, [
+    { text: "Join ", style: style() },
+    { text: "the ", style: style({ bold: true }) },
+    { text: "mission", style: style({ bold: true, italic: true }) },
+    { text: " ", style: style() },
+    { text: "now", style: style({ highlight: true, accent: true }) },
+  ]);
+});
+
+test("markers that aren't closed on the line show as typed", () => {
+  assert.deepEqual(parseRichText("**half typed\nsnake_case and_more\n{open"), [
+    { scale: 1, runs: [{ text: "**half typed", style: style() }] },
+    { scale: 1, runs: [{ text: "snake_case and_more", style: style() }] },
+    { scale: 1, runs: [{ text: "{open", style: style() }] },
+  ]);
+});
+
+test("a backslash makes the next character literal", () => {
+  assert.deepEqual(parseLine("\\*\\*not bold\\*\\* \\{x}").runs, [{ text: "**not bold** {x}", style: style() }]);
+});
+
+test("a line's size prefix scales it within range", () => {
+  assert.equal(parseLine("[70%] Smaller").scale, 0.7);
+  assert.equal(parseLine("[5%]Tiny").scale, 0.3);
+  assert.equal(parseLine("[900%]Huge").scale, 2);
+  assert.deepEqual(parseLine("[70%] Smaller").runs, [{ text: "Smaller", style: style() }]);
+  assert.equal(parseLine("Not [70%] a prefix").scale, 1);
+});
+
+test("plain text drops the markup", () => {
+  assert.equal(plainText("[80%]**Bold** and {accent}\n_it_ \\_kept\\_"), "Bold and accent\nit _kept_");
+});
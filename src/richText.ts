@@ -0,0 +1,100 @@
+// Inline markup for text layers
+// - **bold**, _italic_, ==highlight==, {brand accent color}
+// - A line starting with [70%] is drawn at 70% of the layer's font size
+// - Markers only count when they are closed later on the same line, so a
+//   half-typed marker shows as typed; a backslash makes the next character
+//   literal
+
+export type RunStyle = { bold: boolean; italic: boolean; highlight: boolean; accent: boolean };
+
+export type Run = { text: string; style: RunStyle };
+
+export type RichLine = { scale: number; runs: Run[] };
+
+export const LINE_SCALE_RANGE = { min: 30, max: 200 }; // percent
+
+type Marker = { open: string; close: string; key: keyof RunStyle };
+
+// Longest first, so "**" is not read as two italics
+const MARKERS: Marker[] = [
+  { open: "**", close: "**", key: "bold" },
+  { open: "==", close: "==", key: "highlight" },
+  { open: "_", close: "_", key: "italic" },
+  { open: "{", close: "}", key: "accent" },
+];
+
+const PLAIN: RunStyle = { bold: false, italic: false, highlight: false, accent: false };
+
+const isWordChar = (c: string | undefined) => !!c && /[\p{L}\p{N}]/u.test(c);
+
+// Underscores inside words (snake_case, URLs) are not italics
+function canOpen(m: Marker, line: string, i: number) {
+  return m.open !== "_" || !isWordChar(line[i - 1]);
+}
+
+function canClose(m: Marker, line: string, i: number) {
+  return m.close !== "_" || !isWordChar(line[i + 1]);
+}
+
+function closes(m: Marker, line: string, from: number) {
+  for (let j = from; j < line.length; j++) {
+    if (line[j] === "\\") j++;
+    else if (line.startsWith(m.close, j) && canClose(m, line, j)) return true;
+  }
+  return false;
+}
+
+export function parseLine(raw: string): RichLine {
+  const size = /^\[(\d{1,3})%\]\s?/.exec(raw);
+  const line = size ? raw.slice(size[0].length) : raw;
+  const scale = size
+    ? Math.min(LINE_SCALE_RANGE.max, Math.max(LINE_SCALE_RANGE.min, Number(size[1]))) / 100
+    : 1;
+
+  const runs: Run[] = [];
+  let style = PLAIN;
+  let text = "";
+  const flush = () => {
+    if (text) runs.push({ text, style });
+    text = "";
+  };
+
+  for (let i = 0; i < line.length; ) {
+    if (line[i] === "\\" && i + 1 < line.length) {
+      text += line[i + 1];
+      i += 2;
+      continue;
+    }
+    const closing = MARKERS.find((m) => style[m.key] && line.startsWith(m.close, i) && canClose(m, line, i));
+    if (closing) {
+      flush();
+      style = { ...style, [closing.key]: false };
+      i += closing.close.length;
+      continue;
+    }
+    const opening = MARKERS.find(
+      (m) => !style[m.key] && line.startsWith(m.open, i) && canOpen(m, line, i) && closes(m, line, i + m.open.length)
+    );
+    if (opening) {
+      flush();
+      style = { ...style, [opening.key]: true };
+      i += opening.open.length;
+      continue;
+    }
+    text += line[i];
+    i++;
+  }
+  flush();
+  return { scale, runs };
+}
+
+export function parseRichText(text: string): RichLine[] {
+  return text.split("\n").map(parseLine);
+}
+
+// The text as shown, without markup
+export function plainText(text: string) {
+  return parseRichText(text)
+    .map((line) => line.runs.map((r) => r.text).join(""))
+    .join("\n");
+}
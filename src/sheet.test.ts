@@ -0,0 +1,98 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { createDesign } from "./design";
+import { builtInPresets } from "./presets";
+import { SheetError, findSize, parseCsv, parseSheet, rowDesign } from "./sheet";
+
+test("CSV cells may be quoted, hold delimiters, quotes and line breaks", () => {
+  assert.deepEqual(parseCsv('a,b\r\n"x, y","say ""hi""\nagain"\n'), [
+    ["a", "b"],
+    ["x, y", 'say "hi"\nagain'],
+  ]);
+});
+
+test("the delimiter is the one the header uses most", () => {
+  assert.deepEqual(parseCsv("\ufeffimage;top\nphoto.jpg;Hello, world"), [
+    ["image", "top"],
+    ["photo.jpg", "Hello, world"],
+  ]);
+  assert.deepEqual(parseCsv("image\ttop\nphoto.jpg\tHi"), [
+    ["image", "top"],
+    ["photo.jpg", "Hi"],
+  ]);
+});
+
+test("sheet rows take aliased columns, skip blank rows and keep their line", () => {
+  const csv = "Filename,Question,CTA,Format\none.jpg,First\\nline,Join,square\n,,,\ntwo.jpg,,,\n";
+  const none = { top: undefined, bottom: undefined, size: undefined, preset: undefined, name: undefined };
+  assert.deepEqual(parseSheet("posts.csv", csv), [
+    { ...none, line: 2, image: "one.jpg", top: "First\nline", bottom: "Join", size: "square" },
+    { ...none, line: 4, image: "two.jpg" },
+  ]);
+});
+
+test("JSON sheets are an array of rows or { rows }", () => {
+  const rows = [{ image: "one.jpg", top: 1 }, { img: "two.jpg" }];
+  assert.deepEqual(
+    parseSheet("rows.json", JSON.stringify(rows)).map((r) => [r.line, r.image, r.top]),
+    [
+      [1, "one.jpg", "1"],
+      [2, "two.jpg", undefined],
+    ]
+  );
+  assert.equal(parseSheet("sheet.txt", JSON.stringify({ rows })).length, 2);
+});
+
+test("sheets that can't be used are rejected with a reason", () => {
+  const reasons: [string, string, RegExp][] = [
+    ["posts.csv", "", /CSV is empty/],
+    ["posts.csv", "top,bottom\nHi,There", /needs an image column/],
+    ["posts.csv", 'image\n"one.jpg', /unterminated quoted cell/],
+    ["posts.csv", "image\n", /no rows/],
+    ["rows.json", "[", /not valid JSON/],
+    ["rows.json", '{"image": "one.jpg"}', /must be an array of rows/],
+    ["rows.json", '["one.jpg"]', /Row 1 is not an object/],
+  ];
+  for (const [name, text, reason] of reasons) {
+    assert.throws(() => parseSheet(name, text), (err) => err instanceof SheetError && reason.test(err.message));
+  }
+});
+
+test("sizes are found by id, label or dimensions", () => {
+  assert.equal(findSize("square")?.id, "square");
+  assert.equal(findSize("Instagram Story (1080×1920)")?.id, "story");
+  assert.equal(findSize("1080 x 1350")?.id, "portrait");
+  assert.equal(findSize("800x600")?.id, "custom-800x600");
+  assert.equal(findSize("huge"), undefined);
+});
+
+test("a row's preset applies in full and its text columns win", () => {
+  const base = createDesign("classic");
+  const row = { line: 2, image: "one.jpg", top: "Row text", preset: "chapter1", size: "square" };
+  const result = rowDesign(base, row, builtInPresets);
+  assert.ok("design" in result);
+  const chapter1 = builtInPresets.find((p) => p.id === "chapter1")!;
+  const text = (id: string) => result.design.layers.find((l) => l.id === id)!.text;
+  assert.equal(result.design.sizeId, "square");
+  assert.equal(text("top"), "Row text");
+  assert.equal(text("bottom"), chapter1.layers.find((l) => l.id === "bottom")!.text);
+});
+
+test("rows without a preset take only their own text", () => {
+  const result = rowDesign(createDesign("classic"), { line: 2, image: "one.jpg", top: "Only top" }, builtInPresets);
+  assert.ok("design" in result);
+  assert.deepEqual(
+    result.design.layers.map((l) => l.text),
+    ["Only top", ""]
+  );
+});
+
+test("unknown sizes and presets are reported for the row", () => {
+  const base = createDesign();
+  assert.deepEqual(rowDesign(base, { line: 2, image: "a.jpg", size: "huge" }, builtInPresets), {
+    error: 'Unknown size "huge"',
+  });
+  assert.deepEqual(rowDesign(base, { line: 2, image: "a.jpg", preset: "nope" }, builtInPresets), {
+    error: 'Unknown preset "nope"',
+  });
+});
@@ -0,0 +1,184 @@
+import { Design, withLayerText } from "./design";
+import { allProfiles, customProfile, findProfile } from "./platforms";
+import { Preset, applyPreset } from "./presets";
+
+// Batch sheet parsing
+// - CSV (header row, quoted cells, "" escapes) or JSON (array of rows)
+// - One row per post: image filename, top question, bottom CTA, size, preset
+// - Rows resolve to designs the same way in the browser and on the command line
+
+export type SheetRow = {
+  line: number; // 1-based row in the sheet, for error messages
+  image: string;
+  top?: string;
+  bottom?: string;
+  size?: string;
+  preset?: string;
+  name?: string;
+};
+
+export class SheetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SheetError";
+  }
+}
+
+// Accepted header names for each field (case-insensitive)
+const columnAliases: Record<keyof Omit<SheetRow, "line">, string[]> = {
+  image: ["image", "filename", "file", "img"],
+  top: ["top", "question", "top text", "toptext"],
+  bottom: ["bottom", "cta", "bottom text", "bottomtext"],
+  size: ["size", "format", "sizeid"],
+  preset: ["preset", "template", "presetid"],
+  name: ["name", "output", "output name"],
+};
+
+export function parseSheet(fileName: string, text: string): SheetRow[] {
+  const isJson = /\.json$/i.test(fileName) || /^\s*[[{]/.test(text);
+  const records = isJson ? parseJsonRecords(text) : parseCsvRecords(text);
+  const rows = records
+    .map((record, idx) => toRow(record, idx + (isJson ? 1 : 2)))
+    .filter((row): row is SheetRow => row !== null);
+  if (!rows.length) throw new SheetError("Sheet has no rows.");
+  return rows;
+}
+
+function toRow(record: Record<string, string>, line: number): SheetRow | null {
+  const normalized: Record<string, string> = {};
+  for (const [key, value] of Object.entries(record)) normalized[key.trim().toLowerCase()] = value;
+  if (Object.values(normalized).every((v) => !v.trim())) return null;
+
+  const pick = (field: keyof typeof columnAliases) => {
+    for (const alias of columnAliases[field]) {
+      const value = normalized[alias];
+      // Spreadsheet cells often carry a literal "\n" for line breaks
+      if (value !== undefined && value !== "") return value.replace(/\\n/g, "\n");
+    }
+    return undefined;
+  };
+
+  return {
+    line,
+    image: (pick("image") ?? "").trim(),
+    top: pick("top"),
+    bottom: pick("bottom"),
+    size: pick("size")?.trim(),
+    preset: pick("preset")?.trim(),
+    name: pick("name")?.trim(),
+  };
+}
+
+function parseJsonRecords(text: string): Record<string, string>[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new SheetError("Sheet is not valid JSON.");
+  }
+  const list = Array.isArray(data) ? data : (data as { rows?: unknown })?.rows;
+  if (!Array.isArray(list)) throw new SheetError("JSON sheet must be an array of rows (or { rows: [...] }).");
+  return list.map((item, idx) => {
+    if (typeof item !== "object" || item === null || Array.isArray(item)) {
+      throw new SheetError(`Row ${idx + 1} is not an object.`);
+    }
+    const record: Record<string, string> = {};
+    for (const [key, value] of Object.entries(item)) {
+      if (value != null) record[key] = String(value);
+    }
+    return record;
+  });
+}
+
+// Excel exports use ";" or tabs in some locales; pick whichever the header uses most
+function detectDelimiter(src: string) {
+  const header = src.split(/\r?\n/, 1)[0];
+  const counts = [",", ";", "\t"].map((d) => ({ d, n: header.split(d).length }));
+  return counts.sort((a, b) => b.n - a.n)[0].d;
+}
+
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+  const src = text.replace(/^\ufeff/, "");
+  const delimiter = detectDelimiter(src);
+
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i];
+    if (quoted) {
+      if (ch === '"') {
+        if (src[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else {
+          quoted = false;
+        }
+      } else {
+        cell += ch;
+      }
+    } else if (ch === '"' && cell === "") {
+      quoted = true;
+    } else if (ch === delimiter) {
+      row.push(cell);
+      cell = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && src[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += ch;
+    }
+  }
+  if (quoted) throw new SheetError("CSV has an unterminated quoted cell.");
+  if (cell !== "" || row.length) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+}
+
+function parseCsvRecords(text: string): Record<string, string>[] {
+  const [header, ...body] = parseCsv(text);
+  if (!header) throw new SheetError("CSV is empty.");
+  const keys = header.map((h) => h.trim().toLowerCase());
+  if (!keys.some((k) => columnAliases.image.includes(k))) {
+    throw new SheetError(`CSV needs an image column (one of: ${columnAliases.image.join(", ")}).`);
+  }
+  return body.map((cells) => Object.fromEntries(keys.map((k, idx) => [k, cells[idx] ?? ""])));
+}
+
+// Accepts a profile id ("square"), its label, or plain dimensions
+// ("1080x1080"); dimensions no profile has become a custom size
+export function findSize(value: string) {
+  const v = value.toLowerCase().replace(/\s+/g, "").replace("×", "x");
+  const profile =
+    allProfiles().find(
+      (s) => s.id === v || `${s.w}x${s.h}` === v || s.label.toLowerCase() === value.trim().toLowerCase()
+    ) ?? findProfile(v);
+  const dims = /^(\d+)x(\d+)$/.exec(v);
+  return profile ?? (dims ? customProfile(Number(dims[1]), Number(dims[2])) : undefined);
+}
+
+export function findPreset(value: string, presets: Preset[]) {
+  const v = value.toLowerCase();
+  return presets.find((p) => p.id.toLowerCase() === v || p.name.toLowerCase() === v);
+}
+
+// The row's design, without its image: style and layers come from `base`
+export function rowDesign(base: Design, row: SheetRow, presets: Preset[]): { design: Design } | { error: string } {
+  const size = row.size ? findSize(row.size) : undefined;
+  if (row.size && !size) return { error: `Unknown size "${row.size}"` };
+
+  const preset = row.preset ? findPreset(row.preset, presets) : undefined;
+  if (row.preset && !preset) return { error: `Unknown preset "${row.preset}"` };
+
+  // A row's preset applies in full (text and style); its text columns then win
+  let design: Design = { ...(preset ? applyPreset(base, undefined, preset) : base), sizeId: size?.id ?? base.sizeId };
+  if (row.top !== undefined || !preset) design = withLayerText(design, "top", row.top ?? "");
+  if (row.bottom !== undefined || !preset) design = withLayerText(design, "bottom", row.bottom ?? "");
+  return { design };
+}
@@ -0,0 +1,124 @@
+import { useEffect, useMemo, useState } from "react";
+import { Design, getSize } from "./design";
+import { BrandKit } from "./brand";
+import {
+  RenderExtras,
+  RenderHost,
+  RenderImage,
+  designFonts,
+  drawBackdrop,
+  drawDesign,
+  findTextIssues,
+  layoutDesign,
+} from "./render";
+import { BACKDROP_SCALE, Backdrop } from "./readability";
+import { loadImage } from "./utils";
+
+// Browser host for the canvas renderer
+// - Decodes photos and logos once and keeps the last few, so batch rows and
+//   video frames don't decode the same image again
+// - Loads the fonts a design uses before drawing; canvas text would
+//   silently fall back otherwise
+
+const IMAGE_CACHE_SIZE = 8;
+
+const images = new Map<string, Promise<RenderImage>>();
+
+function loadRenderImage(src: string) {
+  const cached = images.get(src);
+  images.delete(src);
+  const entry =
+    cached ?? loadImage(src).then((img) => ({ source: img, width: img.naturalWidth, height: img.naturalHeight }));
+  images.set(src, entry);
+  entry.catch(() => images.delete(src));
+  if (images.size > IMAGE_CACHE_SIZE) images.delete(images.keys().next().value!);
+  return entry;
+}
+
+export function createScratch(width: number, height: number) {
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, width);
+  canvas.height = Math.max(1, height);
+  return canvas.getContext("2d", { willReadFrequently: true })!;
+}
+
+function loadFonts(fonts: string[]) {
+  return Promise.all(fonts.map((font) => document.fonts.load(font).catch(() => [])));
+}
+
+async function loadHost(design: Design, brand: BrandKit): Promise<RenderHost> {
+  const [image, logo] = await Promise.all([
+    design.image ? loadRenderImage(design.image.src) : null,
+    brand.logo.src ? loadRenderImage(brand.logo.src).catch(() => null) : null,
+    loadFonts(designFonts(design, brand)),
+  ]);
+  return { brand, image, logo, createScratch };
+}
+
+// Renders into a new canvas with `pixelRatio` pixels per stage pixel, and
+// checks the text with the same fonts and layout
+export async function renderDesign(design: Design, brand: BrandKit, extras: RenderExtras = {}, pixelRatio = 1) {
+  const host = await loadHost(design, brand);
+  const size = getSize(design.sizeId);
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(size.w * pixelRatio);
+  canvas.height = Math.round(size.h * pixelRatio);
+  const ctx = canvas.getContext("2d")!;
+  ctx.scale(pixelRatio, pixelRatio);
+  drawDesign(ctx, design, host, extras);
+  return { canvas, issues: findTextIssues(layoutDesign(design, brand), size) };
+}
+
+// What sits behind the text, without dim, for the readability check
+export async function renderBackdrop(design: Design, brand: BrandKit): Promise<Backdrop> {
+  const image = design.image ? await loadRenderImage(design.image.src) : null;
+  const size = getSize(design.sizeId);
+  const ctx = createScratch(Math.round(size.w * BACKDROP_SCALE), Math.round(size.h * BACKDROP_SCALE));
+  ctx.scale(BACKDROP_SCALE, BACKDROP_SCALE);
+  drawBackdrop(ctx, { ...design, dim: 0 }, { brand, image, logo: null, createScratch });
+  return ctx.getImageData(0, 0, ctx.canvas.width, ctx.canvas.height);
+}
+
+// For the live preview: the current photo and logo, and a re-render once the
+// design's fonts have loaded. Keeps the previous images while new ones decode.
+// The host, and a count that goes up whenever fonts have loaded and text
+// measures differently
+export function useRenderHost(design: Design, brand: BrandKit) {
+  const [loaded, setLoaded] = useState<{ image: RenderImage | null; logo: RenderImage | null }>({
+    image: null,
+    logo: null,
+  });
+  const [fontsLoaded, setFontsLoaded] = useState(0);
+  const imageSrc = design.image?.src ?? null;
+  const logoSrc = brand.logo.src;
+  const fonts = designFonts(design, brand).join("\n");
+
+  useEffect(() => {
+    let live = true;
+    Promise.all([
+      imageSrc ? loadRenderImage(imageSrc).catch(() => null) : null,
+      logoSrc ? loadRenderImage(logoSrc).catch(() => null) : null,
+    ]).then(([image, logo]) => {
+      if (live) setLoaded({ image, logo });
+    });
+    return () => {
+      live = false;
+    };
+  }, [imageSrc, logoSrc]);
+
+  useEffect(() => {
+    let live = true;
+    loadFonts(fonts.split("\n")).then(() => {
+      if (live) setFontsLoaded((n) => n + 1);
+    });
+    return () => {
+      live = false;
+    };
+  }, [fonts]);
+
+  const image = imageSrc ? loaded.image : null;
+  const logo = logoSrc ? loaded.logo : null;
+  // A new host only when something drawn changes, fonts included
+  const host: RenderHost = useMemo(() => ({ brand, image, logo, createScratch }), [brand, image, logo, fontsLoaded]);
+  return { host, fontsLoaded };
+}
@@ -0,0 +1,299 @@
+import { LayerLayout } from "./render";
+import { LINE_HEIGHT, PANEL_PADDING, measureLine } from "./textLayout";
+import { isRecord, readString } from "./utils";
+
+// Text suggestions
+// - A provider turns a request into candidate texts: questions and calls to
+//   action for the layers, captions and hashtags for the post itself
+// - The HTTP provider talks to any OpenAI-compatible chat endpoint (a local
+//   model server or a hosted API); the offline one fills in templates and
+//   is used whenever no endpoint is set up or it fails
+// - Layer candidates are told the layer's line limits; the caller drops any
+//   that still don't fit the real layout
+
+export type SuggestKind = "question" | "cta" | "caption" | "hashtags";
+export type SuggestTone = "friendly" | "bold" | "calm" | "playful" | "urgent";
+export type SuggestLength = "short" | "medium" | "long";
+
+export const SUGGEST_KINDS: Record<SuggestKind, string> = {
+  question: "Question",
+  cta: "Call to action",
+  caption: "Caption",
+  hashtags: "Hashtags",
+};
+export const SUGGEST_TONES: SuggestTone[] = ["friendly", "bold", "calm", "playful", "urgent"];
+export const SUGGEST_LENGTHS: SuggestLength[] = ["short", "medium", "long"];
+
+export type LineLimits = { charsPerLine: number; maxLines: number };
+
+export type SuggestRequest = {
+  kind: SuggestKind;
+  tone: SuggestTone;
+  length: SuggestLength;
+  topic: string; // what the post is about
+  text: string; // to rewrite; "" = write new ones
+  language: string; // e.g. "English"
+  limits: LineLimits | null; // null for captions and hashtags
+  count: number;
+};
+
+export type SuggestProvider = {
+  name: string;
+  suggest: (request: SuggestRequest) => Promise<string[]>;
+};
+
+// Where the HTTP provider connects; kept in this browser only
+export type SuggestSettings = {
+  enabled: boolean;
+  endpoint: string; // base URL, e.g. http://localhost:11434/v1
+  model: string;
+  apiKey: string; // sent as a bearer token when set
+};
+
+export function defaultSuggestSettings(): SuggestSettings {
+  return { enabled: false, endpoint: "http://localhost:11434/v1", model: "llama3.1", apiKey: "" };
+}
+
+export function validateSuggestSettings(raw: unknown): SuggestSettings {
+  const base = defaultSuggestSettings();
+  if (!isRecord(raw)) return base;
+  return {
+    enabled: typeof raw.enabled === "boolean" ? raw.enabled : base.enabled,
+    endpoint: readString(raw.endpoint, base.endpoint),
+    model: readString(raw.model, base.model),
+    apiKey: readString(raw.apiKey, base.apiKey),
+  };
+}
+
+export class SuggestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SuggestError";
+  }
+}
+
+const REQUEST_TIMEOUT_MS = 30_000;
+const SAMPLE = "the quick brown fox jumps over the lazy dog";
+// Without auto-fit a layer can keep growing, but past this it stops reading as a headline
+const DEFAULT_MAX_LINES = 4;
+
+// What a layer has room for, in characters of average width at its font size
+export function lineLimits(l: LayerLayout): LineLimits {
+  const charWidth = measureLine(SAMPLE, l.font) / SAMPLE.length;
+  const lineHeight = l.font.size * LINE_HEIGHT;
+  const maxLines = l.layer.autoFit
+    ? Math.floor((l.block.height - 2 * PANEL_PADDING.y) / lineHeight)
+    : DEFAULT_MAX_LINES;
+  return { charsPerLine: Math.max(1, Math.floor(l.text.width / charWidth)), maxLines: Math.max(1, maxLines) };
+}
+
+// `l` is the layer laid out with the candidate text
+export function fitsLayout(l: LayerLayout, limits: LineLimits) {
+  return !l.tooWide && l.fitOverflow === null && l.lines.length <= limits.maxLines;
+}
+
+const KIND_PROMPTS: Record<SuggestKind, string> = {
+  question: "short questions that open a social media post and make people stop scrolling",
+  cta: "calls to action that close a social media post",
+  caption: "captions (the post description under the image), ending with a call to action",
+  hashtags: "sets of 5 to 10 hashtags, each set on one line",
+};
+
+function prompt(r: SuggestRequest) {
+  return [
+    `Write ${r.count} ${KIND_PROMPTS[r.kind]} in ${r.language}.`,
+    r.topic ? `The post is about: ${r.topic}` : "",
+    `Tone: ${r.tone}. Length: ${r.length}.`,
+    r.limits
+      ? `Each must fit in ${r.limits.maxLines} lines of at most ${r.limits.charsPerLine} characters; use line breaks.`
+      : "",
+    r.text ? `Rewrite this text, keeping its meaning:\n"""\n${r.text}\n"""` : "",
+    "Reply with a JSON array of strings and nothing else.",
+  ]
+    .filter(Boolean)
+    .join("\n");
+}
+
+// Models don't always stick to JSON; a list with one item per line works too
+export function parseCandidates(content: string): string[] {
+  const array = content.match(/\[[\s\S]*\]/);
+  if (array) {
+    try {
+      const parsed: unknown = JSON.parse(array[0]);
+      if (Array.isArray(parsed)) return parsed.filter((c): c is string => typeof c === "string");
+    } catch {
+      // fall through to lines
+    }
+  }
+  return content
+    .split("\n")
+    .map((line) => line.replace(/^\s*(?:[-*•]|\d+[.)])\s*/, "").replace(/^"(.*)"$/, "$1").trim())
+    .filter(Boolean);
+}
+
+export function httpProvider(settings: SuggestSettings): SuggestProvider {
+  return {
+    name: settings.model || "endpoint",
+    async suggest(request) {
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+      let res: Response;
+      try {
+        res = await fetch(`${settings.endpoint.replace(/\/+$/, "")}/chat/completions`, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            ...(settings.apiKey ? { Authorization: `Bearer ${settings.apiKey}` } : {}),
+          },
+          body: JSON.stringify({
+            model: settings.model,
+            temperature: 0.8,
+            messages: [
+              { role: "system", content: "You write short, clear copy for social media posts." },
+              { role: "user", content: prompt(request) },
+            ],
+          }),
+          signal: controller.signal,
+        });
+      } catch {
+        throw new SuggestError(`Couldn't reach ${settings.endpoint}.`);
+      } finally {
+        clearTimeout(timer);
+      }
+      if (!res.ok) throw new SuggestError(`${settings.endpoint} answered ${res.status} ${res.statusText}.`);
+      const data: unknown = await res.json().catch(() => null);
+      const choice = isRecord(data) && Array.isArray(data.choices) ? data.choices[0] : null;
+      const content = isRecord(choice) && isRecord(choice.message) ? choice.message.content : null;
+      if (typeof content !== "string") throw new SuggestError("The endpoint's answer has no text in it.");
+      return parseCandidates(content);
+    },
+  };
+}
+
+// Offline templates. {topic} is the topic as typed, {Topic} capitalized.
+const QUESTIONS: Record<SuggestTone, string[]> = {
+  friendly: [
+    "What does {topic} mean to you?",
+    "How could you help with {topic} this week?",
+    "Who made you care about {topic}?",
+  ],
+  bold: [
+    "Will you stand up for {topic}?",
+    "What are you willing to change for {topic}?",
+    "If not you, who will lead on {topic}?",
+  ],
+  calm: [
+    "What small step could you take for {topic}?",
+    "When did you last stop to think about {topic}?",
+    "What would {topic} look like at its best?",
+  ],
+  playful: [
+    "Guess what {topic} needs most?",
+    "Quick quiz: how much do you know about {topic}?",
+    "If {topic} could talk, what would it say?",
+  ],
+  urgent: ["How long can {topic} wait?", "What happens to {topic} if we do nothing?", "Why not act on {topic} today?"],
+};
+
+const CTAS: Record<SuggestTone, string[]> = {
+  friendly: ["Share your idea below", "Tell us in the comments", "Send this to a friend who cares about {topic}"],
+  bold: ["Join the mission", "Take the first step today", "Stand with us for {topic}"],
+  calm: ["Save this for later", "Follow along for more on {topic}", "Start small. Start today."],
+  playful: ["Drop your answer below", "Tag someone who needs to see this", "Your move →"],
+  urgent: ["Act now: share this post", "Don't wait, join us today", "Sign up before it's too late"],
+};
+
+// Opening line added to long texts
+const LEADS: Record<SuggestTone, string> = {
+  friendly: "Let's talk about {topic}.",
+  bold: "{Topic} won't fix itself.",
+  calm: "Take a moment for {topic}.",
+  playful: "Pop quiz time!",
+  urgent: "Time is running out for {topic}.",
+};
+
+const FILLER = /\b(really|very|just|actually|basically|literally|simply)\s+/gi;
+const SHORT_CHARS = 40;
+const STOP_WORDS = new Set(["the", "and", "for", "with", "our", "your", "about", "from", "into", "this", "that"]);
+const GENERIC_TAGS = ["#community", "#together", "#dosomething", "#inspiration"];
+
+function fill(template: string, topic: string) {
+  const capitalized = topic.charAt(0).toUpperCase() + topic.slice(1);
+  const text = template.replace(/\{topic\}/g, topic).replace(/\{Topic\}/g, capitalized);
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+function hashtagSets(topic: string) {
+  const words = topic
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((w) => w.length > 2 && !STOP_WORDS.has(w));
+  if (!words.length) return [GENERIC_TAGS.join(" ")];
+  const camel = `#${words.map((w) => w.charAt(0).toUpperCase() + w.slice(1)).join("")}`;
+  const tags = words.map((w) => `#${w}`);
+  return [
+    [camel, ...tags].join(" "),
+    [camel, ...tags, ...GENERIC_TAGS].join(" "),
+    [...tags, ...GENERIC_TAGS.slice(0, 2)].join(" "),
+  ];
+}
+
+function rewrites(r: SuggestRequest) {
+  const tidy = r.text.replace(FILLER, "").replace(/[ \t]+/g, " ").trim();
+  const firstSentence = tidy.split(/(?<=[.!?])\s+/)[0];
+  const lead = fill(LEADS[r.tone], r.topic || "this");
+  const variants = [tidy, firstSentence, `${lead}\n${tidy}`];
+  // A statement only turns into a question by asking one after it
+  if (r.kind === "question" && r.topic && !tidy.endsWith("?")) {
+    return [...variants, `${firstSentence}\n${fill(QUESTIONS[r.tone][0], r.topic)}`];
+  }
+  if (r.kind === "cta") return [...variants, `${firstSentence.replace(/[.!?]*$/, "")} →`];
+  return variants;
+}
+
+export const offlineProvider: SuggestProvider = {
+  name: "offline templates",
+  async suggest(r) {
+    if (r.text) return rewrites(r);
+    if (!r.topic.trim()) throw new SuggestError("Say what the post is about first.");
+    const topic = r.topic.trim();
+    if (r.kind === "hashtags") return hashtagSets(topic);
+    const questions = QUESTIONS[r.tone].map((t) => fill(t, topic));
+    const ctas = CTAS[r.tone].map((t) => fill(t, topic));
+    if (r.kind === "caption") {
+      const tags = hashtagSets(topic)[0];
+      return questions.map((q, i) => `${q}\n\n${ctas[i % ctas.length]}\n\n${tags}`);
+    }
+    const texts = r.kind === "question" ? questions : ctas;
+    if (r.length === "short") return texts.filter((t) => t.length <= SHORT_CHARS);
+    if (r.length === "long") return texts.map((t) => `${fill(LEADS[r.tone], topic)}\n${t}`);
+    return texts;
+  },
+};
+
+// Tries the endpoint first when one is set up. `fallback` says why the
+// offline templates answered instead.
+export async function suggestText(
+  settings: SuggestSettings,
+  request: SuggestRequest
+): Promise<{ candidates: string[]; source: string; fallback: string | null }> {
+  let fallback: string | null = null;
+  if (settings.enabled && settings.endpoint.trim()) {
+    const provider = httpProvider(settings);
+    try {
+      const candidates = tidyCandidates(await provider.suggest(request), request.count);
+      if (candidates.length) return { candidates, source: provider.name, fallback: null };
+      fallback = "The endpoint had no suggestions.";
+    } catch (err) {
+      if (!(err instanceof SuggestError)) throw err;
+      fallback = err.message;
+    }
+  }
+  const candidates = tidyCandidates(await offlineProvider.suggest(request), request.count);
+  return { candidates, source: offlineProvider.name, fallback };
+}
+
+function tidyCandidates(candidates: string[], count: number) {
+  const trimmed = candidates.map((c) => c.trim()).filter(Boolean);
+  return Array.from(new Set(trimmed)).slice(0, count);
+}
@@ -0,0 +1,62 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { LINE_HEIGHT, fitFontSize, layoutText, setMeasureContext } from "./textLayout";
+
+// Every character is half the font size wide, bold ones 0.6
+const ctx = {
+  font: "",
+  measureText(text: string) {
+    const [, weight, size] = /(\d+) (\d+(?:\.\d+)?)px/.exec(this.font)!;
+    return { width: text.length * Number(size) * (Number(weight) >= 700 ? 0.6 : 0.5) };
+  },
+};
+setMeasureContext(ctx as unknown as CanvasRenderingContext2D);
+
+const font = { family: "sans-serif", weight: 400, letterSpacing: 0 };
+
+test("text wraps at spaces within the width", () => {
+  const layout = layoutText("aaaa bbbb cccc", { ...font, size: 10 }, 50);
+  assert.deepEqual(
+    layout.lines.map((l) => [l.runs.map((r) => r.text).join(""), l.width]),
+    [
+      ["aaaa bbbb", 45],
+      ["cccc", 20],
+    ]
+  );
+  assert.equal(layout.height, 2 * 10 * LINE_HEIGHT);
+  assert.equal(layout.tooWide, false);
+});
+
+test("bold runs, letter spacing and line sizes are measured", () => {
+  const layout = layoutText("**ab** cd\n[50%]ef", { ...font, size: 10, letterSpacing: 0.1 }, 1000);
+  const [first, second] = layout.lines;
+  // 2 bold at 6 + 3 regular at 5, plus 1 px per character
+  assert.equal(first.width, 12 + 15 + 5);
+  assert.equal(second.size, 5);
+  assert.equal(layout.height, (10 + 5) * LINE_HEIGHT);
+});
+
+test("a word wider than the line is flagged", () => {
+  assert.equal(layoutText("abcdefghijk", { ...font, size: 10 }, 50).tooWide, true);
+});
+
+test("the font size fits the box, as large as it can be", () => {
+  const text = "Will you help build it? Join the mission";
+  const box = { width: 400, height: 200 };
+  const fit = fitFontSize(text, font, box, 24, 160);
+  const fitsAt = (size: number) => {
+    const layout = layoutText(text, { ...font, size }, box.width);
+    return !layout.tooWide && layout.height <= box.height;
+  };
+  assert.equal(fit.fits, true);
+  assert.ok(fitsAt(fit.size));
+  assert.ok(!fitsAt(fit.size + 1));
+});
+
+test("fitting stops at the ends of the range", () => {
+  assert.deepEqual(fitFontSize("Hi", font, { width: 1000, height: 1000 }, 24, 160), { size: 160, fits: true });
+  assert.deepEqual(fitFontSize("Far too long a line", font, { width: 100, height: 20 }, 24, 160), {
+    size: 24,
+    fits: false,
+  });
+});
@@ -0,0 +1,136 @@
+import { Run, RunStyle, parseRichText } from "./richText";
+
+// Text measurement
+// - Wraps text (pre-wrap, breaking at spaces) using canvas metrics; the
+//   renderer draws exactly these lines, so fitting and drawing agree
+// - Understands the inline markup: bold and italic runs are measured in
+//   their own font, and a line's size scales its height
+// - Sizes are in stage pixels
+
+export const LINE_HEIGHT = 1.05;
+export const PANEL_PADDING = { x: 40, y: 32 };
+
+export type TextFont = {
+  family: string; // CSS font-family
+  weight: number;
+  size: number;
+  letterSpacing: number; // em
+  italic?: boolean;
+};
+
+export type LineRun = Run & { width: number };
+
+export type TextLine = {
+  runs: LineRun[]; // adjacent runs of the same style are merged
+  width: number;
+  size: number; // font size of this line
+};
+
+export type TextLayout = {
+  lines: TextLine[];
+  height: number; // text only, without panel padding
+  tooWide: boolean; // a single word is wider than the line
+};
+
+// A word and the style of the space in front of it
+type Word = { space: RunStyle | null; runs: Run[] };
+
+let measureCtx: CanvasRenderingContext2D | null = null;
+
+// Hosts without a DOM (e.g. the command line) provide their own canvas
+export function setMeasureContext(ctx: CanvasRenderingContext2D) {
+  measureCtx = ctx;
+}
+
+function context() {
+  if (!measureCtx) measureCtx = document.createElement("canvas").getContext("2d")!;
+  return measureCtx;
+}
+
+export function cssFont(font: TextFont) {
+  return `${font.italic ? "italic " : ""}${font.weight} ${font.size}px ${font.family}`;
+}
+
+export function boldWeight(weight: number) {
+  return Math.min(900, Math.max(700, weight + 200));
+}
+
+// The font of a run on a line of `size`
+export function runFont(font: TextFont, style: RunStyle, size: number): TextFont {
+  return { ...font, size, weight: style.bold ? boldWeight(font.weight) : font.weight, italic: style.italic };
+}
+
+const sameStyle = (a: RunStyle, b: RunStyle) =>
+  a.bold === b.bold && a.italic === b.italic && a.highlight === b.highlight && a.accent === b.accent;
+
+export function measureLine(text: string, font: TextFont) {
+  const ctx = context();
+  ctx.font = cssFont(font);
+  // CSS letter-spacing is added after every character
+  return ctx.measureText(text).width + font.letterSpacing * font.size * Array.from(text).length;
+}
+
+export function layoutText(text: string, font: TextFont, maxWidth: number): TextLayout {
+  const lines: TextLine[] = [];
+  let tooWide = false;
+  for (const paragraph of parseRichText(text)) {
+    const size = font.size * paragraph.scale;
+    const measure = (runs: Run[]): TextLine => {
+      const merged: LineRun[] = [];
+      for (const run of runs) {
+        const last = merged[merged.length - 1];
+        if (last && sameStyle(last.style, run.style)) last.text += run.text;
+        else merged.push({ ...run, width: 0 });
+      }
+      for (const run of merged) run.width = measureLine(run.text, runFont(font, run.style, size));
+      return { runs: merged, width: merged.reduce((sum, r) => sum + r.width, 0), size };
+    };
+
+    const words: Word[] = [{ space: null, runs: [] }];
+    for (const run of paragraph.runs) {
+      run.text.split(" ").forEach((part, i) => {
+        if (i > 0) words.push({ space: run.style, runs: [] });
+        if (part) words[words.length - 1].runs.push({ text: part, style: run.style });
+      });
+    }
+
+    let line: Run[] | null = null;
+    for (const word of words) {
+      const candidate: Run[] = line && word.space ? [...line, { text: " ", style: word.space }, ...word.runs] : word.runs;
+      if (!line || measure(candidate).width <= maxWidth) {
+        line = candidate;
+      } else {
+        lines.push(measure(line));
+        line = word.runs;
+      }
+      if (measure(word.runs).width > maxWidth) tooWide = true;
+    }
+    lines.push(measure(line ?? []));
+  }
+  return { lines, height: lines.reduce((sum, l) => sum + l.size * LINE_HEIGHT, 0), tooWide };
+}
+
+// Largest whole font size in [min, max] whose wrapped text fits the box.
+// Falls back to `min` (with fits = false) when even that is too big.
+export function fitFontSize(
+  text: string,
+  font: Omit<TextFont, "size">,
+  box: { width: number; height: number },
+  min: number,
+  max: number
+) {
+  const fitsAt = (size: number) => {
+    const layout = layoutText(text, { ...font, size }, box.width);
+    return !layout.tooWide && layout.height <= box.height;
+  };
+  if (fitsAt(max)) return { size: max, fits: true };
+  if (!fitsAt(min)) return { size: min, fits: false };
+  let lo = min;
+  let hi = max;
+  while (hi - lo > 1) {
+    const mid = Math.floor((lo + hi) / 2);
+    if (fitsAt(mid)) lo = mid;
+    else hi = mid;
+  }
+  return { size: lo, fits: true };
+}
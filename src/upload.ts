@@ -0,0 +1,69 @@
+import { DesignImage } from "./design";
+import { loadImage, readFileAsDataUrl, readableFileSize } from "./utils";
+
+// Photo uploads
+// - Picked, dropped and pasted files all come through here
+// - The photo lives in the design as a data URL (and in saved files), so
+//   anything bigger than the largest export needs is scaled down first
+// - Only types that browsers can draw onto a canvas are accepted
+
+export const MAX_UPLOAD_BYTES = 50 * 1024 * 1024;
+// Long side of a 1920 px tall story at the default 2× export scale. Keeps
+// phone photos (4000–6000 px) out of design state and undo snapshots at
+// full size; 3× exports upscale the photo slightly.
+export const MAX_IMAGE_SIDE = 3840;
+const DOWNSCALE_QUALITY = 0.92; // JPEG
+
+const ACCEPTED_TYPES = ["image/jpeg", "image/png", "image/webp", "image/gif", "image/avif", "image/bmp"];
+export const IMAGE_ACCEPT = ACCEPTED_TYPES.join(",");
+
+export class UploadError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UploadError";
+  }
+}
+
+export function isImageFile(file: Blob) {
+  return file.type.startsWith("image/");
+}
+
+export async function prepareImage(file: Blob, name: string): Promise<DesignImage> {
+  if (!ACCEPTED_TYPES.includes(file.type)) {
+    throw new UploadError(
+      `${name}: ${file.type || "this file type"} isn't supported. Use JPEG, PNG, WebP, GIF or AVIF.`
+    );
+  }
+  if (file.size > MAX_UPLOAD_BYTES) {
+    throw new UploadError(
+      `${name} is ${readableFileSize(file.size)}; the limit is ${readableFileSize(MAX_UPLOAD_BYTES)}.`
+    );
+  }
+
+  const url = URL.createObjectURL(file);
+  try {
+    let img: HTMLImageElement;
+    try {
+      img = await loadImage(url);
+    } catch {
+      throw new UploadError(`${name} couldn't be opened as an image.`);
+    }
+    const { naturalWidth: width, naturalHeight: height } = img;
+    const scale = Math.min(1, MAX_IMAGE_SIDE / Math.max(width, height));
+    if (scale === 1) return { src: await readFileAsDataUrl(file), name, size: file.size, width, height };
+
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.round(width * scale);
+    canvas.height = Math.round(height * scale);
+    const ctx = canvas.getContext("2d")!;
+    ctx.imageSmoothingQuality = "high";
+    ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+    // PNGs may be transparent; everything else is a photo
+    const type = file.type === "image/png" ? "image/png" : "image/jpeg";
+    const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, type, DOWNSCALE_QUALITY));
+    if (!blob) throw new UploadError(`${name} couldn't be scaled down.`);
+    return { src: await readFileAsDataUrl(blob), name, size: blob.size, width: canvas.width, height: canvas.height };
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
@@ -0,0 +1,26 @@
+import { useEffect, useState } from "react";
+import { BrandKit, defaultBrandKit, validateBrandKit } from "./brand";
+import { getOne, putOne } from "./db";
+
+const BRAND_ID = "active";
+
+// The team's brand kit, kept in sync with IndexedDB
+export function useBrandKit() {
+  const [kit, setKit] = useState<BrandKit>(defaultBrandKit);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getOne<BrandKit & { id: string }>("brand", BRAND_ID)
+      .then((saved) => {
+        if (saved) setKit(validateBrandKit(saved));
+      })
+      .catch(() => setError("The saved brand kit is not available in this browser."));
+  }, []);
+
+  function save(next: BrandKit) {
+    setKit(next);
+    putOne("brand", { ...next, id: BRAND_ID }).catch(() => setError("Could not save the brand kit."));
+  }
+
+  return { kit, save, error };
+}
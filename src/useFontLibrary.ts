@@ -0,0 +1,82 @@
+import { useEffect, useState } from "react";
+import { deleteOne, getAll, putOne } from "./db";
+import { CustomFont, FontFileError, readFontFile, registerFont, unregisterFont } from "./fonts";
+import { makeId } from "./utils";
+
+function byName(a: CustomFont, b: CustomFont) {
+  return a.name.localeCompare(b.name);
+}
+
+// Uploaded fonts, registered with the document and kept in IndexedDB
+export function useFontLibrary() {
+  const [fonts, setFonts] = useState<CustomFont[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getAll<CustomFont>("fonts")
+      .then(async (list) => {
+        const loaded: CustomFont[] = [];
+        for (const font of list) {
+          try {
+            await registerFont(font);
+            loaded.push(font);
+          } catch {
+            setError(`Saved font "${font.name}" could not be loaded.`);
+          }
+        }
+        setFonts(loaded.sort(byName));
+      })
+      .catch(() => setError("Saved fonts are not available in this browser."));
+  }, []);
+
+  async function add(file: File) {
+    let font: CustomFont;
+    try {
+      font = await readFontFile(file, makeId());
+    } catch (err) {
+      setError(`${file.name}: ${err instanceof FontFileError ? err.message : "the file could not be read."}`);
+      return null;
+    }
+    try {
+      await putOne("fonts", font);
+    } catch {
+      // Not offered when it wouldn't be there after a reload
+      unregisterFont(font.id);
+      setError(`Could not save the font "${font.name}".`);
+      return null;
+    }
+    setFonts((list) => [...list, font].sort(byName));
+    setError(null);
+    return font;
+  }
+
+  // Fonts carried by an opened design or brand file; ones already here are kept
+  async function importFonts(list: CustomFont[]) {
+    const added: CustomFont[] = [];
+    for (const font of list) {
+      if (fonts.some((f) => f.id === font.id)) continue;
+      try {
+        await registerFont(font);
+        await putOne("fonts", font);
+        added.push(font);
+      } catch {
+        setError(`The font "${font.name}" from the file could not be added.`);
+      }
+    }
+    if (added.length) setFonts((current) => [...current, ...added].sort(byName));
+  }
+
+  async function remove(id: string) {
+    try {
+      await deleteOne("fonts", id);
+    } catch {
+      setError("Could not delete the font.");
+      return;
+    }
+    unregisterFont(id);
+    setFonts((list) => list.filter((f) => f.id !== id));
+    setError(null);
+  }
+
+  return { fonts, add, importFonts, remove, error };
+}
@@ -0,0 +1,141 @@
+import { useCallback, useEffect, useState } from "react";
+import { isRecord } from "./utils";
+
+// Undo/redo over a single immutable value
+// - Every change is a step, except that repeated changes to the same fields
+//   within MERGE_MS (slider drags, typing, dragging a layer) merge into one
+// - `{ merge: false }` forces a new step, e.g. for Reset or opening a file
+
+const LIMIT = 100;
+const MERGE_MS = 1000;
+
+type HistoryState<T> = {
+  past: T[];
+  present: T;
+  future: T[];
+  lastKey: string | null;
+  lastAt: number;
+};
+
+export type SetOptions = { merge?: boolean };
+
+// Which fields changed, e.g. "dim" or "layers.top.text". Arrays of records
+// are compared item by item, using the item's `id` when it has one.
+function changeKey(prev: unknown, next: unknown): string {
+  if (!isRecord(prev) || !isRecord(next)) return "";
+  const paths: string[] = [];
+  for (const key of new Set([...Object.keys(prev), ...Object.keys(next)])) {
+    const a = prev[key];
+    const b = next[key];
+    if (a === b) continue;
+    if (Array.isArray(a) && Array.isArray(b) && a.length === b.length) {
+      a.forEach((item, i) => {
+        if (item === b[i]) return;
+        const name = isRecord(item) && typeof item.id === "string" ? item.id : String(i);
+        const inner = changeKey(item, b[i]);
+        paths.push(inner ? inner.split(",").map((p) => `${key}.${name}.${p}`).join(",") : `${key}.${name}`);
+      });
+    } else {
+      paths.push(key);
+    }
+  }
+  return paths.join(",");
+}
+
+export function useHistory<T>(initial: () => T) {
+  const [state, setState] = useState<HistoryState<T>>(() => ({
+    past: [],
+    present: initial(),
+    future: [],
+    lastKey: null,
+    lastAt: 0,
+  }));
+
+  const set = useCallback((update: T | ((prev: T) => T), options: SetOptions = {}) => {
+    setState((h) => {
+      const next = typeof update === "function" ? (update as (prev: T) => T)(h.present) : update;
+      if (next === h.present) return h;
+      const key = changeKey(h.present, next);
+      const now = Date.now();
+      const merge = options.merge !== false && key !== "" && key === h.lastKey && now - h.lastAt < MERGE_MS;
+      return {
+        past: merge ? h.past : [...h.past, h.present].slice(-LIMIT),
+        present: next,
+        future: [],
+        lastKey: options.merge === false ? null : key,
+        lastAt: now,
+      };
+    });
+  }, []);
+
+  const undo = useCallback(() => {
+    setState((h) =>
+      h.past.length
+        ? {
+            past: h.past.slice(0, -1),
+            present: h.past[h.past.length - 1],
+            future: [h.present, ...h.future],
+            lastKey: null,
+            lastAt: 0,
+          }
+        : h
+    );
+  }, []);
+
+  const redo = useCallback(() => {
+    setState((h) =>
+      h.future.length
+        ? {
+            past: [...h.past, h.present],
+            present: h.future[0],
+            future: h.future.slice(1),
+            lastKey: null,
+            lastAt: 0,
+          }
+        : h
+    );
+  }, []);
+
+  return {
+    present: state.present,
+    set,
+    undo,
+    redo,
+    canUndo: state.past.length > 0,
+    canRedo: state.future.length > 0,
+  };
+}
+
+const NON_TEXT_INPUTS = ["checkbox", "radio", "range", "color", "file", "button", "submit", "reset"];
+
+// Text fields that edit something other than the design (preset names,
+// settings, the post queue) sit inside an element with data-native-undo;
+// typing there is undone by the browser, not by design history
+function hasNativeUndo(target: EventTarget | null) {
+  if (!(target instanceof HTMLElement) || !target.closest("[data-native-undo]")) return false;
+  return (
+    target.isContentEditable ||
+    target instanceof HTMLTextAreaElement ||
+    (target instanceof HTMLInputElement && !NON_TEXT_INPUTS.includes(target.type))
+  );
+}
+
+// Ctrl/Cmd+Z to undo, Ctrl/Cmd+Shift+Z or Ctrl+Y to redo
+export function useUndoShortcuts(undo: () => void, redo: () => void) {
+  useEffect(() => {
+    function onKey(e: KeyboardEvent) {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || hasNativeUndo(e.target)) return;
+      const key = e.key.toLowerCase();
+      if (key === "z") {
+        e.preventDefault();
+        if (e.shiftKey) redo();
+        else undo();
+      } else if (key === "y" && !e.shiftKey) {
+        e.preventDefault();
+        redo();
+      }
+    }
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [undo, redo]);
+}
@@ -0,0 +1,21 @@
+import { useEffect, useRef } from "react";
+import { isImageFile } from "./upload";
+
+// Ctrl+V / Cmd+V anywhere on the page with an image on the clipboard
+// (a screenshot, or "Copy image" in a browser). Text pastes are left alone.
+// The listener stays put; it calls whatever `onImage` the last render passed.
+export function usePasteImage(onImage: (file: File) => void) {
+  const latest = useRef(onImage);
+  latest.current = onImage;
+
+  useEffect(() => {
+    function onPaste(e: ClipboardEvent) {
+      const file = Array.from(e.clipboardData?.files ?? []).find(isImageFile);
+      if (!file) return;
+      e.preventDefault();
+      latest.current(file);
+    }
+    window.addEventListener("paste", onPaste);
+    return () => window.removeEventListener("paste", onPaste);
+  }, []);
+}
@@ -0,0 +1,77 @@
+import { useEffect, useState } from "react";
+import { deleteOne, getAll, putOne } from "./db";
+import { Design, DesignFileError } from "./design";
+import { QueuedPost, createPost, storePost, validatePost } from "./queue";
+import { makeId } from "./utils";
+
+function byOrder(a: QueuedPost, b: QueuedPost) {
+  return a.order - b.order;
+}
+
+// The team's planned posts, kept in sync with IndexedDB
+export function usePostQueue() {
+  const [posts, setPosts] = useState<QueuedPost[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getAll<unknown>("queue")
+      .then((list) => {
+        let unreadable = 0;
+        const valid = list.flatMap((raw) => {
+          try {
+            const post = validatePost(raw);
+            if (post) return [post];
+          } catch (err) {
+            if (!(err instanceof DesignFileError)) throw err;
+          }
+          unreadable++;
+          return [];
+        });
+        setPosts(valid.sort(byOrder));
+        if (unreadable) setError(`${unreadable} queued post(s) could not be read.`);
+      })
+      .catch(() => setError("The post queue is not available in this browser."));
+  }, []);
+
+  function save(changed: QueuedPost[]) {
+    const ids = new Set(changed.map((p) => p.id));
+    setPosts((list) => [...list.filter((p) => !ids.has(p.id)), ...changed].sort(byOrder));
+    Promise.all(changed.map((p) => putOne("queue", storePost(p)))).catch(() => setError("Could not save the post queue."));
+  }
+
+  const nextOrder = () => Math.max(0, ...posts.map((p) => p.order + 1));
+
+  function add(design: Design) {
+    const post = createPost(design, nextOrder());
+    save([post]);
+    return post;
+  }
+
+  function update(id: string, patch: Partial<QueuedPost>) {
+    const post = posts.find((p) => p.id === id);
+    if (post) save([{ ...post, ...patch }]);
+  }
+
+  // The copy goes to the end of the list as a draft
+  function duplicate(id: string) {
+    const post = posts.find((p) => p.id === id);
+    if (post) save([{ ...post, id: makeId(), title: `${post.title} (copy)`, status: "draft", order: nextOrder() }]);
+  }
+
+  function move(id: string, delta: number) {
+    const idx = posts.findIndex((p) => p.id === id);
+    const other = posts[idx + delta];
+    if (idx < 0 || !other) return;
+    save([
+      { ...posts[idx], order: other.order },
+      { ...other, order: posts[idx].order },
+    ]);
+  }
+
+  function remove(id: string) {
+    setPosts((list) => list.filter((p) => p.id !== id));
+    deleteOne("queue", id).catch(() => setError("Could not delete the post from the queue."));
+  }
+
+  return { posts, add, update, duplicate, move, remove, error };
+}
@@ -0,0 +1,37 @@
+import { useEffect, useMemo, useState } from "react";
+import { deleteOne, getAll, putOne } from "./db";
+import { Preset, builtInPresets, validateStoredPreset } from "./presets";
+
+function byName(a: Preset, b: Preset) {
+  return a.name.localeCompare(b.name);
+}
+
+// Built-in presets followed by the user's own, kept in sync with IndexedDB
+export function usePresetLibrary() {
+  const [userPresets, setUserPresets] = useState<Preset[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getAll<unknown>("presets")
+      .then((list) => {
+        const valid = list.map(validateStoredPreset).filter((p): p is Preset => p !== null);
+        setUserPresets(valid.sort(byName));
+        if (valid.length < list.length) setError(`${list.length - valid.length} saved preset(s) could not be read.`);
+      })
+      .catch(() => setError("Saved presets are not available in this browser."));
+  }, []);
+
+  const presets = useMemo(() => [...builtInPresets, ...userPresets], [userPresets]);
+
+  async function save(preset: Preset) {
+    await putOne("presets", preset);
+    setUserPresets((list) => [...list.filter((p) => p.id !== preset.id), preset].sort(byName));
+  }
+
+  async function remove(id: string) {
+    await deleteOne("presets", id);
+    setUserPresets((list) => list.filter((p) => p.id !== id));
+  }
+
+  return { presets, userPresets, save, remove, error };
+}
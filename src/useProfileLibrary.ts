@@ -0,0 +1,62 @@
+import { useEffect, useState } from "react";
+import { deleteOne, getAll, putOne } from "./db";
+import { PlatformProfile, ProfileError, USER_PREFIX, registerProfiles, validateUserProfile } from "./platforms";
+import { makeId } from "./utils";
+
+function byName(a: PlatformProfile, b: PlatformProfile) {
+  return a.name.localeCompare(b.name);
+}
+
+// The user's own platform profiles, registered with the size lookup and
+// kept in IndexedDB
+export function useProfileLibrary() {
+  const [profiles, setProfiles] = useState<PlatformProfile[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  function publish(list: PlatformProfile[]) {
+    const sorted = [...list].sort(byName);
+    registerProfiles(sorted);
+    setProfiles(sorted);
+  }
+
+  useEffect(() => {
+    getAll<unknown>("profiles")
+      .then((list) =>
+        publish(
+          list.flatMap((raw) => {
+            try {
+              return [validateUserProfile(raw)];
+            } catch {
+              return [];
+            }
+          })
+        )
+      )
+      .catch(() => setError("Saved profiles are not available in this browser."));
+  }, []);
+
+  async function save(draft: Pick<PlatformProfile, "name" | "w" | "h" | "safe">) {
+    try {
+      const profile = validateUserProfile({ ...draft, id: `${USER_PREFIX}${makeId()}` });
+      await putOne("profiles", profile);
+      publish([...profiles, profile]);
+      setError(null);
+      return profile;
+    } catch (err) {
+      setError(err instanceof ProfileError ? err.message : "Could not save the profile.");
+      return null;
+    }
+  }
+
+  async function remove(id: string) {
+    try {
+      await deleteOne("profiles", id);
+      publish(profiles.filter((p) => p.id !== id));
+      setError(null);
+    } catch {
+      setError("Could not delete the profile.");
+    }
+  }
+
+  return { profiles, save, remove, error };
+}
@@ -0,0 +1,32 @@
+import { useEffect, useState } from "react";
+import { Design } from "./design";
+import { BrandKit } from "./brand";
+import { layoutDesign } from "./render";
+import { Backdrop, CONTRAST_TARGETS, checkReadability, suggestReadability } from "./readability";
+import { renderBackdrop } from "./stageCanvas";
+
+// Contrast of each text layer against the photo behind it. The backdrop is
+// rendered again only when the photo, its framing or its treatment changes.
+export function useReadability(design: Design, brand: BrandKit) {
+  const [backdrop, setBackdrop] = useState<Backdrop | null>(null);
+  const [target, setTarget] = useState(CONTRAST_TARGETS[1].ratio);
+
+  useEffect(() => {
+    let live = true;
+    renderBackdrop(design, brand).then(
+      (next) => live && setBackdrop(next),
+      () => live && setBackdrop(null)
+    );
+    return () => {
+      live = false;
+    };
+  }, [design.image?.src, design.crop, design.bgFit, design.sizeId, design.adjust, design.gradients, brand.palette]);
+
+  const layouts = layoutDesign(design, brand);
+  return {
+    target,
+    setTarget,
+    layers: backdrop ? checkReadability(backdrop, layouts, design, brand, target) : [],
+    suggest: () => (backdrop ? suggestReadability(backdrop, layouts, brand, target) : null),
+  };
+}
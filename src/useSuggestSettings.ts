@@ -0,0 +1,26 @@
+import { useEffect, useState } from "react";
+import { getOne, putOne } from "./db";
+import { SuggestSettings, defaultSuggestSettings, validateSuggestSettings } from "./suggest";
+
+const SETTINGS_ID = "suggest";
+
+// Text-suggestion endpoint settings, kept in IndexedDB (never in design files)
+export function useSuggestSettings() {
+  const [settings, setSettings] = useState<SuggestSettings>(defaultSuggestSettings);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getOne<SuggestSettings & { id: string }>("settings", SETTINGS_ID)
+      .then((saved) => {
+        if (saved) setSettings(validateSuggestSettings(saved));
+      })
+      .catch(() => setError("Saved suggestion settings are not available in this browser."));
+  }, []);
+
+  function save(next: SuggestSettings) {
+    setSettings(next);
+    putOne("settings", { ...next, id: SETTINGS_ID }).catch(() => setError("Could not save the suggestion settings."));
+  }
+
+  return { settings, save, error };
+}
@@ -0,0 +1,72 @@
+export function clamp(n: number, min: number, max: number) {
+  return Math.max(min, Math.min(max, n));
+}
+
+export function makeId() {
+  return Math.random().toString(36).slice(2, 10);
+}
+
+export function readableFileSize(bytes: number) {
+  if (!bytes) return "";
+  const units = ["B", "KB", "MB", "GB"];
+  let idx = 0;
+  let val = bytes;
+  while (val >= 1024 && idx < units.length - 1) {
+    val /= 1024;
+    idx++;
+  }
+  return `${val.toFixed(idx === 0 ? 0 : 1)} ${units[idx]}`;
+}
+
+export function safeFileName(name: string | undefined, fallback = "post") {
+  return (name || fallback).replace(/\.[^/.]+$/, "").replace(/[^a-zA-Z0-9_-]+/g, "_");
+}
+
+export function readFileAsDataUrl(file: Blob) {
+  return new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
+export function loadImage(src: string) {
+  return new Promise<HTMLImageElement>((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Image failed to load"));
+    img.src = src;
+  });
+}
+
+export function downloadUrl(href: string, fileName: string) {
+  const a = document.createElement("a");
+  a.download = fileName;
+  a.href = href;
+  a.click();
+}
+
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  downloadUrl(url, fileName);
+  // Give the browser a moment to start the download before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+// Readers for untrusted JSON (design files, preset files, …)
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+export function readString(value: unknown, fallback: string) {
+  return typeof value === "string" ? value : fallback;
+}
+
+export function readNumber(value: unknown, fallback: number) {
+  return typeof value === "number" && Number.isFinite(value) ? value : fallback;
+}
+
+export function readEnum<T extends string>(value: unknown, allowed: readonly T[], fallback: T): T {
+  return allowed.includes(value as T) ? (value as T) : fallback;
+}
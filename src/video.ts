@@ -0,0 +1,122 @@
+import { ArrayBufferTarget as WebMTarget, Muxer as WebMMuxer } from "webm-muxer";
+import { ArrayBufferTarget as Mp4Target, Muxer as Mp4Muxer } from "mp4-muxer";
+import { GIFEncoder, applyPalette, quantize } from "gifenc";
+import { VideoFormat } from "./design";
+
+// Video encoding, entirely in the browser
+// - WebM (VP9) and MP4 (H.264) go through WebCodecs and a muxer
+// - GIF is quantized frame by frame; it is scaled down and capped at
+//   GIF_MAX_FPS, since full-size GIFs get huge
+// - Frames are rendered one at a time and encoded as they come, so memory
+//   use doesn't grow with the clip length
+
+export const VIDEO_FORMATS: Record<VideoFormat, { label: string; mime: string; ext: string }> = {
+  webm: { label: "WebM", mime: "video/webm", ext: "webm" },
+  mp4: { label: "MP4", mime: "video/mp4", ext: "mp4" },
+  gif: { label: "GIF", mime: "image/gif", ext: "gif" },
+};
+
+const GIF_MAX_WIDTH = 540;
+const GIF_MAX_FPS = 15;
+const BITRATE = 8_000_000;
+const KEYFRAME_SECONDS = 2;
+
+export class VideoEncodeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "VideoEncodeError";
+  }
+}
+
+export type VideoSpec = { width: number; height: number; duration: number; fps: number };
+
+// Renders the frame at `time` seconds
+export type FrameSource = (time: number) => Promise<HTMLCanvasElement>;
+
+export async function encodeVideo(
+  format: VideoFormat,
+  spec: VideoSpec,
+  renderFrame: FrameSource,
+  onProgress: (done: number, total: number) => void
+): Promise<Blob> {
+  if (format === "gif") return encodeGif(spec, renderFrame, onProgress);
+
+  if (typeof VideoEncoder === "undefined") {
+    throw new VideoEncodeError("This browser can't encode video. Try a recent Chrome or Edge, or export a GIF.");
+  }
+  // Encoders want even dimensions
+  const width = spec.width & ~1;
+  const height = spec.height & ~1;
+  const config: VideoEncoderConfig = {
+    codec: format === "mp4" ? "avc1.640028" : "vp09.00.40.08",
+    width,
+    height,
+    bitrate: BITRATE,
+    framerate: spec.fps,
+  };
+  const support = await VideoEncoder.isConfigSupported(config);
+  if (!support.supported) {
+    throw new VideoEncodeError(`This browser can't encode ${VIDEO_FORMATS[format].label} at ${width}×${height}.`);
+  }
+
+  const muxer =
+    format === "mp4"
+      ? new Mp4Muxer({ target: new Mp4Target(), video: { codec: "avc", width, height }, fastStart: "in-memory" })
+      : new WebMMuxer({ target: new WebMTarget(), video: { codec: "V_VP9", width, height, frameRate: spec.fps } });
+
+  let failure: unknown = null;
+  const encoder = new VideoEncoder({
+    output: (chunk, meta) => muxer.addVideoChunk(chunk, meta),
+    error: (err) => (failure = new VideoEncodeError(`Video encoding failed: ${err.message}`)),
+  });
+  encoder.configure(config);
+
+  const frame = document.createElement("canvas");
+  frame.width = width;
+  frame.height = height;
+  const ctx = frame.getContext("2d")!;
+
+  const total = Math.max(1, Math.round(spec.duration * spec.fps));
+  const step = 1_000_000 / spec.fps; // microseconds
+  try {
+    for (let i = 0; i < total; i++) {
+      ctx.drawImage(await renderFrame(i / spec.fps), 0, 0, width, height);
+      const videoFrame = new VideoFrame(frame, { timestamp: Math.round(i * step), duration: Math.round(step) });
+      encoder.encode(videoFrame, { keyFrame: i % (spec.fps * KEYFRAME_SECONDS) === 0 });
+      videoFrame.close();
+      if (failure) throw failure;
+      onProgress(i + 1, total);
+    }
+    await encoder.flush();
+  } finally {
+    if (encoder.state !== "closed") encoder.close();
+  }
+  if (failure) throw failure;
+
+  muxer.finalize();
+  return new Blob([muxer.target.buffer], { type: VIDEO_FORMATS[format].mime });
+}
+
+async function encodeGif(spec: VideoSpec, renderFrame: FrameSource, onProgress: (done: number, total: number) => void) {
+  const scale = Math.min(1, GIF_MAX_WIDTH / spec.width);
+  const width = Math.round(spec.width * scale);
+  const height = Math.round(spec.height * scale);
+  const fps = Math.min(spec.fps, GIF_MAX_FPS);
+
+  const frame = document.createElement("canvas");
+  frame.width = width;
+  frame.height = height;
+  const ctx = frame.getContext("2d", { willReadFrequently: true })!;
+
+  const gif = GIFEncoder();
+  const total = Math.max(1, Math.round(spec.duration * fps));
+  for (let i = 0; i < total; i++) {
+    ctx.drawImage(await renderFrame(i / fps), 0, 0, width, height);
+    const { data } = ctx.getImageData(0, 0, width, height);
+    const palette = quantize(data, 256);
+    gif.writeFrame(applyPalette(data, palette), width, height, { palette, delay: 1000 / fps });
+    onProgress(i + 1, total);
+  }
+  gif.finish();
+  return new Blob([gif.bytes()] as BlobPart[], { type: VIDEO_FORMATS.gif.mime });
+}
@@ -0,0 +1,51 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { createZip, crc32, uniqueName } from "./zip";
+
+// Name, stored data and CRC of each entry, read back through the central directory
+function readZip(bytes: Uint8Array) {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const end = bytes.length - 22;
+  assert.equal(view.getUint32(end, true), 0x06054b50);
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  const entries = [];
+  for (let i = 0; i < count; i++) {
+    assert.equal(view.getUint32(offset, true), 0x02014b50);
+    const crc = view.getUint32(offset + 16, true);
+    const size = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const local = view.getUint32(offset + 42, true);
+    const name = new TextDecoder().decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    assert.equal(view.getUint32(local, true), 0x04034b50);
+    const start = local + 30 + view.getUint16(local + 26, true);
+    entries.push({ name, data: bytes.slice(start, start + size), crc });
+    offset += 46 + nameLength;
+  }
+  return entries;
+}
+
+test("crc32 matches the standard check value", () => {
+  assert.equal(crc32(new TextEncoder().encode("123456789")), 0xcbf43926);
+});
+
+test("entries read back with their names, data and checksums", async () => {
+  const entries = [
+    { name: "post_01.png", data: new Uint8Array([1, 2, 3]) },
+    { name: "Bildunterschrift_ä.txt", data: new TextEncoder().encode("Hallo") },
+    { name: "empty.txt", data: new Uint8Array() },
+  ];
+  const zip = new Uint8Array(await createZip(entries).arrayBuffer());
+  assert.deepEqual(
+    readZip(zip),
+    entries.map(({ name, data }) => ({ name, data, crc: crc32(data) }))
+  );
+});
+
+test("names stay unique inside one archive", () => {
+  const taken = new Set<string>();
+  assert.deepEqual(
+    ["a.png", "a.png", "a.png", "a", "a", ".env", ".env"].map((n) => uniqueName(n, taken)),
+    ["a.png", "a_2.png", "a_3.png", "a", "a_2", ".env", ".env_2"]
+  );
+});